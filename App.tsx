@@ -1,5 +1,5 @@
 import React, { useState, useEffect } from 'react';
-import { StyleSheet, Platform, View, Text } from 'react-native';
+import { StyleSheet, Platform, View, Text, TouchableOpacity } from 'react-native';
 import { SafeAreaProvider } from 'react-native-safe-area-context';
 import * as ScreenOrientation from 'expo-screen-orientation';
 import * as NavigationBar from 'expo-navigation-bar';
@@ -7,33 +7,60 @@ import GameBoard from './components/GameBoard';
 import StartScreen from './components/StartScreen';
 
 import { useSocket } from './hooks/useSocket';
+import { ActionLog, AIDifficulty, GameMode, HouseRules, LobbyAction, SavedGame, VariantName } from './types/gameTypes';
+
+const AI_DIFFICULTY_LABELS: { difficulty: AIDifficulty; label: string }[] = [
+  { difficulty: 'easy', label: 'Easy' },
+  { difficulty: 'medium', label: 'Medium' },
+  { difficulty: 'hard', label: 'Hard' },
+];
 
 // Wrapper for the multiplayer game experience
-const MultiplayerGame = () => {
-  const { gameState, playerNumber, sendAction } = useSocket();
+const MultiplayerGame = ({ lobbyAction, onBackToMenu }: { lobbyAction: LobbyAction; onBackToMenu: () => void }) => {
+  const { gameState, playerNumber, roomCode, isOpponentReconnecting, rematchOffers, hasOpponentLeft, actionError, clearActionError, actionOptions, clearActionOptions, sendAction, createRoom, joinRoom, addComputerPlayer, leaveRoom, resign, offerRematch } = useSocket();
 
-  const handleRestart = () => {
-    // In multiplayer, restart might mean leaving the game
-    // For now, just disconnect and go back to menu
-    // TODO: Implement proper restart logic
-  };
+  // Create or join the room chosen on the start screen
+  useEffect(() => {
+    if (lobbyAction.type === 'join') {
+      joinRoom(lobbyAction.roomCode);
+    } else {
+      createRoom(undefined, lobbyAction.timeControl, lobbyAction.matchTarget, lobbyAction.seating, lobbyAction.variant, lobbyAction.rules);
+    }
+  }, [lobbyAction]);
 
+  // Leaving a game that is still being played forfeits it to the opponent
   const handleBackToMenu = () => {
-    // Disconnect and go back to menu
-    // TODO: Implement proper disconnect logic
+    leaveRoom();
+    onBackToMenu();
   };
 
   if (!gameState) {
     return (
       <View style={styles.container}>
+        {roomCode && (
+          <Text style={styles.roomCodeText}>Room code: {roomCode}</Text>
+        )}
         <Text style={{color: 'white', fontSize: 30, textAlign: 'center'}}>
-          Waiting for another player to join...
+          {roomCode ? 'Waiting for another player to join...' : 'Connecting...'}
         </Text>
+        {roomCode && (
+          <View style={styles.computerRow}>
+            <Text style={styles.computerLabel}>Or play the computer:</Text>
+            {AI_DIFFICULTY_LABELS.map(({ difficulty, label }) => (
+              <TouchableOpacity key={difficulty} style={styles.computerButton} onPress={() => addComputerPlayer(difficulty)}>
+                <Text style={styles.cancelButtonText}>{label}</Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+        )}
+        <TouchableOpacity style={styles.cancelButton} onPress={handleBackToMenu}>
+          <Text style={styles.cancelButtonText}>Cancel</Text>
+        </TouchableOpacity>
       </View>
     );
   }
 
-  return <GameBoard initialState={gameState} playerNumber={playerNumber} sendAction={sendAction} onRestart={handleRestart} onBackToMenu={handleBackToMenu} />;
+  return <GameBoard initialState={gameState} playerNumber={playerNumber} sendAction={sendAction} onRestart={offerRematch} onBackToMenu={handleBackToMenu} onResign={resign} rematchOffers={rematchOffers} hasOpponentLeft={hasOpponentLeft} isOpponentReconnecting={isOpponentReconnecting} actionError={actionError} onDismissActionError={clearActionError} actionOptions={actionOptions} onDismissActionOptions={clearActionOptions} />;
 }
 
 export default function App() {
@@ -46,7 +73,14 @@ export default function App() {
 
 function AppContent() {
   const [key, setKey] = useState(0);
-  const [gameMode, setGameMode] = useState<'single' | 'multiplayer' | null>(null);
+  const [gameMode, setGameMode] = useState<GameMode | null>(null);
+  const [lobbyAction, setLobbyAction] = useState<LobbyAction>({ type: 'create' });
+  const [aiDifficulty, setAIDifficulty] = useState<AIDifficulty>('medium');
+  const [matchTarget, setMatchTarget] = useState<number | null>(null);
+  const [variant, setVariant] = useState<VariantName>('standard');
+  const [houseRules, setHouseRules] = useState<HouseRules | null>(null);
+  const [replayLog, setReplayLog] = useState<ActionLog | null>(null);
+  const [savedGame, setSavedGame] = useState<SavedGame | null>(null);
 
   // Initialize global drop zones registry for drag and drop functionality
   useEffect(() => {
@@ -69,29 +103,59 @@ function AppContent() {
     setupImmersiveMode();
   }, []);
 
+  // Multiplayer games restart through a rematch offer instead
   const handleRestart = () => {
-    // In multiplayer, restart might mean leaving the game
-    if (gameMode === 'multiplayer') {
-      setGameMode(null); // Go back to main menu
-    } else {
-      setKey((prev) => prev + 1);
-    }
+    setSavedGame(null);
+    setKey((prev) => prev + 1);
   };
 
   const handleBackToMenu = () => {
     setGameMode(null);
   }
 
+  const handleSelectMode = (mode: GameMode, action?: LobbyAction, difficulty?: AIDifficulty, target: number | null = null, chosenVariant: VariantName = 'standard', chosenRules: HouseRules | null = null) => {
+    if (action) {
+      setLobbyAction(action);
+    }
+    if (difficulty) {
+      setAIDifficulty(difficulty);
+    }
+    setMatchTarget(target);
+    setVariant(chosenVariant);
+    setHouseRules(chosenRules);
+    setSavedGame(null);
+    setGameMode(mode);
+  };
+
+  const handleContinueGame = (save: SavedGame) => {
+    setAIDifficulty(save.aiDifficulty);
+    setSavedGame(save);
+    setGameMode('single');
+  };
+
+  const handleLoadReplay = (actionLog: ActionLog) => {
+    setReplayLog(actionLog);
+    setGameMode('replay');
+  };
+
   if (!gameMode) {
-    return <StartScreen onSelectMode={setGameMode} />;
+    return <StartScreen onSelectMode={handleSelectMode} onLoadReplay={handleLoadReplay} onContinueGame={handleContinueGame} />;
   }
 
   if (gameMode === 'single') {
     // Pass a function to go back to the main menu
-    return <GameBoard key={key} onRestart={handleRestart} onBackToMenu={handleBackToMenu} initialState={null} playerNumber={null} sendAction={() => {}} />;
+    return <GameBoard key={key} onRestart={handleRestart} onBackToMenu={handleBackToMenu} initialState={null} playerNumber={null} sendAction={null} aiDifficulty={aiDifficulty} savedGame={savedGame} matchTarget={matchTarget} variant={variant} rules={houseRules} />;
+  }
+
+  if (gameMode === 'tutorial') {
+    return <GameBoard key={key} onRestart={handleRestart} onBackToMenu={handleBackToMenu} initialState={null} playerNumber={null} sendAction={null} tutorial />;
   }
 
-  return <MultiplayerGame />;
+  if (gameMode === 'replay') {
+    return <GameBoard key={key} onRestart={handleRestart} onBackToMenu={handleBackToMenu} initialState={null} playerNumber={null} sendAction={null} replayLog={replayLog} />;
+  }
+
+  return <MultiplayerGame lobbyAction={lobbyAction} onBackToMenu={handleBackToMenu} />;
 }
 
 const styles = StyleSheet.create({
@@ -101,4 +165,44 @@ const styles = StyleSheet.create({
     justifyContent: 'center',
     alignItems: 'center',
   },
+  roomCodeText: {
+    color: '#ffd700',
+    fontSize: 36,
+    fontWeight: 'bold',
+    letterSpacing: 6,
+    marginBottom: 20,
+  },
+  cancelButton: {
+    marginTop: 30,
+    backgroundColor: 'rgba(0, 0, 0, 0.3)',
+    paddingVertical: 12,
+    paddingHorizontal: 30,
+    borderRadius: 10,
+    borderWidth: 1,
+    borderColor: 'rgba(255, 255, 255, 0.3)',
+  },
+  computerRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginTop: 30,
+  },
+  computerLabel: {
+    color: 'white',
+    fontSize: 20,
+    marginRight: 10,
+  },
+  computerButton: {
+    backgroundColor: 'rgba(0, 0, 0, 0.3)',
+    paddingVertical: 10,
+    paddingHorizontal: 20,
+    borderRadius: 10,
+    borderWidth: 1,
+    borderColor: 'rgba(255, 255, 255, 0.3)',
+    marginHorizontal: 5,
+  },
+  cancelButtonText: {
+    color: 'white',
+    fontSize: 20,
+    textAlign: 'center',
+  },
 });
@@ -8,16 +8,28 @@ import {
 } from 'react-native';
 
 type BurgerMenuProps = {
-  onRestart: () => void;
+  onRestart?: () => void; // Left out in online games, which restart through a rematch
   onEndGame: () => void;
+  onHint?: () => void;
+  onResign?: () => void; // Online games only
 };
 
-const BurgerMenu = ({ onRestart, onEndGame }: BurgerMenuProps): ReactElement => {
+const BurgerMenu = ({ onRestart, onEndGame, onHint, onResign }: BurgerMenuProps): ReactElement => {
   const [isMenuOpen, setIsMenuOpen] = useState<boolean>(false);
 
+  const handleHint = (): void => {
+    setIsMenuOpen(false);
+    onHint?.();
+  };
+
   const handleRestart = (): void => {
     setIsMenuOpen(false);
-    onRestart();
+    onRestart?.();
+  };
+
+  const handleResign = (): void => {
+    setIsMenuOpen(false);
+    onResign?.();
   };
 
   const handleEndGame = (): void => {
@@ -56,15 +68,47 @@ const BurgerMenu = ({ onRestart, onEndGame }: BurgerMenuProps): ReactElement =>
             activeOpacity={1}
           />
           <View style={styles.menuContainer}>
-            <TouchableOpacity 
-              style={styles.menuItem}
-              onPress={handleRestart}
-              activeOpacity={0.8}
-            >
-              <Text style={styles.menuItemText}>🔄 Restart Game</Text>
-            </TouchableOpacity>
-            
-            <View style={styles.menuDivider} />
+            {onHint && (
+              <>
+                <TouchableOpacity 
+                  style={styles.menuItem}
+                  onPress={handleHint}
+                  activeOpacity={0.8}
+                >
+                  <Text style={styles.menuItemText}>💡 Hint</Text>
+                </TouchableOpacity>
+
+                <View style={styles.menuDivider} />
+              </>
+            )}
+
+            {onRestart && (
+              <>
+                <TouchableOpacity 
+                  style={styles.menuItem}
+                  onPress={handleRestart}
+                  activeOpacity={0.8}
+                >
+                  <Text style={styles.menuItemText}>🔄 Restart Game</Text>
+                </TouchableOpacity>
+
+                <View style={styles.menuDivider} />
+              </>
+            )}
+
+            {onResign && (
+              <>
+                <TouchableOpacity 
+                  style={styles.menuItem}
+                  onPress={handleResign}
+                  activeOpacity={0.8}
+                >
+                  <Text style={styles.menuItemText}>🏳️ Resign</Text>
+                </TouchableOpacity>
+
+                <View style={styles.menuDivider} />
+              </>
+            )}
             
             <TouchableOpacity 
               style={styles.menuItem}
@@ -1,9 +1,10 @@
-import React, { useState, useEffect, useCallback } from 'react';
+import React, { useState, useEffect, useCallback, useMemo } from 'react';
 import {
   View,
   Text,
   StyleSheet,
   Alert,
+  Share,
   TouchableOpacity,
   Dimensions
 } from 'react-native';
@@ -20,9 +21,42 @@ import BurgerMenu from './BurgerMenu';
 // Import the game logic hook for single-player mode
 import { useGameActions } from './useGameActions';
 import { determineActions } from '../utils/actionDeterminer';
+import {
+  suggestMove,
+  getCardId,
+  TUTORIAL_LESSONS,
+  TUTORIAL_SEAT,
+  createLessonState,
+  listDropMoves,
+  isExpectedMove,
+  applyTutorialMove,
+  verifyDeal,
+  getReplayFrames,
+  writeGameNotation,
+  isMatchUnfinished,
+  VARIANTS,
+  describeHouseRules
+} from '../game-logic/index.js';
+import { ActionLog, ActionLogEntry, DealFairness, GameForfeit, Hint, HouseRules, Match, VariantName } from '../types/gameTypes';
+
+// Counts down the current turn of a timed online game from the time left when the view arrived
+const TurnTimer = ({ turnMsLeft, turnStartedAt }: { turnMsLeft: number, turnStartedAt: number | null }) => {
+  const [msLeft, setMsLeft] = useState(turnMsLeft);
+
+  useEffect(() => {
+    const deadline = Date.now() + turnMsLeft;
+    setMsLeft(turnMsLeft);
+    const interval = setInterval(() => setMsLeft(Math.max(0, deadline - Date.now())), 250);
+    return () => clearInterval(interval);
+  }, [turnMsLeft, turnStartedAt]);
+
+  const seconds = Math.ceil(msLeft / 1000);
+  const label = `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')}`;
+  return <Text style={[styles.turnTimerText, seconds <= 10 && styles.turnTimerLow]}>⏱ {label}</Text>;
+};
 
 // Status Section Component - exactly like web version
-const StatusSection = React.memo(({ round, currentPlayer }: { round: number, currentPlayer: number }) => {
+const StatusSection = React.memo(({ round, currentPlayer, turnMsLeft = null, turnStartedAt = null, match = null }: { round: number, currentPlayer: number, turnMsLeft?: number | null, turnStartedAt?: number | null, match?: Match | null }) => {
   const getPlayerColor = (player: number) => {
     return player === 0 ? '#FF5722' : '#2196F3';
   };
@@ -30,37 +64,98 @@ const StatusSection = React.memo(({ round, currentPlayer }: { round: number, cur
   return (
     <View style={styles.statusSection}>
       <View style={styles.statusContent}>
+        {match && (
+          <Text style={styles.statusText}>
+            Match: {match.totals.join(' – ')} (to {match.targetScore})
+          </Text>
+        )}
         <Text style={styles.statusText}>Round: {round}</Text>
         <View style={[styles.playerTurnTag, { backgroundColor: getPlayerColor(currentPlayer) }]}>
           <Text style={styles.playerTurnText}>P{currentPlayer + 1}</Text>
         </View>
+        {turnMsLeft !== null && <TurnTimer turnMsLeft={turnMsLeft} turnStartedAt={turnStartedAt} />}
       </View>
     </View>
   );
 });
 
-// Opponent Captured Cards Section - Only opponent, minimal styling
-const OpponentCapturedSection = React.memo(({ playerCaptures, currentPlayer, onCardPress = () => {}, onDragStart, onDragEnd, onDragMove }: { playerCaptures: any[], currentPlayer: number, onCardPress?: (card: any, source: string) => void, onDragStart: (card: any) => void, onDragEnd: (card: any, position: any) => void, onDragMove: (card: any, position: any) => void }) => {
-  const opponentIndex = 1 - currentPlayer;
-  const capturedGroups = playerCaptures[opponentIndex] || [];
-  const allCapturedCards = capturedGroups.flat();
-  const hasCards = allCapturedCards.length > 0;
+// Shown while the server is holding a disconnected opponent's seat
+const ReconnectingBanner = React.memo(() => (
+  <View style={styles.reconnectingBanner}>
+    <Text style={styles.reconnectingText}>Opponent reconnecting…</Text>
+  </View>
+));
+
+// Shown while the computer opponent is choosing its move
+const ThinkingBanner = React.memo(() => (
+  <View style={styles.reconnectingBanner}>
+    <Text style={styles.reconnectingText}>Computer is thinking…</Text>
+  </View>
+));
+
+// Explains the move suggested by a hint; tap to dismiss
+const HintBanner = React.memo(({ message, onDismiss }: { message: string, onDismiss: () => void }) => (
+  <TouchableOpacity style={styles.hintBanner} onPress={onDismiss} activeOpacity={0.8}>
+    <Text style={styles.hintText}>💡 {message}</Text>
+  </TouchableOpacity>
+));
+
+// Suggests a move for a seat on request; the suggestion is dropped once the game moves on
+const useHint = (gameState, seat: number) => {
+  const [hint, setHint] = useState<Hint | null>(null);
+  const [hintMessage, setHintMessage] = useState<string | null>(null);
+
+  useEffect(() => {
+    setHint(null);
+    setHintMessage(null);
+  }, [gameState]);
+
+  const showHint = useCallback(() => {
+    const suggestion: Hint | null = gameState ? suggestMove(gameState, seat) : null;
+    setHint(suggestion);
+    setHintMessage(suggestion ? suggestion.explanation : 'No move to suggest right now. Wait for your turn.');
+  }, [gameState, seat]);
+
+  const clearHint = useCallback(() => {
+    setHint(null);
+    setHintMessage(null);
+  }, []);
+
+  return { hint, hintMessage, showHint, clearHint };
+};
+
+// Opponent Captured Cards Section - Every opponent's pile, minimal styling
+// A teammate's pile is left out, as only opponents' cards can be borrowed. Dragged cards carry
+// the seat they come from.
+const OpponentCapturedSection = React.memo(({ playerCaptures, currentPlayer, teams = null, onCardPress = () => {}, onDragStart, onDragEnd, onDragMove }: { playerCaptures: any[], currentPlayer: number, teams?: number[][] | null, onCardPress?: (card: any, source: string) => void, onDragStart: (card: any) => void, onDragEnd: (card: any, position: any) => void, onDragMove: (card: any, position: any) => void }) => {
+  const opponentSeats = playerCaptures
+    .map((captures, seat) => seat)
+    .filter(seat => seat !== currentPlayer && !teams?.some(team => team.includes(seat) && team.includes(currentPlayer)));
 
   return (
     <View style={styles.opponentCapturedList}>
-      <CapturedCards
-        captures={capturedGroups}
-        playerIndex={opponentIndex}
-        hasCards={hasCards}
-        topCard={hasCards ? allCapturedCards[allCapturedCards.length - 1] : null}
-        isOpponent={true}
-        onCardPress={onCardPress}
-        isMinimal={true}
-        onDragStart={onDragStart}
-        onDragEnd={onDragEnd}
-        onDragMove={onDragMove}
-        currentPlayer={currentPlayer}
-      />
+      {opponentSeats.map(opponentIndex => {
+        const capturedGroups = playerCaptures[opponentIndex] || [];
+        const allCapturedCards = capturedGroups.flat();
+        const hasCards = allCapturedCards.length > 0;
+
+        return (
+          <CapturedCards
+            key={opponentIndex}
+            captures={capturedGroups}
+            playerIndex={opponentIndex}
+            hasCards={hasCards}
+            topCard={hasCards ? allCapturedCards[allCapturedCards.length - 1] : null}
+            isOpponent={true}
+            onCardPress={onCardPress}
+            isMinimal={true}
+            onDragStart={onDragStart}
+            onDragEnd={(item, position) => onDragEnd({ ...item, from: opponentIndex }, position)}
+            onDragMove={onDragMove}
+            currentPlayer={currentPlayer}
+          />
+        );
+      })}
     </View>
   );
 });
@@ -96,8 +191,9 @@ const TableCardsSection = React.memo(({
   onDragStart,
   onDragEnd,
   onDragMove,
-  isDragging = false
-}: { tableCards: any[], onDropOnCard: (draggedItem: any, targetInfo: any) => void, currentPlayer: number, onCancelStack: (stack: any) => void, onConfirmStack: (stack: any) => void, onCardPress?: (card: any, source: string) => void, onDragStart: (card: any) => void, onDragEnd: (args?: any) => void, onDragMove: (args?: any) => void, isDragging: boolean }) => (
+  isDragging = false,
+  highlightedItems = []
+}: { tableCards: any[], onDropOnCard: (draggedItem: any, targetInfo: any) => void, currentPlayer: number, onCancelStack: (stack: any) => void, onConfirmStack: (stack: any) => void, onCardPress?: (card: any, source: string) => void, onDragStart: (card: any) => void, onDragEnd: (args?: any) => void, onDragMove: (args?: any) => void, isDragging: boolean, highlightedItems?: any[] }) => (
   <View style={styles.tableCardsSection}>
     <TableCards
       cards={tableCards}
@@ -109,12 +205,13 @@ const TableCardsSection = React.memo(({
       onDragEnd={onDragEnd}
       onDragMove={onDragMove}
       isDragging={isDragging}
+      highlightedItems={highlightedItems}
     />
   </View>
 ));
 
 // Player Hands Section - Show active player hand with their captures on the right
-const PlayerHandsSection = React.memo(({ playerHands, currentPlayer, onDragStart, onDragEnd, onDragMove, playerCaptures, tableCards, onCardPress = () => {}, isMyTurn }: { playerHands: any[], currentPlayer: number, onDragStart: (card: any) => void, onDragEnd: (card: any, position: any) => void, onDragMove: (card: any, position: any) => void, playerCaptures: any[], tableCards: any[], onCardPress?: (card: any, source: string) => void, isMyTurn: boolean }) => {
+const PlayerHandsSection = React.memo(({ playerHands, currentPlayer, onDragStart, onDragEnd, onDragMove, playerCaptures, tableCards, onCardPress = () => {}, isMyTurn, highlightedCard = null }: { playerHands: any[], currentPlayer: number, onDragStart: (card: any) => void, onDragEnd: (card: any, position: any) => void, onDragMove: (card: any, position: any) => void, playerCaptures: any[], tableCards: any[], onCardPress?: (card: any, source: string) => void, isMyTurn: boolean, highlightedCard?: any }) => {
   const getPlayerColor = (player: number) => {
     return player === 0 ? '#FF5722' : '#2196F3';
   };
@@ -140,6 +237,7 @@ const PlayerHandsSection = React.memo(({ playerHands, currentPlayer, onDragStart
           onDragMove={onDragMove}
           currentPlayer={currentPlayer}
           tableCards={tableCards}
+          highlightedCard={highlightedCard}
         />
       </View>
       <PlayerCapturedSection
@@ -151,13 +249,69 @@ const PlayerHandsSection = React.memo(({ playerHands, currentPlayer, onDragStart
   );
 });
 
+// Recomputes an online game's deck from the revealed seed and checks it against the commitment
+const FairnessCheck = React.memo(({ fairness, seat, seatCount, variant }: { fairness: DealFairness, seat: number, seatCount: number, variant: VariantName }) => {
+  const [result, setResult] = useState<{ valid: boolean, message: string } | null>(null);
+
+  if (result) {
+    return (
+      <Text style={[styles.fairnessResult, !result.valid && styles.fairnessFailed]}>
+        {result.valid ? '✅' : '❌'} {result.message}
+      </Text>
+    );
+  }
+
+  return (
+    <TouchableOpacity
+      style={styles.fairnessButton}
+      onPress={() => setResult(verifyDeal(fairness, seat, fairness.openingHand, seatCount, VARIANTS[variant]))}
+      activeOpacity={0.8}
+    >
+      <Text style={styles.fairnessButtonText}>🔍 Verify Shuffle</Text>
+    </TouchableOpacity>
+  );
+});
+
+// How a forfeit came about, by the reason the server gives
+const FORFEIT_REASONS: Record<string, string> = {
+  timeout: 'ran out of time',
+  resign: 'resigned',
+  left: 'left the game',
+  disconnected: 'lost connection',
+  stuck: 'had no move it could play',
+};
+
+// Score of every deal of a match so far, with the running totals
+const MatchScoreboard = React.memo(({ match }: { match: Match }) => (
+  <View style={styles.matchScoreboard}>
+    <Text style={styles.matchScoreboardTitle}>Match to {match.targetScore}</Text>
+    {match.dealScores.map((scores, deal) => (
+      <Text key={deal} style={styles.matchScoreboardRow}>
+        Deal {deal + 1}: {scores.join(' – ')}
+      </Text>
+    ))}
+    <Text style={styles.matchScoreboardTotal}>Total: {match.totals.join(' – ')}</Text>
+  </View>
+));
+
 // Game Over Section - Casino-styled scoring UI
-const GameOverSection = React.memo(({ winner, scoreDetails, onRestart }: { winner: number | null, scoreDetails: any, onRestart: () => void }) => {
+// Online games play again through a rematch (onRestart, left out once the opponent is gone)
+// and start a new game from the menu (onNewGame); rematch progress is shown as a notice.
+// In match play onRestart deals the next game until the match is over.
+// Scores come one column per side: each player, or each team in a partnership game.
+// House rules that departed from the defaults are listed under the scores.
+const GameOverSection = React.memo(({ winner, scoreDetails, onRestart, onNewGame = null, fairness = null, seat = 0, seatCount = 2, onReplay = null, forfeit = null, notice = null, match = null, teams = null, variant = 'standard', rules = null }: { winner: number | null, scoreDetails: any, onRestart: (() => void) | null, onNewGame?: (() => void) | null, fairness?: DealFairness | null, seat?: number, seatCount?: number, onReplay?: (() => void) | null, forfeit?: GameForfeit | null, notice?: string | null, match?: Match | null, teams?: number[][] | null, variant?: VariantName, rules?: HouseRules | null }) => {
+  const isDealOver = Boolean(match && !match.matchOver);
+  const declaredWinner = match ? match.winner : winner;
+  const describeSide = (side: number) => (teams
+    ? `Team ${side + 1} (${teams[side].map(teamSeat => `P${teamSeat + 1}`).join(' & ')})`
+    : `Player ${side + 1}`);
+
   const renderPlayerScores = (playerIndex) => {
     const details = scoreDetails[playerIndex];
     return (
       <View key={playerIndex} style={styles.playerScoreColumn}>
-        <Text style={styles.playerScoreTitle}>🎰 Player {playerIndex + 1} 🎰</Text>
+        <Text style={styles.playerScoreTitle}>🎰 {describeSide(playerIndex)} 🎰</Text>
         <View style={styles.pointsTally}>
           <Text style={styles.pointsLabel}>Total Points</Text>
           <Text style={styles.totalScore}>{details.total}</Text>
@@ -168,6 +322,7 @@ const GameOverSection = React.memo(({ winner, scoreDetails, onRestart }: { winne
           <Text style={styles.scoreItem}>🃏 Aces: {details.aces} pts</Text>
           {details.bigCasino > 0 && <Text style={styles.scoreItem}>💎 Big Casino (10♦): {details.bigCasino} pts</Text>}
           {details.littleCasino > 0 && <Text style={styles.scoreItem}>🎯 Little Casino (2♠): {details.littleCasino} pts</Text>}
+          {details.sweeps > 0 && <Text style={styles.scoreItem}>🧹 Sweeps ({details.sweepCount}): {details.sweeps} pts</Text>}
         </View>
       </View>
     );
@@ -175,40 +330,73 @@ const GameOverSection = React.memo(({ winner, scoreDetails, onRestart }: { winne
 
   return (
     <View style={styles.gameOverSection}>
-      <Text style={styles.gameOverTitle}>🎰 GAME OVER 🎰</Text>
-      <Text style={styles.gameOverSubtitle}>Final Scores</Text>
+      <Text style={styles.gameOverTitle}>
+        {isDealOver ? '🎰 DEAL OVER 🎰' : match ? '🎰 MATCH OVER 🎰' : '🎰 GAME OVER 🎰'}
+      </Text>
+      <Text style={styles.gameOverSubtitle}>{match ? 'Deal Scores' : 'Final Scores'}</Text>
       <View style={styles.finalScoresContainer}>
-        {renderPlayerScores(0)}
-        {renderPlayerScores(1)}
+        {scoreDetails.map((details, side) => renderPlayerScores(side))}
       </View>
       <View style={styles.winnerContainer}>
-        <Text style={styles.winnerDeclaration}>
-          {winner !== null ? `🏆 Winner: Player ${winner + 1} 🏆` : "🤝 It's a Tie! 🤝"}
-        </Text>
+        {match && <MatchScoreboard match={match} />}
+        {!isDealOver && (
+          <Text style={styles.winnerDeclaration}>
+            {declaredWinner !== null ? `🏆 Winner: ${describeSide(declaredWinner)} 🏆` : "🤝 It's a Tie! 🤝"}
+          </Text>
+        )}
+        {forfeit && (
+          <Text style={styles.forfeitText}>
+            Player {forfeit.seat + 1} forfeited: {FORFEIT_REASONS[forfeit.reason] || forfeit.reason}
+          </Text>
+        )}
       </View>
+      {rules && (
+        <View style={styles.houseRules}>
+          <Text style={styles.houseRulesTitle}>House Rules</Text>
+          {describeHouseRules(rules).map(line => <Text key={line} style={styles.houseRulesText}>{line}</Text>)}
+        </View>
+      )}
+      {fairness && <FairnessCheck fairness={fairness} seat={seat} seatCount={seatCount} variant={variant} />}
+      {notice && <Text style={styles.gameOverNotice}>{notice}</Text>}
       <View style={styles.buttonContainer}>
-        <TouchableOpacity
-          style={styles.playAgainButton}
-          onPress={onRestart}
-          activeOpacity={0.8}
-        >
-          <Text style={styles.playAgainButtonText}>🎮 Play Again 🎮</Text>
-        </TouchableOpacity>
+        {onRestart && (
+          <TouchableOpacity
+            style={styles.playAgainButton}
+            onPress={onRestart}
+            activeOpacity={0.8}
+          >
+            <Text style={styles.playAgainButtonText}>{isDealOver ? '▶ Next Deal' : '🎮 Play Again 🎮'}</Text>
+          </TouchableOpacity>
+        )}
 
         <TouchableOpacity
           style={styles.newGameButton}
-          onPress={onRestart}
+          onPress={onNewGame || onRestart}
           activeOpacity={0.8}
         >
           <Text style={styles.newGameButtonText}>🎲 New Game 🎲</Text>
         </TouchableOpacity>
+
+        {onReplay && (
+          <TouchableOpacity
+            style={styles.newGameButton}
+            onPress={onReplay}
+            activeOpacity={0.8}
+          >
+            <Text style={styles.newGameButtonText}>📼 Watch Replay</Text>
+          </TouchableOpacity>
+        )}
       </View>
     </View>
   );
 });
 
-// Single-player GameBoard component using local game logic
-function SinglePlayerGameBoard({ onRestart, onBackToMenu }) {
+// Seats in a single-player game: the human always plays first
+const HUMAN_SEAT = 0;
+const AI_SEAT = 1;
+
+// Single-player GameBoard component using local game logic, against a computer opponent
+function SinglePlayerGameBoard({ onRestart, onBackToMenu, aiDifficulty, savedGame, matchTarget, variant, rules }) {
   const {
     gameState,
     modalInfo,
@@ -218,15 +406,19 @@ function SinglePlayerGameBoard({ onRestart, onBackToMenu }) {
     handleModalAction,
     handleCancelStagingStackAction,
     handleConfirmStagingStackAction,
-    closeErrorModal
-  } = useGameActions();
+    closeErrorModal,
+    actionLog,
+    startNextDeal
+  } = useGameActions(AI_SEAT, aiDifficulty, savedGame, matchTarget, variant, rules);
 
   const [draggedCard, setDraggedCard] = useState(null);
+  const [isReplaying, setIsReplaying] = useState(false);
 
-
+  const isMyTurn = gameState.currentPlayer === HUMAN_SEAT;
+  const { hint, hintMessage, showHint, clearHint } = useHint(gameState, HUMAN_SEAT);
 
   const handleDragEnd = useCallback((draggedItem?: any, dropPosition?: any) => {
-    if (!draggedItem || !dropPosition) {
+    if (!draggedItem || !dropPosition || !isMyTurn) {
       setDraggedCard(null);
       return;
     }
@@ -239,11 +431,17 @@ function SinglePlayerGameBoard({ onRestart, onBackToMenu }) {
     }
 
     setDraggedCard(null);
-  }, [handleTrailCard]);
+  }, [handleTrailCard, isMyTurn]);
 
   const handleDragStart = useCallback((card) => {
+    if (!isMyTurn) return;
     setDraggedCard(card);
-  }, []);
+  }, [isMyTurn]);
+
+  const handleHumanDrop = useCallback((draggedItem, targetInfo) => {
+    if (!isMyTurn) return;
+    handleDropOnCard(draggedItem, targetInfo);
+  }, [handleDropOnCard, isMyTurn]);
 
   const handleDragMove = useCallback(() => {}, []);
 
@@ -251,19 +449,25 @@ function SinglePlayerGameBoard({ onRestart, onBackToMenu }) {
     return <Text>Loading game...</Text>;
   }
 
+  if (isReplaying) {
+    return <ReplayGameBoard actionLog={actionLog} onClose={() => setIsReplaying(false)} />;
+  }
+
   return (
     <SafeAreaView style={styles.container}>
       <StatusBar hidden />
 
-      <BurgerMenu onRestart={onRestart} onEndGame={onBackToMenu} />
+      <BurgerMenu onRestart={onRestart} onEndGame={onBackToMenu} onHint={showHint} />
 
       <View style={styles.gameContainer}>
-        <StatusSection round={gameState.round} currentPlayer={gameState.currentPlayer} />
+        <StatusSection round={gameState.round} currentPlayer={gameState.currentPlayer} match={gameState.match} />
+        {!isMyTurn && !gameState.gameOver && <ThinkingBanner />}
+        {hintMessage && <HintBanner message={hintMessage} onDismiss={clearHint} />}
 
         <View style={styles.mainGameArea}>
           <TableCardsSection
             tableCards={gameState.tableCards}
-            onDropOnCard={handleDropOnCard}
+            onDropOnCard={handleHumanDrop}
             currentPlayer={gameState.currentPlayer}
             onCancelStack={handleCancelStagingStackAction}
             onConfirmStack={handleConfirmStagingStackAction}
@@ -271,11 +475,12 @@ function SinglePlayerGameBoard({ onRestart, onBackToMenu }) {
             onDragEnd={handleDragEnd}
             onDragMove={handleDragMove}
             isDragging={!!draggedCard}
+            highlightedItems={hint?.targets}
           />
 
           <OpponentCapturedSection
             playerCaptures={gameState.playerCaptures}
-            currentPlayer={gameState.currentPlayer}
+            currentPlayer={HUMAN_SEAT} // The section shows the computer's captures
             onDragStart={() => {}}
             onDragEnd={() => {}}
             onDragMove={() => {}}
@@ -284,20 +489,24 @@ function SinglePlayerGameBoard({ onRestart, onBackToMenu }) {
 
         <PlayerHandsSection
           playerHands={gameState.playerHands}
-          currentPlayer={gameState.currentPlayer}
+          currentPlayer={HUMAN_SEAT} // Only the human's hand is shown
           onDragStart={handleDragStart}
           onDragEnd={handleDragEnd}
           onDragMove={handleDragMove}
           playerCaptures={gameState.playerCaptures}
           tableCards={gameState.tableCards}
-          isMyTurn={true} // Always player's turn in single-player
+          isMyTurn={isMyTurn}
+          highlightedCard={hint?.handCard}
         />
 
         {gameState.gameOver && (
           <GameOverSection
             winner={gameState.winner}
             scoreDetails={gameState.scoreDetails}
-            onRestart={onRestart}
+            onRestart={isMatchUnfinished(gameState) ? startNextDeal : onRestart}
+            onReplay={() => setIsReplaying(true)}
+            match={gameState.match}
+            rules={gameState.rules}
           />
         )}
 
@@ -321,24 +530,50 @@ function SinglePlayerGameBoard({ onRestart, onBackToMenu }) {
 }
 
 // Multiplayer GameBoard component
-function MultiplayerGameBoard({ initialState, playerNumber, sendAction, onRestart, onBackToMenu }) {
+function MultiplayerGameBoard({ initialState, playerNumber, sendAction, onRestart, onBackToMenu, onResign, rematchOffers, hasOpponentLeft, isOpponentReconnecting, actionError, onDismissActionError, actionOptions, onDismissActionOptions }) {
   const [gameState, setGameState] = useState(initialState);
   const [draggedCard, setDraggedCard] = useState(null);
   const [modalInfo, setModalInfo] = useState(null);
   const [errorModal, setErrorModal] = useState({ visible: false, title: '', message: '' });
-
+  const [isReplaying, setIsReplaying] = useState(false);
 
   // Keep the local state in sync with server updates
   useEffect(() => {
     setGameState(initialState);
   }, [initialState]);
 
-  // Determine who is who
-  const selfPlayerIndex = playerNumber - 1;
-  const opponentPlayerIndex = selfPlayerIndex === 0 ? 1 : 0;
+  // Show moves the server rejected
+  useEffect(() => {
+    if (actionError) {
+      setErrorModal({
+        visible: true,
+        title: 'Invalid Move',
+        message: actionError.message
+      });
+    }
+  }, [actionError]);
+
+  // Show the choices the server offers when a staging stack can be finalized several ways
+  useEffect(() => {
+    if (actionOptions) {
+      setModalInfo(actionOptions);
+    }
+  }, [actionOptions]);
 
   const isMyTurn = gameState.currentPlayer === playerNumber;
 
+  // Between the deals of a match, the same offer deals the next game instead of a rematch
+  const nextGame = isMatchUnfinished(gameState) ? 'next deal' : 'rematch';
+  let rematchNotice = null;
+  if (hasOpponentLeft) {
+    rematchNotice = 'Your opponent has left the table.';
+  } else if (rematchOffers.includes(playerNumber)) {
+    rematchNotice = `Waiting for your opponent to accept the ${nextGame}...`;
+  } else if (rematchOffers.length > 0) {
+    rematchNotice = `Your opponent wants the ${nextGame}! Press the button below to accept.`;
+  }
+  const { hint, hintMessage, showHint, clearHint } = useHint(gameState, playerNumber);
+
   const handleDragEnd = useCallback((draggedItem?: any, dropPosition?: any) => {
     if (!draggedItem || !dropPosition) {
       setDraggedCard(null);
@@ -357,6 +592,11 @@ function MultiplayerGameBoard({ initialState, playerNumber, sendAction, onRestar
       sendAction('trail', { card: draggedItem.card });
     }
 
+    // Opponent's top captured card dropped on an empty area becomes a staging stack
+    if (draggedItem.source === 'opponentCapture' && dropPosition.handled === false) {
+      sendAction('stageOpponentCard', { card: draggedItem.card, from: draggedItem.from });
+    }
+
     setDraggedCard(null);
   }, [sendAction, isMyTurn]);
 
@@ -368,6 +608,16 @@ function MultiplayerGameBoard({ initialState, playerNumber, sendAction, onRestar
 
     console.log(`🎯 MULTIPLAYER DROP: ${draggedItem.source} -> ${targetInfo?.type || 'empty'}`, { draggedItem, targetInfo });
 
+    // A staging stack of table cards dropped on our own build merges into it without ending the turn
+    if (draggedItem.source === 'temporary_stack' && targetInfo?.type === 'build') {
+      const stack = gameState.tableCards.find(s => s.type === 'temporary_stack' && s.stackId === draggedItem.stackId);
+      const targetBuild = gameState.tableCards.find(b => b.type === 'build' && b.buildId === targetInfo.buildId);
+      if (stack && targetBuild && targetBuild.owner === playerNumber && !stack.cards.some(c => c.source === 'hand')) {
+        sendAction('mergeIntoOwnBuild', { stack, targetBuild });
+        return;
+      }
+    }
+
     // Use enhanced action determination logic
     const result = determineActions(draggedItem, targetInfo, gameState);
 
@@ -405,21 +655,34 @@ function MultiplayerGameBoard({ initialState, playerNumber, sendAction, onRestar
         actions: result.actions
       });
     }
-  }, [sendAction, isMyTurn, gameState]);
+  }, [sendAction, isMyTurn, gameState, playerNumber]);
 
   const handleModalAction = useCallback((action) => {
     console.log(`🎯 MULTIPLAYER MODAL: Executing action ${action.type}`, action.payload);
     sendAction(action.type, action.payload);
     setModalInfo(null);
-  }, [sendAction]);
+    onDismissActionOptions?.();
+  }, [sendAction, onDismissActionOptions]);
 
   const closeModal = useCallback(() => {
     setModalInfo(null);
-  }, []);
+    onDismissActionOptions?.();
+  }, [onDismissActionOptions]);
+
+  const handleCancelStack = useCallback((stack) => {
+    if (!isMyTurn) return;
+    sendAction('cancelStagingStack', { stack });
+  }, [sendAction, isMyTurn]);
+
+  const handleConfirmStack = useCallback((stack) => {
+    if (!isMyTurn) return;
+    sendAction('finalizeStagingStack', { stack });
+  }, [sendAction, isMyTurn]);
 
   const closeErrorModal = useCallback(() => {
     setErrorModal({ visible: false, title: '', message: '' });
-  }, []);
+    onDismissActionError?.();
+  }, [onDismissActionError]);
 
   // Simplified drag handlers for multiplayer
   const handleDragStart = useCallback((card) => {
@@ -433,53 +696,79 @@ function MultiplayerGameBoard({ initialState, playerNumber, sendAction, onRestar
     return <Text>Loading game...</Text>;
   }
 
+  if (isReplaying && gameState.actionLog) {
+    return <ReplayGameBoard actionLog={gameState.actionLog} onClose={() => setIsReplaying(false)} />;
+  }
+
   return (
     <SafeAreaView style={styles.container}>
       <StatusBar hidden />
 
-      <BurgerMenu onRestart={onRestart} onEndGame={onBackToMenu} />
+      <BurgerMenu onEndGame={onBackToMenu} onHint={showHint} onResign={gameState.gameOver ? undefined : onResign} />
 
       <View style={styles.gameContainer}>
-        <StatusSection round={gameState.round} currentPlayer={gameState.currentPlayer} />
+        <StatusSection
+          round={gameState.round}
+          currentPlayer={gameState.currentPlayer}
+          turnMsLeft={gameState.gameOver ? null : gameState.turnMsLeft ?? null}
+          turnStartedAt={gameState.clock?.turnStartedAt ?? null}
+          match={gameState.match}
+        />
+        {isOpponentReconnecting && <ReconnectingBanner />}
+        {hintMessage && <HintBanner message={hintMessage} onDismiss={clearHint} />}
 
         <View style={styles.mainGameArea}>
           <TableCardsSection
             tableCards={gameState.tableCards}
             onDropOnCard={handleDropOnCard}
             currentPlayer={playerNumber}
-            onCancelStack={() => {}} // Dummy function
-            onConfirmStack={() => {}} // Dummy function
+            onCancelStack={handleCancelStack}
+            onConfirmStack={handleConfirmStack}
             onDragStart={handleDragStart}
             onDragEnd={handleDragEnd}
             onDragMove={handleDragMove}
             isDragging={!!draggedCard}
+            highlightedItems={hint?.targets}
           />
 
           <OpponentCapturedSection
             playerCaptures={gameState.playerCaptures}
-            currentPlayer={opponentPlayerIndex} // Always show opponent's captures
-            onDragStart={() => {}} // Opponent cards not draggable
-            onDragEnd={() => {}}
-            onDragMove={() => {}}
+            currentPlayer={playerNumber} // The section shows the other seats' captures
+            teams={gameState.teams}
+            onDragStart={handleDragStart}
+            onDragEnd={handleDragEnd}
+            onDragMove={handleDragMove}
           />
         </View>
 
         <PlayerHandsSection
           playerHands={gameState.playerHands}
-          currentPlayer={playerNumber} // Use 1-based for consistency
+          currentPlayer={playerNumber + 1} // The section takes 1-based seats, so every seat sees its own hand
           onDragStart={handleDragStart}
           onDragEnd={handleDragEnd}
           onDragMove={handleDragMove}
           playerCaptures={gameState.playerCaptures}
           tableCards={gameState.tableCards}
           isMyTurn={isMyTurn}
+          highlightedCard={hint?.handCard}
         />
 
         {gameState.gameOver && (
           <GameOverSection
             winner={gameState.winner}
             scoreDetails={gameState.scoreDetails}
-            onRestart={onRestart}
+            onRestart={hasOpponentLeft ? null : onRestart}
+            fairness={gameState.fairness}
+            seat={playerNumber}
+            seatCount={gameState.playerHands.length}
+            onReplay={gameState.actionLog ? () => setIsReplaying(true) : null}
+            forfeit={gameState.forfeit}
+            onNewGame={onBackToMenu}
+            notice={rematchNotice}
+            match={gameState.match}
+            teams={gameState.teams}
+            variant={gameState.variant}
+            rules={gameState.rules}
           />
         )}
 
@@ -502,8 +791,329 @@ function MultiplayerGameBoard({ initialState, playerNumber, sendAction, onRestar
   );
 }
 
+// Explains the current tutorial lesson and what to do next
+const TutorialPanel = React.memo(({ lessonIndex, lesson, prompt, feedback, isComplete, onNext }: { lessonIndex: number, lesson: any, prompt: string | null, feedback: string | null, isComplete: boolean, onNext: () => void }) => {
+  const isLastLesson = lessonIndex === TUTORIAL_LESSONS.length - 1;
+
+  return (
+    <View style={styles.tutorialPanel}>
+      <Text style={styles.tutorialTitle}>
+        Lesson {lessonIndex + 1} of {TUTORIAL_LESSONS.length}: {lesson.title}
+      </Text>
+      <Text style={styles.tutorialText}>{lesson.introduction}</Text>
+      {isComplete ? (
+        <View style={styles.tutorialCompleteRow}>
+          <Text style={[styles.tutorialPrompt, styles.tutorialCompleteText]}>✅ {lesson.summary}</Text>
+          <TouchableOpacity style={styles.tutorialButton} onPress={onNext}>
+            <Text style={styles.tutorialButtonText}>{isLastLesson ? 'Finish' : 'Next lesson'}</Text>
+          </TouchableOpacity>
+        </View>
+      ) : (
+        <Text style={styles.tutorialPrompt}>👉 {prompt}</Text>
+      )}
+      {feedback && <Text style={styles.tutorialFeedback}>{feedback}</Text>}
+    </View>
+  );
+});
+
+// Finds the table item a card was dropped on
+const findDropTarget = (tableCards: any[], targetInfo: any) => {
+  if (!targetInfo || !targetInfo.type) return null;
+  if (targetInfo.type === 'build') {
+    return tableCards.find(item => item.type === 'build' && item.buildId === targetInfo.buildId) || null;
+  }
+  if (targetInfo.type === 'temporary_stack') {
+    return tableCards.find(item => item.type === 'temporary_stack' && item.stackId === targetInfo.stackId) || null;
+  }
+  return tableCards.find(item => !item.type && (
+    getCardId(item) === targetInfo.cardId || (item.rank === targetInfo.rank && item.suit === targetInfo.suit)
+  )) || null;
+};
+
+// Tutorial GameBoard component: scripted lessons with fixed deals and no opponent moves.
+// Only legal moves are played, and only the move the lesson asks for completes a step.
+function TutorialGameBoard({ onBackToMenu }) {
+  const [lessonIndex, setLessonIndex] = useState(0);
+  const [gameState, setGameState] = useState(() => createLessonState(TUTORIAL_LESSONS[0]));
+  const [stepIndex, setStepIndex] = useState(0);
+  const [feedback, setFeedback] = useState<string | null>(null);
+  const [modalInfo, setModalInfo] = useState(null);
+  const [draggedCard, setDraggedCard] = useState(null);
+
+  const lesson = TUTORIAL_LESSONS[lessonIndex];
+  const step = lesson.steps[stepIndex] || null;
+  const isComplete = !step;
+  const isMyTurn = !isComplete && gameState.currentPlayer === TUTORIAL_SEAT;
+
+  const startLesson = useCallback((index: number) => {
+    setLessonIndex(index);
+    setGameState(createLessonState(TUTORIAL_LESSONS[index]));
+    setStepIndex(0);
+    setFeedback(null);
+    setModalInfo(null);
+  }, []);
+
+  const handleNext = useCallback(() => {
+    if (lessonIndex === TUTORIAL_LESSONS.length - 1) {
+      onBackToMenu();
+    } else {
+      startLesson(lessonIndex + 1);
+    }
+  }, [lessonIndex, startLesson, onBackToMenu]);
+
+  // Plays a move only if it is the one the current step asks for
+  const playMove = useCallback((move) => {
+    if (!step) return;
+    if (!isExpectedMove(step, move)) {
+      setFeedback(`Not quite: "${move.label}" is allowed, but it is not what this lesson is about. ${step.prompt}`);
+      return;
+    }
+    setGameState(currentState => applyTutorialMove(currentState, move));
+    setStepIndex(index => index + 1);
+    setFeedback(null);
+  }, [step]);
+
+  const offerMoves = useCallback((moves: any[]) => {
+    if (!step) return;
+    if (moves.length === 0) {
+      setFeedback(`That move is not allowed here. ${step.prompt}`);
+    } else if (moves.length === 1) {
+      playMove(moves[0]);
+    } else {
+      setModalInfo({
+        title: 'Choose Your Action',
+        message: 'What would you like to do?',
+        actions: moves
+      });
+    }
+  }, [step, playMove]);
+
+  const handleDropOnCard = useCallback((draggedItem: any, targetInfo: any) => {
+    if (!isMyTurn || !step) return;
+    if (draggedItem.source !== 'hand') {
+      setFeedback(`In this lesson, play a card from your hand. ${step.prompt}`);
+      return;
+    }
+    const target = findDropTarget(gameState.tableCards, targetInfo);
+    if (!target) return;
+    offerMoves(listDropMoves(gameState, draggedItem.card, target, step.move.type === 'createStagingStack'));
+  }, [isMyTurn, step, gameState, offerMoves]);
+
+  const handleDragEnd = useCallback((draggedItem?: any, dropPosition?: any) => {
+    setDraggedCard(null);
+    if (!draggedItem || !dropPosition || !isMyTurn) return;
+
+    // A hand card dropped on an empty part of the table is a trail
+    if (draggedItem.source === 'hand' && dropPosition.handled === false) {
+      offerMoves(listDropMoves(gameState, draggedItem.card, null));
+    }
+  }, [isMyTurn, gameState, offerMoves]);
+
+  const handleDragStart = useCallback((card) => {
+    if (!isMyTurn) return;
+    setDraggedCard(card);
+  }, [isMyTurn]);
+
+  const handleDragMove = useCallback(() => {}, []);
+
+  // ✓ offers every way to finish the staging stack, ✕ takes its cards back
+  const handleConfirmStack = useCallback((stack) => {
+    if (!isMyTurn) return;
+    offerMoves(listDropMoves(gameState, null, stack).filter(move => move.type !== 'cancelStagingStack'));
+  }, [isMyTurn, gameState, offerMoves]);
+
+  const handleCancelStack = useCallback((stack) => {
+    if (!isMyTurn) return;
+    offerMoves(listDropMoves(gameState, null, stack).filter(move => move.type === 'cancelStagingStack'));
+  }, [isMyTurn, gameState, offerMoves]);
+
+  const handleModalAction = useCallback((action) => {
+    setModalInfo(null);
+    playMove(action);
+  }, [playMove]);
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <StatusBar hidden />
+
+      <BurgerMenu onRestart={() => startLesson(lessonIndex)} onEndGame={onBackToMenu} />
+
+      <View style={styles.gameContainer}>
+        <TutorialPanel
+          lessonIndex={lessonIndex}
+          lesson={lesson}
+          prompt={step ? step.prompt : null}
+          feedback={feedback}
+          isComplete={isComplete}
+          onNext={handleNext}
+        />
+
+        <View style={styles.mainGameArea}>
+          <TableCardsSection
+            tableCards={gameState.tableCards}
+            onDropOnCard={handleDropOnCard}
+            currentPlayer={TUTORIAL_SEAT}
+            onCancelStack={handleCancelStack}
+            onConfirmStack={handleConfirmStack}
+            onDragStart={handleDragStart}
+            onDragEnd={handleDragEnd}
+            onDragMove={handleDragMove}
+            isDragging={!!draggedCard}
+          />
+
+          <OpponentCapturedSection
+            playerCaptures={gameState.playerCaptures}
+            currentPlayer={TUTORIAL_SEAT}
+            onDragStart={() => {}}
+            onDragEnd={() => {}}
+            onDragMove={() => {}}
+          />
+        </View>
+
+        <PlayerHandsSection
+          playerHands={gameState.playerHands}
+          currentPlayer={TUTORIAL_SEAT}
+          onDragStart={handleDragStart}
+          onDragEnd={handleDragEnd}
+          onDragMove={handleDragMove}
+          playerCaptures={gameState.playerCaptures}
+          tableCards={gameState.tableCards}
+          isMyTurn={isMyTurn}
+        />
+
+        <ActionModal
+          modalInfo={modalInfo}
+          onAction={handleModalAction}
+          onCancel={() => setModalInfo(null)}
+        />
+      </View>
+    </SafeAreaView>
+  );
+}
+
+// Describes a replay step, e.g. "Player 2: add to opponent build"
+const describeLogEntry = (entry: ActionLogEntry | null) => {
+  if (!entry) return 'The deal';
+  if (entry.type === 'nextRound') return `Round ${entry.state.round} is dealt`;
+  if (entry.type === 'endGame') return 'The table is swept and the game is scored';
+  if (entry.type === 'forfeit') return `Player ${entry.seat + 1} forfeits`;
+  const action = entry.type.replace(/([A-Z])/g, ' $1').toLowerCase();
+  return entry.seat === null ? action : `Player ${entry.seat + 1}: ${action}`;
+};
+
+// Replay viewer: steps forward and back through a finished game's action log, read-only
+function ReplayGameBoard({ actionLog, onClose }: { actionLog: ActionLog, onClose: () => void }) {
+  const frames = useMemo(() => getReplayFrames(actionLog), [actionLog]);
+  const [step, setStep] = useState(0);
+  const { state, entry, intact } = frames[step];
+  const lastStep = frames.length - 1;
+  const noop = useCallback(() => {}, []);
+
+  // Shares the game in notation, e.g. to attach it to a bug report
+  const shareGame = useCallback(() => {
+    const result = writeGameNotation(actionLog);
+    if (!result.valid) {
+      Alert.alert('Cannot Share Game', result.message);
+      return;
+    }
+    Share.share({ message: result.notation });
+  }, [actionLog]);
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <StatusBar hidden />
+
+      <View style={styles.gameContainer}>
+        <View style={styles.replayBar}>
+          <TouchableOpacity style={styles.replayButton} onPress={() => setStep(0)} disabled={step === 0}>
+            <Text style={styles.replayButtonText}>⏮</Text>
+          </TouchableOpacity>
+          <TouchableOpacity style={styles.replayButton} onPress={() => setStep(Math.max(0, step - 1))} disabled={step === 0}>
+            <Text style={styles.replayButtonText}>◀</Text>
+          </TouchableOpacity>
+          <View style={styles.replayInfo}>
+            <Text style={styles.replayStep}>Step {step} of {lastStep}</Text>
+            <Text style={styles.replayDescription}>{describeLogEntry(entry)}</Text>
+            {!intact && <Text style={styles.replayWarning}>⚠️ This state does not match its recorded hash</Text>}
+          </View>
+          <TouchableOpacity style={styles.replayButton} onPress={() => setStep(Math.min(lastStep, step + 1))} disabled={step === lastStep}>
+            <Text style={styles.replayButtonText}>▶</Text>
+          </TouchableOpacity>
+          <TouchableOpacity style={styles.replayButton} onPress={() => setStep(lastStep)} disabled={step === lastStep}>
+            <Text style={styles.replayButtonText}>⏭</Text>
+          </TouchableOpacity>
+          <TouchableOpacity style={styles.replayButton} onPress={shareGame}>
+            <Text style={styles.replayButtonText}>📤</Text>
+          </TouchableOpacity>
+          <TouchableOpacity style={styles.replayButton} onPress={onClose}>
+            <Text style={styles.replayButtonText}>✕</Text>
+          </TouchableOpacity>
+        </View>
+
+        <StatusSection round={state.round} currentPlayer={state.currentPlayer} />
+
+        <View style={styles.mainGameArea}>
+          <TableCardsSection
+            tableCards={state.tableCards}
+            onDropOnCard={noop}
+            currentPlayer={state.currentPlayer}
+            onCancelStack={noop}
+            onConfirmStack={noop}
+            onDragStart={noop}
+            onDragEnd={noop}
+            onDragMove={noop}
+            isDragging={false}
+          />
+
+          <OpponentCapturedSection
+            playerCaptures={state.playerCaptures}
+            currentPlayer={0} // Player 1 is at the bottom, so this shows everyone else's captures
+            onDragStart={noop}
+            onDragEnd={noop}
+            onDragMove={noop}
+          />
+        </View>
+
+        {/* Every hand is shown in a replay */}
+        {state.playerHands.slice(1).map((hand, index) => (
+          <View key={index + 1} style={styles.replayOpponentHand}>
+            <Text style={styles.replayHandLabel}>Player {index + 2}</Text>
+            <PlayerHand
+              player={index + 1}
+              cards={hand}
+              isCurrent={false}
+              currentPlayer={index + 1}
+              tableCards={state.tableCards}
+            />
+          </View>
+        ))}
+
+        <PlayerHandsSection
+          playerHands={state.playerHands}
+          currentPlayer={0}
+          onDragStart={noop}
+          onDragEnd={noop}
+          onDragMove={noop}
+          playerCaptures={state.playerCaptures}
+          tableCards={state.tableCards}
+          isMyTurn={false}
+        />
+      </View>
+    </SafeAreaView>
+  );
+}
+
 // Main GameBoard component that decides which version to use
-function GameBoard({ initialState, playerNumber, sendAction, onRestart, onBackToMenu }) {
+function GameBoard({ initialState, playerNumber, sendAction, onRestart, onBackToMenu, aiDifficulty = 'medium', savedGame = null, matchTarget = null, variant = 'standard', rules = null, tutorial = false, replayLog = null, onResign = undefined, rematchOffers = [], hasOpponentLeft = false, isOpponentReconnecting = false, actionError = null, onDismissActionError = undefined, actionOptions = null, onDismissActionOptions = undefined }) {
+  if (tutorial) {
+    return <TutorialGameBoard onBackToMenu={onBackToMenu} />;
+  }
+
+  // A game loaded from notation is only watched
+  if (replayLog) {
+    return <ReplayGameBoard actionLog={replayLog} onClose={onBackToMenu} />;
+  }
+
   // If sendAction is provided, it's multiplayer mode
   if (sendAction) {
     return <MultiplayerGameBoard
@@ -512,11 +1122,19 @@ function GameBoard({ initialState, playerNumber, sendAction, onRestart, onBackTo
       sendAction={sendAction}
       onRestart={onRestart}
       onBackToMenu={onBackToMenu}
+      onResign={onResign}
+      rematchOffers={rematchOffers}
+      hasOpponentLeft={hasOpponentLeft}
+      isOpponentReconnecting={isOpponentReconnecting}
+      actionError={actionError}
+      onDismissActionError={onDismissActionError}
+      actionOptions={actionOptions}
+      onDismissActionOptions={onDismissActionOptions}
     />;
   }
 
   // Otherwise, use single-player mode with local game logic
-  return <SinglePlayerGameBoard onRestart={onRestart} onBackToMenu={onBackToMenu} />;
+  return <SinglePlayerGameBoard onRestart={onRestart} onBackToMenu={onBackToMenu} aiDifficulty={aiDifficulty} savedGame={savedGame} matchTarget={matchTarget} variant={variant} rules={rules} />;
 }
 
 const styles = StyleSheet.create({
@@ -555,6 +1173,86 @@ const styles = StyleSheet.create({
     fontSize: 10,
     fontWeight: 'bold',
   },
+  turnTimerText: {
+    color: '#FFFFFF',
+    fontSize: 14,
+    fontWeight: 'bold',
+    marginLeft: 10,
+  },
+  turnTimerLow: {
+    color: '#FFEB3B',
+  },
+  reconnectingBanner: {
+    backgroundColor: '#FF9800',
+    paddingVertical: 4,
+    alignItems: 'center',
+  },
+  reconnectingText: {
+    color: '#FFFFFF',
+    fontSize: 12,
+    fontWeight: 'bold',
+  },
+  hintBanner: {
+    backgroundColor: '#2d5736',
+    borderColor: '#ffd700',
+    borderWidth: 1,
+    paddingVertical: 4,
+    paddingHorizontal: 10,
+    alignItems: 'center',
+  },
+  hintText: {
+    color: '#ffd700',
+    fontSize: 12,
+    fontWeight: 'bold',
+  },
+  tutorialPanel: {
+    backgroundColor: '#2E7D32',
+    borderBottomWidth: 2,
+    borderBottomColor: '#4CAF50',
+    paddingVertical: 6,
+    paddingHorizontal: 60, // Clear of the menu button
+  },
+  tutorialTitle: {
+    color: '#ffd700',
+    fontSize: 14,
+    fontWeight: 'bold',
+  },
+  tutorialText: {
+    color: '#FFFFFF',
+    fontSize: 12,
+    marginTop: 2,
+  },
+  tutorialPrompt: {
+    color: '#FFFFFF',
+    fontSize: 13,
+    fontWeight: 'bold',
+    marginTop: 4,
+  },
+  tutorialCompleteRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  tutorialCompleteText: {
+    flex: 1,
+  },
+  tutorialButton: {
+    backgroundColor: '#ffd700',
+    borderRadius: 6,
+    paddingVertical: 4,
+    paddingHorizontal: 12,
+    marginLeft: 8,
+    marginTop: 4,
+  },
+  tutorialButtonText: {
+    color: '#1B5E20',
+    fontSize: 13,
+    fontWeight: 'bold',
+  },
+  tutorialFeedback: {
+    color: '#FFCC80',
+    fontSize: 12,
+    marginTop: 2,
+  },
   mainGameArea: {
     flex: 1,
     flexDirection: 'row',
@@ -676,6 +1374,81 @@ const styles = StyleSheet.create({
     marginBottom: 30,
     opacity: 0.9,
   },
+  replayBar: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    backgroundColor: '#2E7D32',
+    paddingVertical: 4,
+    borderBottomWidth: 2,
+    borderBottomColor: '#4CAF50',
+  },
+  replayButton: {
+    backgroundColor: '#1B5E20',
+    borderColor: '#FFD700',
+    borderWidth: 1,
+    borderRadius: 6,
+    paddingVertical: 4,
+    paddingHorizontal: 10,
+    marginHorizontal: 4,
+  },
+  replayButtonText: {
+    color: '#FFD700',
+    fontSize: 14,
+    fontWeight: 'bold',
+  },
+  replayInfo: {
+    alignItems: 'center',
+    minWidth: 220,
+    marginHorizontal: 8,
+  },
+  replayStep: {
+    color: '#FFD700',
+    fontSize: 12,
+    fontWeight: 'bold',
+  },
+  replayDescription: {
+    color: '#FFFFFF',
+    fontSize: 12,
+  },
+  replayWarning: {
+    color: '#FFCC80',
+    fontSize: 11,
+  },
+  replayOpponentHand: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  replayHandLabel: {
+    color: '#FFFFFF',
+    fontSize: 12,
+    fontWeight: 'bold',
+    marginRight: 8,
+  },
+  fairnessButton: {
+    backgroundColor: '#2E7D32',
+    borderColor: '#FFD700',
+    borderWidth: 1,
+    borderRadius: 8,
+    paddingVertical: 6,
+    paddingHorizontal: 16,
+    marginBottom: 15,
+  },
+  fairnessButtonText: {
+    color: '#FFD700',
+    fontSize: 14,
+    fontWeight: 'bold',
+  },
+  fairnessResult: {
+    color: '#FFFFFF',
+    fontSize: 13,
+    textAlign: 'center',
+    marginBottom: 15,
+  },
+  fairnessFailed: {
+    color: '#FFCC80',
+  },
   gameOverText: {
     fontSize: 16,
     color: '#FFFFFF',
@@ -768,6 +1541,51 @@ const styles = StyleSheet.create({
     textShadowOffset: { width: 1, height: 1 },
     textShadowRadius: 2,
   },
+  matchScoreboard: {
+    alignItems: 'center',
+    marginBottom: 8,
+  },
+  matchScoreboardTitle: {
+    fontSize: 16,
+    fontWeight: 'bold',
+    color: '#FFD700',
+  },
+  matchScoreboardRow: {
+    fontSize: 14,
+    color: '#FFFFFF',
+  },
+  matchScoreboardTotal: {
+    fontSize: 16,
+    fontWeight: 'bold',
+    color: '#FFFFFF',
+    marginTop: 2,
+  },
+  gameOverNotice: {
+    fontSize: 16,
+    color: '#FFD700',
+    textAlign: 'center',
+    marginBottom: 10,
+  },
+  forfeitText: {
+    fontSize: 14,
+    color: '#FFFFFF',
+    textAlign: 'center',
+    marginTop: 4,
+  },
+  houseRules: {
+    alignItems: 'center',
+    marginBottom: 10,
+  },
+  houseRulesTitle: {
+    fontSize: 14,
+    fontWeight: 'bold',
+    color: '#FFD700',
+    marginBottom: 2,
+  },
+  houseRulesText: {
+    fontSize: 13,
+    color: '#FFFFFF',
+  },
   buttonContainer: {
     flexDirection: 'row',
     justifyContent: 'space-around',
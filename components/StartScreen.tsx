@@ -1,20 +1,261 @@
-import React from 'react';
-import { View, Text, TouchableOpacity, StyleSheet } from 'react-native';
+import React, { useState, useEffect } from 'react';
+import { View, Text, TouchableOpacity, TextInput, StyleSheet } from 'react-native';
+import { readGameNotation, MATCH_TARGETS, VARIANTS, createRules } from '../game-logic/index.js';
+import { loadSavedGame } from '../utils/savedGame';
+import { ActionLog, AIDifficulty, GameMode, HouseRules, LobbyAction, SavedGame, Seating, TimeControl, TimeoutPenalty, VariantName } from '../types/gameTypes';
+
+const TIME_CONTROL_PRESETS: { label: string; timeControl: TimeControl }[] = [
+  { label: 'No Clock', timeControl: { mode: 'none' } },
+  { label: '30 Seconds per Move', timeControl: { mode: 'perMove', moveSeconds: 30 } },
+  { label: '5 Minutes + 5 Seconds', timeControl: { mode: 'bank', bankSeconds: 300, incrementSeconds: 5 } },
+];
+
+const TIMEOUT_PENALTY_LABELS: Record<TimeoutPenalty, string> = {
+  autoTrail: 'Out of time: trail lowest card',
+  forfeit: 'Out of time: forfeit the game',
+};
+
+// A single deal, or a match to one of the target scores
+const MATCH_LENGTHS: (number | null)[] = [null, ...MATCH_TARGETS];
+
+const describeMatchLength = (matchTarget: number | null) => (matchTarget ? `Match to ${matchTarget} points` : 'Single deal');
+
+// Players an online game seats; four players can also pair up, partners sitting opposite
+const SEATINGS: Seating[] = [
+  { seatCount: 2 },
+  { seatCount: 3 },
+  { seatCount: 4 },
+  { seatCount: 4, partnerships: true },
+];
+
+const describeSeating = ({ seatCount, partnerships }: Seating) => (partnerships ? `${seatCount} players in 2 teams` : `${seatCount} players`);
+
+const VARIANT_NAMES = Object.keys(VARIANTS) as VariantName[];
+
+// House rules offered when starting a game; null plays the default rules
+const HOUSE_RULE_PRESETS: { label: string; rules: HouseRules | null }[] = [
+  { label: 'Standard house rules', rules: null },
+  { label: 'Sweeps score 1 point', rules: createRules({ scoring: { sweep: 1 } }) },
+  {
+    label: 'Relaxed builds and trails',
+    rules: createRules({ oneBuildPerPlayer: false, noTrailWithBuild: false, noMatchingOpponentBuild: false }),
+  },
+];
 
 interface StartScreenProps {
-  onSelectMode: (mode: 'single' | 'multiplayer') => void;
+  onSelectMode: (mode: GameMode, lobbyAction?: LobbyAction, difficulty?: AIDifficulty, matchTarget?: number | null, variant?: VariantName, rules?: HouseRules | null) => void;
+  onLoadReplay: (actionLog: ActionLog) => void;
+  onContinueGame: (savedGame: SavedGame) => void;
 }
 
-const StartScreen: React.FC<StartScreenProps> = ({ onSelectMode }) => {
+const StartScreen: React.FC<StartScreenProps> = ({ onSelectMode, onLoadReplay, onContinueGame }) => {
+  const [isJoining, setIsJoining] = useState(false);
+  const [isChoosingDifficulty, setIsChoosingDifficulty] = useState(false);
+  const [isLoadingGame, setIsLoadingGame] = useState(false);
+  const [isChoosingTimeControl, setIsChoosingTimeControl] = useState(false);
+  const [timeoutPenalty, setTimeoutPenalty] = useState<TimeoutPenalty>('autoTrail');
+  const [matchTarget, setMatchTarget] = useState<number | null>(null);
+  const [seating, setSeating] = useState<Seating>(SEATINGS[0]);
+  const [variant, setVariant] = useState<VariantName>(VARIANT_NAMES[0]);
+  const [houseRules, setHouseRules] = useState(HOUSE_RULE_PRESETS[0]);
+  const [roomCode, setRoomCode] = useState('');
+  const [notation, setNotation] = useState('');
+  const [notationError, setNotationError] = useState<string | null>(null);
+  // An unfinished single-player game left in device storage
+  const [savedGame, setSavedGame] = useState<SavedGame | null>(null);
+
+  useEffect(() => {
+    loadSavedGame().then(setSavedGame);
+  }, []);
+
+  const handleJoin = () => {
+    const code = roomCode.trim().toUpperCase();
+    if (!code) return;
+    onSelectMode('multiplayer', { type: 'join', roomCode: code });
+  };
+
+  // Reads a game shared in notation and opens it in the replay viewer
+  const handleLoadGame = () => {
+    const result = readGameNotation(notation);
+    if (!result.valid) {
+      setNotationError(result.message);
+      return;
+    }
+    setNotationError(null);
+    onLoadReplay(result.actionLog);
+  };
+
+  // Creates a room timed by the chosen preset
+  const handleCreate = (timeControl: TimeControl) => {
+    onSelectMode('multiplayer', { type: 'create', timeControl: { ...timeControl, penalty: timeoutPenalty }, matchTarget, seating, variant, rules: houseRules.rules || undefined });
+  };
+
+  const handleStartSinglePlayer = (difficulty: AIDifficulty) => {
+    onSelectMode('single', undefined, difficulty, matchTarget, variant, houseRules.rules);
+  };
+
+  const matchLengthToggle = (
+    <TouchableOpacity
+      style={styles.toggleButton}
+      onPress={() => setMatchTarget(target => MATCH_LENGTHS[(MATCH_LENGTHS.indexOf(target) + 1) % MATCH_LENGTHS.length])}
+    >
+      <Text style={styles.toggleButtonText}>{describeMatchLength(matchTarget)}</Text>
+    </TouchableOpacity>
+  );
+
+  const variantToggle = (
+    <TouchableOpacity
+      style={styles.toggleButton}
+      onPress={() => setVariant(current => VARIANT_NAMES[(VARIANT_NAMES.indexOf(current) + 1) % VARIANT_NAMES.length])}
+    >
+      <Text style={styles.toggleButtonText}>{VARIANTS[variant].label}</Text>
+    </TouchableOpacity>
+  );
+
+  const houseRulesToggle = (
+    <TouchableOpacity
+      style={styles.toggleButton}
+      onPress={() => setHouseRules(current => HOUSE_RULE_PRESETS[(HOUSE_RULE_PRESETS.indexOf(current) + 1) % HOUSE_RULE_PRESETS.length])}
+    >
+      <Text style={styles.toggleButtonText}>{houseRules.label}</Text>
+    </TouchableOpacity>
+  );
+
+  if (isChoosingTimeControl) {
+    return (
+      <View style={styles.container}>
+        <Text style={styles.title}>Choose a Clock</Text>
+        <View style={styles.buttonContainer}>
+          {TIME_CONTROL_PRESETS.map(({ label, timeControl }) => (
+            <TouchableOpacity key={label} style={styles.button} onPress={() => handleCreate(timeControl)}>
+              <Text style={styles.buttonText}>{label}</Text>
+            </TouchableOpacity>
+          ))}
+          <TouchableOpacity
+            style={styles.toggleButton}
+            onPress={() => setTimeoutPenalty(penalty => (penalty === 'autoTrail' ? 'forfeit' : 'autoTrail'))}
+          >
+            <Text style={styles.toggleButtonText}>{TIMEOUT_PENALTY_LABELS[timeoutPenalty]}</Text>
+          </TouchableOpacity>
+          {matchLengthToggle}
+          {variantToggle}
+          {houseRulesToggle}
+          <TouchableOpacity
+            style={styles.toggleButton}
+            onPress={() => setSeating(current => SEATINGS[(SEATINGS.indexOf(current) + 1) % SEATINGS.length])}
+          >
+            <Text style={styles.toggleButtonText}>{describeSeating(seating)}</Text>
+          </TouchableOpacity>
+          <TouchableOpacity style={styles.button} onPress={() => setIsChoosingTimeControl(false)}>
+            <Text style={styles.buttonText}>Back</Text>
+          </TouchableOpacity>
+        </View>
+      </View>
+    );
+  }
+
+  if (isLoadingGame) {
+    return (
+      <View style={styles.container}>
+        <Text style={styles.title}>Load a Game</Text>
+        <View style={styles.buttonContainer}>
+          <TextInput
+            style={styles.notationInput}
+            value={notation}
+            onChangeText={setNotation}
+            placeholder={'[Seed "..."]\n1. P1 T 7♠\n...'}
+            placeholderTextColor="rgba(255, 255, 255, 0.5)"
+            autoCapitalize="none"
+            autoCorrect={false}
+            multiline
+          />
+          {notationError && <Text style={styles.errorText}>{notationError}</Text>}
+          <TouchableOpacity style={styles.button} onPress={handleLoadGame}>
+            <Text style={styles.buttonText}>Watch Replay</Text>
+          </TouchableOpacity>
+          <TouchableOpacity style={styles.button} onPress={() => setIsLoadingGame(false)}>
+            <Text style={styles.buttonText}>Back</Text>
+          </TouchableOpacity>
+        </View>
+      </View>
+    );
+  }
+
+  if (isChoosingDifficulty) {
+    return (
+      <View style={styles.container}>
+        <Text style={styles.title}>Choose a Difficulty</Text>
+        <View style={styles.buttonContainer}>
+          <TouchableOpacity style={styles.button} onPress={() => handleStartSinglePlayer('easy')}>
+            <Text style={styles.buttonText}>Easy</Text>
+          </TouchableOpacity>
+          <TouchableOpacity style={styles.button} onPress={() => handleStartSinglePlayer('medium')}>
+            <Text style={styles.buttonText}>Medium</Text>
+          </TouchableOpacity>
+          <TouchableOpacity style={styles.button} onPress={() => handleStartSinglePlayer('hard')}>
+            <Text style={styles.buttonText}>Hard</Text>
+          </TouchableOpacity>
+          {matchLengthToggle}
+          {variantToggle}
+          {houseRulesToggle}
+          <TouchableOpacity style={styles.button} onPress={() => setIsChoosingDifficulty(false)}>
+            <Text style={styles.buttonText}>Back</Text>
+          </TouchableOpacity>
+        </View>
+      </View>
+    );
+  }
+
+  if (isJoining) {
+    return (
+      <View style={styles.container}>
+        <Text style={styles.title}>Join a Game</Text>
+        <View style={styles.buttonContainer}>
+          <TextInput
+            style={styles.codeInput}
+            value={roomCode}
+            onChangeText={setRoomCode}
+            placeholder="Room code"
+            placeholderTextColor="rgba(255, 255, 255, 0.5)"
+            autoCapitalize="characters"
+            autoCorrect={false}
+            maxLength={5}
+            onSubmitEditing={handleJoin}
+          />
+          <TouchableOpacity style={styles.button} onPress={handleJoin}>
+            <Text style={styles.buttonText}>Join</Text>
+          </TouchableOpacity>
+          <TouchableOpacity style={styles.button} onPress={() => setIsJoining(false)}>
+            <Text style={styles.buttonText}>Back</Text>
+          </TouchableOpacity>
+        </View>
+      </View>
+    );
+  }
+
   return (
     <View style={styles.container}>
       <Text style={styles.title}>Casino Card Game</Text>
       <View style={styles.buttonContainer}>
-        <TouchableOpacity style={styles.button} onPress={() => onSelectMode('single')}>
+        {savedGame && (
+          <TouchableOpacity style={styles.button} onPress={() => onContinueGame(savedGame)}>
+            <Text style={styles.buttonText}>Continue Game</Text>
+          </TouchableOpacity>
+        )}
+        <TouchableOpacity style={styles.button} onPress={() => setIsChoosingDifficulty(true)}>
           <Text style={styles.buttonText}>Single Player</Text>
         </TouchableOpacity>
-        <TouchableOpacity style={styles.button} onPress={() => onSelectMode('multiplayer')}>
-          <Text style={styles.buttonText}>Multiplayer</Text>
+        <TouchableOpacity style={styles.button} onPress={() => setIsChoosingTimeControl(true)}>
+          <Text style={styles.buttonText}>Create Game</Text>
+        </TouchableOpacity>
+        <TouchableOpacity style={styles.button} onPress={() => setIsJoining(true)}>
+          <Text style={styles.buttonText}>Join with Code</Text>
+        </TouchableOpacity>
+        <TouchableOpacity style={styles.button} onPress={() => onSelectMode('tutorial')}>
+          <Text style={styles.buttonText}>Tutorial</Text>
+        </TouchableOpacity>
+        <TouchableOpacity style={styles.button} onPress={() => setIsLoadingGame(true)}>
+          <Text style={styles.buttonText}>Load Game</Text>
         </TouchableOpacity>
       </View>
     </View>
@@ -55,6 +296,49 @@ const styles = StyleSheet.create({
     textAlign: 'center',
     fontWeight: '500',
   },
+  toggleButton: {
+    paddingVertical: 10,
+    borderRadius: 10,
+    marginBottom: 20,
+    borderWidth: 1,
+    borderColor: '#ffd700',
+  },
+  toggleButtonText: {
+    color: '#ffd700',
+    fontSize: 18,
+    textAlign: 'center',
+  },
+  codeInput: {
+    backgroundColor: 'rgba(0, 0, 0, 0.3)',
+    color: 'white',
+    fontSize: 28,
+    letterSpacing: 8,
+    textAlign: 'center',
+    paddingVertical: 12,
+    borderRadius: 10,
+    marginBottom: 20,
+    borderWidth: 1,
+    borderColor: '#ffd700',
+  },
+  notationInput: {
+    backgroundColor: 'rgba(0, 0, 0, 0.3)',
+    color: 'white',
+    fontSize: 14,
+    fontFamily: 'monospace',
+    height: 160,
+    padding: 10,
+    borderRadius: 10,
+    marginBottom: 12,
+    borderWidth: 1,
+    borderColor: '#ffd700',
+    textAlignVertical: 'top',
+  },
+  errorText: {
+    color: '#ffcc80',
+    fontSize: 14,
+    textAlign: 'center',
+    marginBottom: 12,
+  },
 });
 
 export default StartScreen;
@@ -30,6 +30,7 @@ type BuildStackProps = {
   build: BuildType;
   onDropStack: (draggedItem: any, info: { type: 'build'; buildId: string }) => void;
   onCardPress?: () => void;
+  highlighted?: boolean;
 };
 
 type TempStackProps = {
@@ -42,6 +43,7 @@ type TempStackProps = {
   onDragStart?: (args?: any) => void;
   onDragEnd?: (args?: any) => void;
   onDragMove?: (args?: any) => void;
+  highlighted?: boolean;
 };
 
 type LooseCardProps = {
@@ -52,6 +54,7 @@ type LooseCardProps = {
   onDragStart?: (args?: any) => void;
   onDragEnd?: (args?: any) => void;
   onDragMove?: (args?: any) => void;
+  highlighted?: boolean;
 };
 
 type TableCardsProps = {
@@ -65,10 +68,21 @@ type TableCardsProps = {
   onDragEnd?: (args?: any) => void;
   onDragMove?: (args?: any) => void;
   isDragging?: boolean;
+  highlightedItems?: any[]; // Table items suggested by a hint
+};
+
+// Whether a table item is one of the items a hint points at
+const isHighlightedItem = (item: TableCardItem, highlightedItems: any[]): boolean => {
+  return highlightedItems.some(target => {
+    if (!target) return false;
+    if (item.type === 'build') return target.type === 'build' && target.buildId === item.buildId;
+    if (item.type === 'temporary_stack') return target.type === 'temporary_stack' && target.stackId === item.stackId;
+    return !target.type && target.rank === item.rank && target.suit === item.suit;
+  });
 };
 
 // --- Components ---
-const BuildStack = memo(({ build, onDropStack, onCardPress = () => {} }: BuildStackProps) => {
+const BuildStack = memo(({ build, onDropStack, onCardPress = () => {}, highlighted = false }: BuildStackProps) => {
   const memoizedOnDropStack = useCallback(
     (draggedItem: any) => onDropStack(draggedItem, { type: 'build', buildId: build.buildId }),
     [onDropStack, build.buildId]
@@ -79,7 +93,7 @@ const BuildStack = memo(({ build, onDropStack, onCardPress = () => {} }: BuildSt
   };
 
   return (
-    <View style={styles.build}>
+    <View style={[styles.build, highlighted && styles.hintHighlight]}>
       <CardStack
         stackId={build.buildId}
         cards={build.cards}
@@ -103,7 +117,8 @@ const TempStack = memo(({
   onCardPress = () => {},
   onDragStart,
   onDragEnd,
-  onDragMove
+  onDragMove,
+  highlighted = false
 }: TempStackProps) => {
   const memoizedOnDropStack = useCallback(
     (draggedItem: any) => onDropOnCard(draggedItem, { type: 'temporary_stack', stackId: stack.stackId }),
@@ -112,7 +127,7 @@ const TempStack = memo(({
   const stackValue = calculateCardSum(stack.cards);
 
   return (
-    <View style={styles.build}>
+    <View style={[styles.build, highlighted && styles.hintHighlight]}>
       <TouchableOpacity
         style={styles.cancelStackButton}
         onPress={() => onCancelStack(stack)}
@@ -152,10 +167,11 @@ const LooseCard = ({
   onCardPress = () => {},
   onDragStart,
   onDragEnd,
-  onDragMove
+  onDragMove,
+  highlighted = false
 }: LooseCardProps) => {
   return (
-    <View style={styles.looseCardContainer}>
+    <View style={[styles.looseCardContainer, highlighted && styles.hintHighlight]}>
       <CardStack
         stackId={`loose-stack-${card.rank}-${card.suit}`}
         cards={[card]}
@@ -185,7 +201,8 @@ const TableCards = ({
   onDragStart,
   onDragEnd,
   onDragMove,
-  isDragging = false
+  isDragging = false,
+  highlightedItems = []
 }: TableCardsProps) => {
   const memoizedOnDropOnCard = useCallback(onDropOnCard, [onDropOnCard]);
 
@@ -208,6 +225,7 @@ const TableCards = ({
                   build={item as BuildType}
                   onDropStack={memoizedOnDropOnCard}
                   onCardPress={onCardPress}
+                  highlighted={isHighlightedItem(item, highlightedItems)}
                 />
               );
             }
@@ -224,6 +242,7 @@ const TableCards = ({
                   onDragStart={onDragStart}
                   onDragEnd={onDragEnd}
                   onDragMove={onDragMove}
+                  highlighted={isHighlightedItem(item, highlightedItems)}
                 />
               );
             }
@@ -241,6 +260,7 @@ const TableCards = ({
                 onDragStart={onDragStart}
                 onDragEnd={onDragEnd}
                 onDragMove={onDragMove}
+                highlighted={isHighlightedItem(item, highlightedItems)}
               />
             );
           })
@@ -348,6 +368,11 @@ const styles = StyleSheet.create({
   looseCardContainer: {
     margin: 4,
   },
+  hintHighlight: {
+    borderWidth: 3,
+    borderColor: '#ffd700',
+    borderRadius: 8,
+  },
 });
 
 export default memo(TableCards);
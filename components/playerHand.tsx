@@ -12,6 +12,7 @@ interface PlayerHandProps {
   onDragMove?: (card: CardType, position: { x: number; y: number }) => void;
   currentPlayer: number;
   tableCards?: any[]; // Add tableCards to check for temporary stacks
+  highlightedCard?: CardType | null; // The card suggested by a hint
 }
 
 const PlayerHand = memo<PlayerHandProps>(({
@@ -22,7 +23,8 @@ const PlayerHand = memo<PlayerHandProps>(({
   onDragEnd,
   onDragMove,
   currentPlayer,
-  tableCards = []
+  tableCards = [],
+  highlightedCard = null
 }) => {
   // Check if current player has used a hand card in their temporary stack
   const hasUsedHandCardInTurn = tableCards.some(
@@ -38,20 +40,22 @@ const PlayerHand = memo<PlayerHandProps>(({
     <View style={styles.playerHand}>
       {cards.map((card, index) => {
         const handKey = `hand-p${player}-${index}-${card.rank}-${card.suit}`;
+        const isHinted = !!highlightedCard && highlightedCard.rank === card.rank && highlightedCard.suit === card.suit;
         
         return (
-          <DraggableCard
-            key={handKey}
-            card={card}
-            onDragStart={onDragStart}
-            onDragEnd={onDragEnd}
-            onDragMove={onDragMove}
-            disabled={!canDragHandCards}
-            draggable={canDragHandCards}
-            size="normal"
-            currentPlayer={currentPlayer}
-            source="hand"
-          />
+          <View key={handKey} style={isHinted && styles.hintHighlight}>
+            <DraggableCard
+              card={card}
+              onDragStart={onDragStart}
+              onDragEnd={onDragEnd}
+              onDragMove={onDragMove}
+              disabled={!canDragHandCards}
+              draggable={canDragHandCards}
+              size="normal"
+              currentPlayer={currentPlayer}
+              source="hand"
+            />
+          </View>
         );
       })}
     </View>
@@ -65,6 +69,11 @@ const styles = StyleSheet.create({
     alignItems: 'center',
     paddingVertical: 4,
   },
+  hintHighlight: {
+    borderWidth: 3,
+    borderColor: '#ffd700',
+    borderRadius: 8,
+  },
 });
 
 export default PlayerHand;
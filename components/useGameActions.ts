@@ -1,4 +1,4 @@
-import { useState, useCallback, useEffect } from 'react';
+import { useState, useCallback, useEffect, useRef } from 'react';
 import { getErrorInfo } from '../utils/errorMapping';
 import { hasAnyContact } from '../utils/simpleContactDetection';
 import { useNotifications as importedUseNotifications } from '../hooks/useNotifications';
@@ -37,7 +37,18 @@ import {
   handleFinalizeStagingStack,
   handleCreateBuildWithValue,
   handleStageSingleCardFromHand,
-  handleFinalizeTrail
+  handleFinalizeTrail,
+  chooseAIMove,
+  applyAIMove,
+  createActionLog,
+  appendAction,
+  createMatch,
+  dealMatchGame,
+  isMatchUnfinished,
+  getVariant,
+  getRules,
+  getCaptureValues,
+  canCaptureValue
 } from '../game-logic/index.js';
 
 import { 
@@ -74,15 +85,64 @@ import {
   ModalInfo,
   TemporaryStack,
   GameActionsReturn,
-  Build
+  Build,
+  AIDifficulty,
+  ActionLog,
+  SavedGame,
+  VariantName,
+  HouseRules
 } from '../types/gameTypes';
-
-export const useGameActions = (): GameActionsReturn => {
-  const [gameState, setGameState] = useState<GameState>(initializeGame());
+import { saveGame, clearSavedGame } from '../utils/savedGame';
+
+// How long the computer "thinks" before each of its moves
+const AI_THINKING_DELAY_MS = 1000;
+
+/**
+ * Local game logic for single-player games.
+ * @param aiSeat - The 0-based seat played by the computer, or null when both seats are human.
+ * @param aiDifficulty - How strongly the computer plays.
+ * @param savedGame - A game from device storage to continue instead of dealing a new one.
+ * @param matchTarget - The score that wins a match played over several deals, or null for a single deal.
+ * @param variant - The rules variant the game is dealt for.
+ * @param rules - The house rules to change from the defaults, or null to play the defaults.
+ */
+export const useGameActions = (aiSeat: number | null = null, aiDifficulty: AIDifficulty = 'medium', savedGame: SavedGame | null = null, matchTarget: number | null = null, variant: VariantName = 'standard', rules: HouseRules | null = null): GameActionsReturn => {
+  const [gameState, setGameState] = useState<GameState>(() => {
+    if (savedGame) return savedGame.gameState;
+    return matchTarget ? dealMatchGame(createMatch(matchTarget), undefined, { variant, rules }) : initializeGame(undefined, { variant, rules });
+  });
+  const [actionLog, setActionLog] = useState<ActionLog>(() => savedGame ? savedGame.actionLog : createActionLog(gameState));
+  // The action behind the next state change; it is logged once the new state lands
+  const pendingActionRef = useRef<{ type: string; seat: number | null; payload?: any } | null>(null);
+  const loggedStateRef = useRef<GameState>(gameState);
   const [errorModal, setErrorModal] = useState<ErrorModalState>({ visible: false, title: '', message: '' });
   const { modalInfo, setModalInfo, handleModalAction: modalHandleAction, showModal, closeModal } = useModalManager();
   const { showError, showWarning, showInfo } = importedUseNotifications(setErrorModal);
 
+  // Notes which action the state update being computed comes from
+  const noteAction = (type: string, seat: number | null, payload: any = null) => {
+    pendingActionRef.current = { type, seat, payload };
+  };
+
+  // Effect to record every state change in the action log
+  useEffect(() => {
+    if (gameState === loggedStateRef.current) return;
+    loggedStateRef.current = gameState;
+    const action = pendingActionRef.current || { type: 'update', seat: null };
+    pendingActionRef.current = null;
+    setActionLog(log => appendAction(log, action, gameState));
+  }, [gameState]);
+
+  // Effect to keep the game in device storage once each action is logged; a finished game is
+  // dropped, unless more deals of its match are still to come
+  useEffect(() => {
+    if (gameState.gameOver && !isMatchUnfinished(gameState)) {
+      clearSavedGame();
+    } else {
+      saveGame(gameState, actionLog, aiDifficulty);
+    }
+  }, [actionLog]);
+
   // Effect to handle end of round and end of game
   useEffect(() => {
     const { playerHands, deck, gameOver, round } = gameState;
@@ -100,23 +160,25 @@ export const useGameActions = (): GameActionsReturn => {
             return currentState;
           }
 
-          // After round 1, start round 2
+          // After round 1, start round 2 (a game that draws after every play has no round 2)
           if (currentState.round === 1) {
-            showInfo("🎰 Round 1 Complete! 🎰\n\nStarting Round 2 with table cards carried over...", 3000);
-            return startNextRound(currentState);
-          }
-          // After round 2, end the game
-          else if (currentState.round === 2) {
-            let finalState = { ...currentState };
-            // Sweep remaining cards if any
-            if (finalState.tableCards.length > 0 && finalState.lastCapturer !== null) {
-              showInfo(`Player ${finalState.lastCapturer + 1} sweeps the table.`);
-              finalState = handleSweep(finalState);
+            const nextRoundState = startNextRound(currentState);
+            if (nextRoundState !== currentState) {
+              showInfo("🎰 Round 1 Complete! 🎰\n\nStarting Round 2 with table cards carried over...", 3000);
+              noteAction('nextRound', null);
+              return nextRoundState;
             }
-            showInfo("Game over! Tallying points...");
-            return endGame(finalState);
           }
-          return currentState;
+          // After the last round, end the game
+          noteAction('endGame', null);
+          let finalState = { ...currentState };
+          // Sweep remaining cards if any
+          if (finalState.tableCards.length > 0 && finalState.lastCapturer !== null) {
+            showInfo(`Player ${finalState.lastCapturer + 1} sweeps the table.`);
+            finalState = handleSweep(finalState);
+          }
+          showInfo("Game over! Tallying points...");
+          return endGame(finalState);
         });
       }, 2000); // 2-second delay
 
@@ -124,11 +186,49 @@ export const useGameActions = (): GameActionsReturn => {
     }
   }, [gameState, showInfo]);
 
+  // Effect to let the computer take its turn after a short pause
+  useEffect(() => {
+    if (aiSeat === null || gameState.gameOver || gameState.currentPlayer !== aiSeat) return;
+
+    const move = chooseAIMove(gameState, aiSeat, aiDifficulty);
+    if (!move) return;
+
+    const timer = setTimeout(() => {
+      setGameState(currentState => {
+        // The state moved on while we were thinking; the effect will run again
+        if (currentState !== gameState) return currentState;
+
+        noteAction(move.type, aiSeat, move.payload);
+        const nextState = applyAIMove(currentState, move);
+        if (nextState === currentState && currentState.playerHands[aiSeat].length > 0) {
+          // The chosen move was refused; never leave the human waiting
+          console.warn(`AI move ${move.type} was refused, trailing instead`);
+          const trail = { type: 'trail', payload: { card: currentState.playerHands[aiSeat][0] } };
+          noteAction(trail.type, aiSeat, trail.payload);
+          return applyAIMove(currentState, trail);
+        }
+        return nextState;
+      });
+    }, AI_THINKING_DELAY_MS);
+
+    return () => clearTimeout(timer);
+  }, [gameState, aiSeat, aiDifficulty]);
+
+  // Deals the next game of an unfinished match; every deal has an action log of its own
+  const startNextDeal = useCallback(() => {
+    if (!gameState.gameOver || !isMatchUnfinished(gameState)) return;
+    const nextState = dealMatchGame(gameState.match, undefined, { variant: gameState.variant, rules: gameState.rules });
+    loggedStateRef.current = nextState;
+    setActionLog(createActionLog(nextState));
+    setGameState(nextState);
+  }, [gameState]);
+
   const handleTrailCard = useCallback((card: Card, player: number, dropPosition: any = null): void => {
     setGameState(currentGameState => {
       // Turn validation removed - players can play anytime
       
       const { tableCards, round, currentPlayer, playerHands } = currentGameState;
+      noteAction('trail', currentPlayer, { card });
 
       // In Round 2, trailing a card creates a temporary stack instead.
       if (round === 2) { // In Round 2, trailing a card creates a temporary stack instead.
@@ -146,7 +246,7 @@ export const useGameActions = (): GameActionsReturn => {
       // The `handleDropOnCard` function will handle drops on other cards.
       // Validate the trail before executing
 
-      const validation = validateTrail(tableCards, card, player - 1, round); // Convert to 0-based for validation
+      const validation = validateTrail(tableCards, card, player - 1, round, getRules(currentGameState)); // Convert to 0-based for validation
       if (!validation.valid) {
         showError(validation.message);
         return currentGameState;
@@ -161,6 +261,7 @@ export const useGameActions = (): GameActionsReturn => {
   // Wrapped in useCallback to be stable and prevent re-renders of dependent hooks.
   const executeAction = useCallback((currentGameState: GameState, action: ActionOption): GameState => {
     if (!action) return currentGameState;
+    noteAction(action.type, currentGameState.currentPlayer, action.payload || null);
     // Special case for end_game which doesn't need payload
     if (action.type === 'end_game') {
       // Handle end game immediately without payload requirements
@@ -205,6 +306,8 @@ export const useGameActions = (): GameActionsReturn => {
         return handleReinforceOpponentBuildWithStack(currentGameState, action.payload.stack, action.payload.targetBuild); // This function already handles currentPlayer internally
       case 'createBuildWithValue':
         return handleCreateBuildWithValue(currentGameState, action.payload.stack, action.payload.buildValue);
+      case 'addToStagingStack':
+        return handleAddToStagingStack(currentGameState, draggedItem.card, action.payload.stack);
       default:
         return currentGameState;
     }
@@ -239,6 +342,9 @@ export const useGameActions = (): GameActionsReturn => {
     // Get fresh game state for turn validation
     setGameState(currentGameState => {
       const { currentPlayer, playerHands, tableCards, playerCaptures } = currentGameState;
+      const variant = getVariant(currentGameState);
+      // Refined to the action actually taken when the drop is resolved through executeAction
+      noteAction('drop', currentPlayer, { draggedItem, targetInfo });
       // Handle different payload structures: regular cards vs temporary stacks
       const draggedCard = draggedItem.card; // May be undefined for temporary stacks
       const draggedSource = draggedItem.source; // Source of the dragged item
@@ -277,7 +383,7 @@ export const useGameActions = (): GameActionsReturn => {
           const actions: ActionOption[] = [];
 
           // Possibility 1: Capture the build
-          if (rankValue(draggedCard.rank) === buildToDropOn.value) {
+          if (canCaptureValue(draggedCard, buildToDropOn.value, variant)) {
             actions.push(importedCreateActionOption(
               'capture', `Capture Build (${buildToDropOn.value})`,
               { draggedItem, targetCard: buildToDropOn }
@@ -302,7 +408,7 @@ export const useGameActions = (): GameActionsReturn => {
               }
             } else {
               // Standard "Add to Opponent Build"
-              const validation = validateAddToOpponentBuild(buildToDropOn, draggedCard, playerHand, tableCards, currentPlayer - 1); // Pass 0-based index
+              const validation = validateAddToOpponentBuild(buildToDropOn, draggedCard, playerHand, tableCards, currentPlayer - 1, variant, getRules(currentGameState)); // Pass 0-based index
               if (validation.valid) {
                 const newBuildValue = buildToDropOn.value + rankValue(draggedCard.rank);
                 actions.push(importedCreateActionOption('addToOpponentBuild', `Extend to ${newBuildValue}`, { draggedItem, buildToAddTo: buildToDropOn }));
@@ -312,7 +418,7 @@ export const useGameActions = (): GameActionsReturn => {
 
           // Possibility 3: Add to your own build
           if (buildToDropOn.owner === (currentPlayer - 1)) { // Check with 0-based index
-            const validation = validateAddToOwnBuild(buildToDropOn, draggedCard, playerHand);
+            const validation = validateAddToOwnBuild(buildToDropOn, draggedCard, playerHand, variant);
             if (validation.valid) {
               actions.push(importedCreateActionOption(
                 'addToOwnBuild', `Add to Build (${validation.newValue})`,
@@ -325,10 +431,10 @@ export const useGameActions = (): GameActionsReturn => {
           if (actions.length === 0) {
             if (buildToDropOn.owner === (currentPlayer - 1)) {
               // Try to get a more specific error from validation
-              const validation = validateAddToOwnBuild(buildToDropOn, draggedCard, playerHand); // playerHand is already 0-indexed
+              const validation = validateAddToOwnBuild(buildToDropOn, draggedCard, playerHand, variant); // playerHand is already 0-indexed
               showError(validation.message || "You cannot add this card to your own build.");
             } else {
-              const validation = validateAddToOpponentBuild(buildToDropOn, draggedCard, playerHand, tableCards, currentPlayer - 1);
+              const validation = validateAddToOpponentBuild(buildToDropOn, draggedCard, playerHand, tableCards, currentPlayer - 1, variant, getRules(currentGameState));
               showError(validation.message || `Invalid move on build of ${buildToDropOn.value}.`);
             }
             return currentGameState;
@@ -370,6 +476,7 @@ export const useGameActions = (): GameActionsReturn => {
       
       // --- NEW VALIDATION: Enforce one temp stack at a time ---
       const { tableCards, currentPlayer } = currentGameState;
+      noteAction('stageOpponentCard', currentPlayer, { card: item.card });
       const playerAlreadyHasTempStack = tableCards.some(
         s => (s as TemporaryStack).type === 'temporary_stack' && (s as TemporaryStack).owner === (currentPlayer - 1) // Check with 0-based index
       );
@@ -383,6 +490,7 @@ export const useGameActions = (): GameActionsReturn => {
 
   const handleCancelStagingStackAction = useCallback((stack: TemporaryStack): void => {
     setGameState(currentGameState => {
+      noteAction('cancelStagingStack', currentGameState.currentPlayer, { stack });
       return handleCancelStagingStack(currentGameState, stack);
     });
   }, []);
@@ -395,6 +503,8 @@ export const useGameActions = (): GameActionsReturn => {
         return currentGameState; // Wait for server response to update state/modal
       }
   
+      noteAction('finalizeStagingStack', currentGameState.currentPlayer, { stack });
+
       // --- Handle single-card trail confirmation ---
       if (stack.cards.length === 1 && stack.cards[0].source === 'hand') {
         // This is a confirmation of a trail action in round 2.
@@ -402,6 +512,7 @@ export const useGameActions = (): GameActionsReturn => {
       }
   
       const { playerHands, tableCards, currentPlayer } = currentGameState;
+      const variant = getVariant(currentGameState);
       const playerHand = playerHands[currentPlayer - 1]; // Use 0-based index for playerHand
       const actions: ActionOption[] = [];
   
@@ -415,7 +526,7 @@ export const useGameActions = (): GameActionsReturn => {
       const tableCardsInStack = stack.cards.filter(c => c.source !== 'hand');
   
       // --- NEW VALIDATION: Check if combos are sorted correctly ---
-      const sortingValidation = validateComboSorting(stack.cards);
+      const sortingValidation = validateComboSorting(stack.cards, variant);
       if (!sortingValidation.isValid) {
         const errorMessage = sortingValidation.error +
           (sortingValidation.suggestion ? `\n\n${sortingValidation.suggestion}` : '');
@@ -425,19 +536,20 @@ export const useGameActions = (): GameActionsReturn => {
   
       // --- Possibility 1: Capture ---
       const sumOfTableCards = calculateCardSum(tableCardsInStack);
-      const captureValue = rankValue(handCard.rank);
+      // An Ace in Royal Casino captures as 1 or 14; offer the first value that takes the stack
+      const captureValue = (getCaptureValues(handCard, variant) as number[]).find(value =>
+        sumOfTableCards % value === 0 && (sumOfTableCards === value || canPartitionIntoSums(tableCardsInStack, value))
+      );
   
-      if (tableCardsInStack.length > 0 && sumOfTableCards % captureValue === 0) {
-        if (sumOfTableCards === captureValue || canPartitionIntoSums(tableCardsInStack, captureValue)) {
-          actions.push(importedCreateActionOption('capture', `Capture for ${captureValue}`, {
-            draggedItem: { card: handCard, source: 'hand', player: currentPlayer },
-            targetCard: stack // The whole stack is the target
-          }));
-        }
+      if (tableCardsInStack.length > 0 && captureValue) {
+        actions.push(importedCreateActionOption('capture', `Capture for ${captureValue}`, {
+          draggedItem: { card: handCard, source: 'hand', player: currentPlayer },
+          targetCard: stack // The whole stack is the target
+        }));
       }
   
       // --- Possibility 2: Build ---
-      const possibleBuilds = findPossibleBuildsFromStack(stack, playerHand, tableCards, currentPlayer - 1); // Pass 0-based index
+      const possibleBuilds = findPossibleBuildsFromStack(stack, playerHand, tableCards, currentPlayer - 1, variant, getRules(currentGameState)); // Pass 0-based index
       possibleBuilds.forEach(value => {
         actions.push(importedCreateActionOption('createBuildWithValue', `Create a Build of ${value}`, {
           stack: stack,
@@ -492,6 +604,8 @@ export const useGameActions = (): GameActionsReturn => {
     handleCancelStagingStackAction, 
     handleStageOpponentCardAction, 
     handleConfirmStagingStackAction,
-    closeErrorModal: () => setErrorModal({ visible: false, title: '', message: '', autoDismissMs: undefined })
+    closeErrorModal: () => setErrorModal({ visible: false, title: '', message: '', autoDismissMs: undefined }),
+    actionLog,
+    startNextDeal
   };
 };
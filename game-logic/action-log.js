@@ -0,0 +1,68 @@
+/**
+ * Action Log Module
+ * Append-only record of every action applied in a game and the state it produced,
+ * from which a finished game can be replayed step by step
+ */
+
+/**
+ * Hashes a game state (32-bit FNV-1a over its JSON) so a replay can check each recorded state.
+ * @param {object} gameState - The game state.
+ * @returns {string} The hash as 8 hex characters.
+ */
+export const hashGameState = (gameState) => {
+  const text = JSON.stringify(gameState);
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0).toString(16).padStart(8, '0');
+};
+
+/**
+ * Starts the log of a new game.
+ * @param {object} initialState - The state the game was dealt into.
+ * @returns {object} An empty log ({ seed, initialState, entries }).
+ */
+export const createActionLog = (initialState) => Object.freeze({
+  seed: initialState.seed ?? null,
+  initialState,
+  entries: Object.freeze([]),
+});
+
+/**
+ * Records an applied action. The log is never changed in place; a new log is returned.
+ * @param {object} log - The game's log so far.
+ * @param {object} action - { type, seat, payload }; seat is null for moves the game makes
+ *   itself, such as dealing the next round.
+ * @param {object} resultingState - The state the action produced.
+ * @param {number} [timestamp] - When the action was applied, in ms since the epoch.
+ * @returns {object} The log with the new entry at the end.
+ */
+export const appendAction = (log, { type, seat, payload = null }, resultingState, timestamp = Date.now()) => {
+  const entry = Object.freeze({
+    index: log.entries.length,
+    type,
+    seat,
+    payload,
+    stateHash: hashGameState(resultingState),
+    timestamp,
+    state: resultingState,
+  });
+  return Object.freeze({ ...log, entries: Object.freeze([...log.entries, entry]) });
+};
+
+/**
+ * Lists the positions a replay steps through: the deal, then the state after each action.
+ * @param {object} log - A game's log.
+ * @returns {Array<object>} { state, entry, intact } per step; entry is null for the deal and
+ *   intact is false when a recorded state no longer matches its hash.
+ */
+export const getReplayFrames = (log) => [
+  { state: log.initialState, entry: null, intact: true },
+  ...log.entries.map(entry => ({
+    state: entry.state,
+    entry,
+    intact: hashGameState(entry.state) === entry.stateHash,
+  })),
+];
@@ -3,16 +3,40 @@
  * Contains all card manipulation and utility functions
  */
 
+import { getVariant } from './variants.js';
+
+// Values of the court cards, which only the Royal Casino deck has
+const COURT_VALUES = { J: 11, Q: 12, K: 13 };
+
 /**
  * Converts a card's rank to its numeric value.
- * @param {string} rank - The rank of the card (A, 2-10).
+ * @param {string} rank - The rank of the card (A, 2-10, J, Q, K).
  * @returns {number} The numeric value of the rank.
  */
 export const rankValue = (rank) => {
   if (rank === 'A') return 1;
+  if (COURT_VALUES[rank]) return COURT_VALUES[rank];
   return parseInt(rank, 10);
 };
 
+/**
+ * Lists the values a card can capture as. An Ace is worth one in a build, but in variants with
+ * high Aces it also captures as 14.
+ * @param {object} card - The capturing card.
+ * @param {object} [variant] - The game's variant (see ./variants).
+ * @returns {Array<number>} The values the card captures.
+ */
+export const getCaptureValues = (card, variant = getVariant()) => (card.rank === 'A' ? variant.aceValues : [rankValue(card.rank)]);
+
+/**
+ * Checks whether a card can capture a build or a group of cards of the given value.
+ * @param {object} card - The capturing card.
+ * @param {number} value - The value to capture.
+ * @param {object} [variant] - The game's variant (see ./variants).
+ * @returns {boolean} True if the card captures that value.
+ */
+export const canCaptureValue = (card, value, variant = getVariant()) => getCaptureValues(card, variant).includes(value);
+
 /**
  * Creates a unique identifier for a card based on rank and suit.
  * @param {object} card - The card object.
@@ -107,13 +131,14 @@ export const generateBuildId = () => {
  * Validates if a card combination forms a valid build type.
  * @param {Array} cards - The cards in the build.
  * @param {number} targetValue - The target build value.
+ * @param {object} [variant] - The game's variant, whose highest value caps the build.
  * @returns {boolean} True if the build is valid.
  */
-export const isValidBuildType = (cards, targetValue) => {
+export const isValidBuildType = (cards, targetValue, variant = getVariant()) => {
   const sum = calculateCardSum(cards);
   const isSumBuild = sum === targetValue;
   const isSetBuild = cards.every(c => rankValue(c.rank) === targetValue);
-  return (isSumBuild || isSetBuild) && targetValue <= 10;
+  return (isSumBuild || isSetBuild) && targetValue <= variant.maxValue;
 };
 
 /**
@@ -0,0 +1,128 @@
+/**
+ * Fair Shuffle Module
+ * Commit–reveal proof that an online deal was fixed before play began: the server publishes a
+ * SHA-256 commitment of the shuffled deck at game start and reveals the seed and salt at game
+ * over, so any player can recompute the deck and check it against the commitment
+ */
+
+import { createShuffledDeck, normalizeSeed } from './game-state.js';
+import { getVariant } from './variants.js';
+
+const SUIT_LETTERS = { '♠': 'S', '♥': 'H', '♦': 'D', '♣': 'C' };
+
+// SHA-256 round constants: the first 32 bits of the fractional parts of the cube roots of the first 64 primes
+const SHA256_K = [
+  0x428a2f98, 0x71374491, 0xb5c0fbcf, 0xe9b5dba5, 0x3956c25b, 0x59f111f1, 0x923f82a4, 0xab1c5ed5,
+  0xd807aa98, 0x12835b01, 0x243185be, 0x550c7dc3, 0x72be5d74, 0x80deb1fe, 0x9bdc06a7, 0xc19bf174,
+  0xe49b69c1, 0xefbe4786, 0x0fc19dc6, 0x240ca1cc, 0x2de92c6f, 0x4a7484aa, 0x5cb0a9dc, 0x76f988da,
+  0x983e5152, 0xa831c66d, 0xb00327c8, 0xbf597fc7, 0xc6e00bf3, 0xd5a79147, 0x06ca6351, 0x14292967,
+  0x27b70a85, 0x2e1b2138, 0x4d2c6dfc, 0x53380d13, 0x650a7354, 0x766a0abb, 0x81c2c92e, 0x92722c85,
+  0xa2bfe8a1, 0xa81a664b, 0xc24b8b70, 0xc76c51a3, 0xd192e819, 0xd6990624, 0xf40e3585, 0x106aa070,
+  0x19a4c116, 0x1e376c08, 0x2748774c, 0x34b0bcb5, 0x391c0cb3, 0x4ed8aa4a, 0x5b9cca4f, 0x682e6ff3,
+  0x748f82ee, 0x78a5636f, 0x84c87814, 0x8cc70208, 0x90befffa, 0xa4506ceb, 0xbef9a3f7, 0xc67178f2,
+];
+
+const rotateRight = (value, bits) => (value >>> bits) | (value << (32 - bits));
+
+/**
+ * Hashes an ASCII string with SHA-256. The app has no crypto library, so this is done by hand.
+ * @param {string} text - The ASCII text to hash.
+ * @returns {string} The digest as 64 lowercase hex characters.
+ */
+const sha256 = (text) => {
+  // Pad the message to a multiple of 64 bytes, ending with its length in bits
+  const bytes = Array.from(text, ch => ch.charCodeAt(0) & 0xff);
+  const bitLength = bytes.length * 8;
+  bytes.push(0x80);
+  while (bytes.length % 64 !== 56) bytes.push(0);
+  for (let shift = 56; shift >= 0; shift -= 8) {
+    bytes.push(shift >= 32 ? Math.floor(bitLength / 2 ** shift) & 0xff : (bitLength >>> shift) & 0xff);
+  }
+
+  const hash = [0x6a09e667, 0xbb67ae85, 0x3c6ef372, 0xa54ff53a, 0x510e527f, 0x9b05688c, 0x1f83d9ab, 0x5be0cd19];
+  const w = new Array(64);
+
+  for (let offset = 0; offset < bytes.length; offset += 64) {
+    for (let i = 0; i < 16; i++) {
+      const j = offset + i * 4;
+      w[i] = ((bytes[j] << 24) | (bytes[j + 1] << 16) | (bytes[j + 2] << 8) | bytes[j + 3]) >>> 0;
+    }
+    for (let i = 16; i < 64; i++) {
+      const s0 = rotateRight(w[i - 15], 7) ^ rotateRight(w[i - 15], 18) ^ (w[i - 15] >>> 3);
+      const s1 = rotateRight(w[i - 2], 17) ^ rotateRight(w[i - 2], 19) ^ (w[i - 2] >>> 10);
+      w[i] = (w[i - 16] + s0 + w[i - 7] + s1) >>> 0;
+    }
+
+    let [a, b, c, d, e, f, g, h] = hash;
+    for (let i = 0; i < 64; i++) {
+      const s1 = rotateRight(e, 6) ^ rotateRight(e, 11) ^ rotateRight(e, 25);
+      const choice = (e & f) ^ (~e & g);
+      const temp1 = (h + s1 + choice + SHA256_K[i] + w[i]) >>> 0;
+      const s0 = rotateRight(a, 2) ^ rotateRight(a, 13) ^ rotateRight(a, 22);
+      const majority = (a & b) ^ (a & c) ^ (b & c);
+      const temp2 = (s0 + majority) >>> 0;
+      h = g;
+      g = f;
+      f = e;
+      e = (d + temp1) >>> 0;
+      d = c;
+      c = b;
+      b = a;
+      a = (temp1 + temp2) >>> 0;
+    }
+
+    [a, b, c, d, e, f, g, h].forEach((value, i) => {
+      hash[i] = (hash[i] + value) >>> 0;
+    });
+  }
+
+  return hash.map(value => value.toString(16).padStart(8, '0')).join('');
+};
+
+/**
+ * Writes a deck order as plain ASCII, e.g. "10D,AS,7C".
+ * @param {Array} deck - The cards in order.
+ * @returns {string} The deck order.
+ */
+export const describeDeck = (deck) => deck.map(card => `${card.rank}${SUIT_LETTERS[card.suit]}`).join(',');
+
+/**
+ * Computes the commitment to a deal: the SHA-256 of the salt, the seed and the deck order it shuffles.
+ * @param {number} seed - The deal's normalized seed.
+ * @param {string} salt - A secret random salt, revealed with the seed once the game is over.
+ * @param {object} [variant] - The variant whose deck was shuffled (see ./variants).
+ * @returns {string} The commitment as 64 hex characters.
+ */
+export const createDeckCommitment = (seed, salt, variant = getVariant()) => sha256(`${salt}:${seed}:${describeDeck(createShuffledDeck(seed, variant))}`);
+
+/**
+ * Checks a revealed deal against the commitment published at game start, and that the hand
+ * this player was dealt comes from that deck.
+ * @param {object} fairness - { commitment, seed, salt } as revealed at game over.
+ * @param {number} seat - The 0-based seat of the player checking.
+ * @param {Array} [openingHand] - The hand the player was dealt at game start, if remembered.
+ * @param {number} [seatCount] - The number of seats the deck was dealt to.
+ * @param {object} [variant] - The variant the deck was made up for (see ./variants).
+ * @returns {object} { valid, message }
+ */
+export const verifyDeal = (fairness, seat, openingHand = null, seatCount = 2, variant = getVariant()) => {
+  if (!fairness || !fairness.commitment || fairness.seed === undefined || !fairness.salt) {
+    return { valid: false, message: 'The server has not revealed the seed for this game yet.' };
+  }
+
+  const seed = normalizeSeed(fairness.seed);
+  if (createDeckCommitment(seed, fairness.salt, variant) !== fairness.commitment) {
+    return { valid: false, message: 'The revealed seed does not match the commitment published at the start of the game.' };
+  }
+
+  if (openingHand) {
+    // Hands are dealt one card at a time around the table from the end of the deck, seat 0 first
+    const deck = createShuffledDeck(seed, variant);
+    const dealtHand = openingHand.map((_, i) => deck[deck.length - 1 - (i * seatCount + seat)]);
+    if (describeDeck(dealtHand) !== describeDeck(openingHand)) {
+      return { valid: false, message: 'Your opening hand is not the one this deck deals.' };
+    }
+  }
+
+  return { valid: true, message: `The deck matches the commitment published at the start of the game (seed ${seed}).` };
+};
@@ -4,33 +4,79 @@
  */
 
 import { rankValue } from './card-operations.js';
+import { VARIANTS, DEFAULT_VARIANT, getVariant } from './variants.js';
+import { createRules, listChangedRules } from './rules.js';
+
+/**
+ * Generates a fresh random seed for a deal.
+ * @returns {number} A 32-bit unsigned integer.
+ */
+export const generateSeed = () => Math.floor(Math.random() * 0x100000000);
+
+/**
+ * Converts a seed given as a number or a string into a 32-bit unsigned integer.
+ * Numeric strings keep their value so a seed copied from a log can be typed back in.
+ * @param {number|string} seed - The seed.
+ * @returns {number} The normalized seed.
+ */
+export const normalizeSeed = (seed) => {
+  const text = String(seed).trim();
+  if (/^\d+$/.test(text) && Number(text) < 0x100000000) {
+    return Number(text);
+  }
+  // FNV-1a hash of any other seed
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+};
+
+/**
+ * Creates a deterministic pseudo-random number generator (mulberry32).
+ * @param {number} seed - A 32-bit unsigned integer seed.
+ * @returns {Function} A function returning numbers in [0, 1), like Math.random.
+ */
+export const createSeededRandom = (seed) => {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 0x100000000;
+  };
+};
 
 /**
  * Shuffles the deck of cards using Fisher-Yates algorithm.
  * @param {Array} deck - The deck to shuffle.
+ * @param {Function} random - The source of randomness; a seeded generator makes the shuffle repeatable.
  * @returns {Array} The shuffled deck.
  */
-export const shuffleDeck = (deck) => {
+export const shuffleDeck = (deck, random = Math.random) => {
   const shuffled = [...deck];
   for (let i = shuffled.length - 1; i > 0; i--) {
-    const j = Math.floor(Math.random() * (i + 1));
+    const j = Math.floor(random() * (i + 1));
     [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
   }
   return shuffled;
 };
 
 /**
- * Initializes the game state, including shuffling the deck and dealing cards.
- * @returns {object} The initial game state.
+ * Creates the full deck in the order a seed shuffles it. Cards are dealt from the end.
+ * @param {number} seed - A normalized seed.
+ * @param {object} [variant] - The variant whose ranks make up the deck (see ./variants).
+ * @returns {Array} The shuffled deck.
  */
-export const initializeGame = () => {
+export const createShuffledDeck = (seed, variant = getVariant()) => {
   const suits = ['♠', '♥', '♦', '♣'];
-  const ranks = ['A', '2', '3', '4', '5', '6', '7', '8', '9', '10'];
-  let deck = [];
+  const deck = [];
 
   // Create deck
   for (const suit of suits) {
-    for (const rank of ranks) {
+    for (const rank of variant.ranks) {
       deck.push({
         suit,
         rank,
@@ -39,30 +85,116 @@ export const initializeGame = () => {
     }
   }
 
+  return shuffleDeck(deck, createSeededRandom(seed));
+};
+
+// The number of seats a game can be dealt to
+export const MIN_SEATS = 2;
+export const MAX_SEATS = 4;
+
+/**
+ * Works out how a deck is dealt to a number of seats. Every deal hands out two rounds of equal
+ * hands, one card at a time around the table; cards left over after that are laid face up on
+ * the table before the first round. A variant that draws after every play deals its own hand
+ * size and table cards instead, and the rest of the deck is drawn from.
+ * @param {number} seatCount - The number of seats.
+ * @param {number} deckSize - The number of cards in the deck.
+ * @param {object} [variant] - The variant being dealt (see ./variants).
+ * @returns {object} { handSize, tableCount }.
+ */
+export const getDealPlan = (seatCount, deckSize, variant = getVariant()) => {
+  if (variant.draw) {
+    return { handSize: variant.draw.handSize, tableCount: variant.draw.tableCount };
+  }
+  const handSize = Math.floor(deckSize / (seatCount * 2));
+  return { handSize, tableCount: deckSize - handSize * seatCount * 2 };
+};
+
+/**
+ * Pairs opposite seats into teams for partnership play: 0 and 2 against 1 and 3.
+ * @param {number} seatCount - The number of seats.
+ * @param {boolean} partnerships - Whether the game is played in partnerships.
+ * @returns {Array<Array<number>>|null} The seats on each team, or null when every seat plays
+ *   for itself (no partnerships, or a seat count that cannot be paired).
+ */
+export const createTeams = (seatCount, partnerships) => {
+  if (!partnerships || seatCount < 4 || seatCount % 2 !== 0) return null;
+  const seats = Array.from({ length: seatCount }, (_, seat) => seat);
+  return [0, 1].map(parity => seats.filter(seat => seat % 2 === parity));
+};
+
+/**
+ * Initializes the game state, including shuffling the deck and dealing cards.
+ * The same seed always produces the same deal, so any game can be replayed card for card.
+ * @param {number|string} [seed] - The seed for the shuffle; a random one is used when omitted.
+ * @param {object} [options] - { seatCount, partnerships, variant, rules }. In partnerships, teammates'
+ *   captures are scored together (see createTeams). The variant is named as in ./variants; the
+ *   rules are the house rules to change from the defaults (see ./rules).
+ * @returns {object} The initial game state, with the seed it was dealt from.
+ */
+export const initializeGame = (seed = generateSeed(), { seatCount = 2, partnerships = false, variant = DEFAULT_VARIANT, rules = null } = {}) => {
+  const dealSeed = normalizeSeed(seed);
+
   // Shuffle and deal
-  deck = shuffleDeck(deck);
-  const playerHands = [[], []];
+  const deck = createShuffledDeck(dealSeed, VARIANTS[variant]);
+  const { handSize, tableCount } = getDealPlan(seatCount, deck.length, VARIANTS[variant]);
+  const playerHands = Array.from({ length: seatCount }, () => []);
 
-  for (let i = 0; i < 10; i++) {
-    playerHands[0].push(deck.pop());
-    playerHands[1].push(deck.pop());
+  for (let i = 0; i < handSize; i++) {
+    playerHands.forEach(hand => hand.push(deck.pop()));
   }
+  const tableCards = [];
+  for (let i = 0; i < tableCount; i++) {
+    tableCards.push(deck.pop());
+  }
+
+  const teams = createTeams(seatCount, partnerships);
+  const houseRules = rules ? createRules(rules) : null;
 
   return {
     deck,
     playerHands,
-    tableCards: [],
-    playerCaptures: [[], []],
+    tableCards,
+    playerCaptures: playerHands.map(() => []),
     currentPlayer: 0,
     round: 1,
-    scores: [0, 0],
+    scores: Array(teams ? teams.length : seatCount).fill(0),
     gameOver: false,
     winner: null,
     lastCapturer: null,
     scoreDetails: null,
+    seed: dealSeed,
+    ...(teams ? { teams } : {}), // Seats scored together, by team
+    ...(variant !== DEFAULT_VARIANT ? { variant } : {}),
+    ...(houseRules && listChangedRules(houseRules).length > 0 ? { rules: houseRules } : {}),
   };
 };
 
+/**
+ * Lists the sides of a game: its teams in a partnership game, otherwise every seat on its own.
+ * Scores and the winner are given by side.
+ * @param {object} gameState - The game state.
+ * @returns {Array<Array<number>>} The seats on each side.
+ */
+export const getSides = (gameState) => gameState.teams || gameState.playerHands.map((hand, seat) => [seat]);
+
+/**
+ * Finds the side a seat plays for.
+ * @param {object} gameState - The game state.
+ * @param {number} seat - The 0-based seat.
+ * @returns {number} The index of the seat's side.
+ */
+export const getSideOf = (gameState, seat) => getSides(gameState).findIndex(side => side.includes(seat));
+
+/**
+ * Checks whether two seats play against each other.
+ * @param {object} gameState - The game state.
+ * @param {number} seat - A 0-based seat.
+ * @param {number} otherSeat - Another 0-based seat.
+ * @returns {boolean} True if the seats are on different sides.
+ */
+export const areOpponents = (gameState, seat, otherSeat) => getSideOf(gameState, seat) !== getSideOf(gameState, otherSeat);
+
 /**
  * Creates an immutable copy of the game state with updated properties.
  * @param {object} gameState - The current game state.
@@ -77,13 +209,37 @@ export const updateGameState = (gameState, updates) => {
 };
 
 /**
- * Advances to the next player's turn.
+ * Tops the current player's hand back up from the deck in a variant that draws after every play.
+ * @param {object} gameState - The game state after the player's move.
+ * @returns {object} The game state with the hand refilled as far as the deck allows.
+ */
+const drawUpHand = (gameState) => {
+  const { draw } = getVariant(gameState);
+  const { deck, playerHands, currentPlayer } = gameState;
+  if (!draw || deck.length === 0 || playerHands[currentPlayer].length >= draw.handSize) {
+    return gameState;
+  }
+
+  const workingDeck = [...deck];
+  const hand = [...playerHands[currentPlayer]];
+  while (hand.length < draw.handSize && workingDeck.length > 0) {
+    hand.push(workingDeck.pop());
+  }
+  return updateGameState(gameState, {
+    deck: workingDeck,
+    playerHands: playerHands.map((playerHand, seat) => (seat === currentPlayer ? hand : playerHand)),
+  });
+};
+
+/**
+ * Advances to the next player's turn. In a variant that draws after every play, the player
+ * whose turn ends draws back up first.
  * @param {object} gameState - The current game state.
  * @returns {object} The updated game state.
  */
 export const nextPlayer = (gameState) => {
-  return updateGameState(gameState, {
-    currentPlayer: (gameState.currentPlayer + 1) % 2
+  return updateGameState(drawUpHand(gameState), {
+    currentPlayer: (gameState.currentPlayer + 1) % gameState.playerHands.length
   });
 };
 
@@ -102,11 +258,13 @@ export const logGameState = (moveDescription, gameState) => {
     c.type === 'build' ? `Build(${c.value})` : `${c.rank}${c.suit}`
   ));
 
-  console.log('Player 1 Hand:', gameState.playerHands[0].map(c => `${c.rank}${c.suit}`));
-  console.log('Player 2 Hand:', gameState.playerHands[1].map(c => `${c.rank}${c.suit}`));
+  gameState.playerHands.forEach((hand, seat) => {
+    console.log(`Player ${seat + 1} Hand:`, hand.map(c => `${c.rank}${c.suit}`));
+  });
 
-  console.log('Player 1 Captures:', gameState.playerCaptures[0].length);
-  console.log('Player 2 Captures:', gameState.playerCaptures[1].length);
+  gameState.playerCaptures.forEach((captures, seat) => {
+    console.log(`Player ${seat + 1} Captures:`, captures.length);
+  });
 
   console.log(`Next turn: Player ${gameState.currentPlayer + 1}`);
   console.groupEnd();
@@ -0,0 +1,166 @@
+/**
+ * Hints Module
+ * Rates every legal move for a player and explains the best one in plain words
+ */
+
+import { rankValue, canCaptureValue } from './card-operations.js';
+import { generateLegalMoves } from './move-generator.js';
+import { cardWorth } from './ai-player.js';
+import { getVariant } from './variants.js';
+
+// A build only pays off if it survives the opponent's turn
+const BUILD_DISCOUNT = 0.8;
+
+const isSameCard = (a, b) => !!a && !!b && a.rank === b.rank && a.suit === b.suit;
+
+const cardsOf = (item) => (item.type ? item.cards : [item]);
+
+const describeCard = (card) => `${card.rank}${card.suit}`;
+
+const sumWorth = (cards) => cards.reduce((sum, card) => sum + cardWorth(card), 0);
+
+/**
+ * Finds the hand card a move plays, if any.
+ * @param {object} move - A legal move.
+ * @returns {object|null} The card, or null for moves that only rearrange the table.
+ */
+const findPlayedCard = (move) => {
+  const { payload } = move;
+  if (payload.draggedItem) return payload.draggedItem.card;
+  if (payload.card) return payload.card;
+  if (payload.stack) return payload.stack.cards.find(c => c.source === 'hand') || null;
+  return null;
+};
+
+/**
+ * Lists the table items a move acts on, so they can be highlighted.
+ * @param {object} move - A legal move.
+ * @returns {Array} Loose cards, builds and staging stacks.
+ */
+const findTargets = (move) => {
+  const { payload } = move;
+  if (payload.selectedTableCards) return payload.selectedTableCards;
+  if (payload.baseCard) return [payload.baseCard, ...payload.otherCardsInBuild.flat()];
+  if (payload.targetCard) return [payload.targetCard];
+  if (payload.buildToAddTo) return [payload.buildToAddTo];
+  if (payload.opponentBuild) return [payload.opponentBuild, payload.ownBuild];
+  if (payload.targetBuild) return [payload.stack, payload.targetBuild];
+  if (payload.stack) return [payload.stack];
+  return [];
+};
+
+/**
+ * Names the scoring cards in a set of cards, e.g. "10♦ Big Casino".
+ * @param {Array} cards - The cards.
+ * @returns {Array<string>} One phrase per notable card or category.
+ */
+const describeScoringCards = (cards) => {
+  const phrases = [];
+  cards.forEach(card => {
+    if (card.rank === '10' && card.suit === '♦') phrases.push('10♦ Big Casino');
+    else if (card.rank === '2' && card.suit === '♠') phrases.push('2♠ Little Casino');
+    else if (card.rank === 'A') phrases.push(`the ${describeCard(card)} ace`);
+  });
+  const spades = cards.filter(c => c.suit === '♠').length;
+  if (spades > 1) phrases.push(`${spades} spades`);
+  return phrases;
+};
+
+/**
+ * Rates a move and gives the reason it is worth playing.
+ * @param {object} gameState - The current game state.
+ * @param {number} playerIndex - The 0-based seat.
+ * @param {object} move - A legal move.
+ * @returns {object} { score, reason }
+ */
+const rateMove = (gameState, playerIndex, move) => {
+  const { payload } = move;
+  const hand = gameState.playerHands[playerIndex];
+  const playedCard = findPlayedCard(move);
+
+  switch (move.type) {
+    case 'capture': {
+      const captured = [playedCard];
+      payload.selectedTableCards.flatMap(cardsOf).forEach(card => {
+        if (!captured.some(c => isSameCard(c, card))) captured.push(card);
+      });
+      const clearsTable = gameState.tableCards.every(item => payload.selectedTableCards.includes(item));
+      const highlights = describeScoringCards(captured);
+      const reason = highlights.length > 0
+        ? `captures ${highlights.join(', ')}`
+        : `captures ${captured.length} cards`;
+      return {
+        score: sumWorth(captured) + (clearsTable ? 1 : 0),
+        reason: clearsTable ? `${reason} and clears the table` : reason,
+      };
+    }
+    case 'build':
+    case 'baseBuild':
+    case 'createBuildWithValue': {
+      const buildValue = payload.buildValue || rankValue(playedCard.rank);
+      const buildCards = move.type === 'createBuildWithValue'
+        ? payload.stack.cards
+        : [playedCard, ...findTargets(move)];
+      const captureCard = hand.find(c => canCaptureValue(c, buildValue, getVariant(gameState)) && !isSameCard(c, playedCard));
+      return {
+        score: sumWorth(captureCard ? [...buildCards, captureCard] : buildCards) * BUILD_DISCOUNT,
+        reason: captureCard
+          ? `builds ${buildValue} to capture with your ${describeCard(captureCard)} next turn`
+          : `builds ${buildValue}`,
+      };
+    }
+    case 'addToOwnBuild':
+    case 'mergeIntoOwnBuild': {
+      const build = payload.buildToAddTo || payload.targetBuild;
+      const added = playedCard ? [playedCard] : payload.stack.cards;
+      return {
+        score: (sumWorth(build.cards) + sumWorth(added)) * BUILD_DISCOUNT,
+        reason: `adds to your build of ${build.value} so you capture more cards with it`,
+      };
+    }
+    case 'addToOpponentBuild':
+    case 'extendToMerge':
+    case 'reinforceOpponentBuild': {
+      const build = payload.buildToAddTo || payload.opponentBuild || payload.targetBuild;
+      return {
+        score: 0.5,
+        reason: `changes your opponent's build of ${build.value} so they cannot simply take it`,
+      };
+    }
+    case 'cancelStagingStack':
+      return { score: -10, reason: 'this stack cannot be finished, so take the cards back' };
+    default:
+      // Trails: give away as little as possible
+      return {
+        score: -cardWorth(playedCard) / 10,
+        reason: `nothing is worth taking, so trail your least valuable card, the ${describeCard(playedCard)}`,
+      };
+  }
+};
+
+/**
+ * Suggests the best move for a player, with the cards to highlight and the reasoning.
+ * @param {object} gameState - The current game state.
+ * @param {number} playerIndex - The 0-based seat asking for a hint.
+ * @returns {object|null} { move, handCard, targets, explanation }, or null if the player has
+ *   no move to make (e.g. it is not their turn).
+ */
+export const suggestMove = (gameState, playerIndex) => {
+  const moves = generateLegalMoves(gameState, playerIndex);
+  if (moves.length === 0) return null;
+
+  let best = null;
+  moves.forEach(move => {
+    const rating = rateMove(gameState, playerIndex, move);
+    if (!best || rating.score > best.score) {
+      best = { move, ...rating };
+    }
+  });
+
+  return {
+    move: best.move,
+    handCard: findPlayedCard(best.move),
+    targets: findTargets(best.move),
+    explanation: `${best.move.label}: ${best.reason}.`,
+  };
+};
@@ -6,8 +6,19 @@
 
 // Core game state management
 export {
+  MIN_SEATS,
+  MAX_SEATS,
+  getDealPlan,
+  createTeams,
   initializeGame,
+  getSides,
+  getSideOf,
+  areOpponents,
   shuffleDeck,
+  generateSeed,
+  normalizeSeed,
+  createSeededRandom,
+  createShuffledDeck,
   updateGameState,
   nextPlayer,
   logGameState
@@ -25,9 +36,27 @@ export {
   isValidBuildType,
   findOpponentMatchingCards,
   countIdenticalCardsInHand,
-  createCaptureStack
+  createCaptureStack,
+  getCaptureValues,
+  canCaptureValue
 } from './card-operations.js';
 
+// Rules variants
+export {
+  VARIANTS,
+  DEFAULT_VARIANT,
+  getVariant
+} from './variants.js';
+
+// House rules
+export {
+  DEFAULT_RULES,
+  createRules,
+  getRules,
+  listChangedRules,
+  describeHouseRules
+} from './rules.js';
+
 // Optimized algorithms
 export {
   findCombinationsDP,
@@ -44,6 +73,7 @@ export {
   validateMergeIntoOwnBuild,
   findPossibleBuildsFromStack,
   validateComplexCapture,
+  validateCaptureWithOwnBuild,
   validateAddToOwnBuild,
   validateReinforceBuildWithStack,
   validateExtendToMerge,
@@ -79,3 +109,58 @@ export {
   handleStageSingleCardFromHand,
   handleFinalizeTrail
 } from './game-actions.js';
+
+// Legal move enumeration
+export { generateLegalMoves } from './move-generator.js';
+
+// Move suggestions
+export { suggestMove } from './hints.js';
+
+// Computer opponent
+export {
+  AI_DIFFICULTIES,
+  DEFAULT_AI_DIFFICULTY,
+  chooseAIMove,
+  applyAIMove
+} from './ai-player.js';
+
+// Scripted tutorial lessons
+export {
+  TUTORIAL_LESSONS,
+  TUTORIAL_SEAT,
+  createLessonState,
+  listDropMoves,
+  isExpectedMove,
+  applyTutorialMove
+} from './tutorial.js';
+
+// Commit–reveal check of online deals
+export {
+  describeDeck,
+  createDeckCommitment,
+  verifyDeal
+} from './fair-shuffle.js';
+
+// Action log and replays
+export {
+  hashGameState,
+  createActionLog,
+  appendAction,
+  getReplayFrames
+} from './action-log.js';
+
+// Match play over several deals
+export {
+  MATCH_TARGETS,
+  createMatch,
+  recordDeal,
+  concedeMatch,
+  isMatchUnfinished,
+  dealMatchGame
+} from './match.js';
+
+// Game notation for sharing and importing games
+export {
+  writeGameNotation,
+  readGameNotation
+} from './notation.js';
@@ -0,0 +1,78 @@
+/**
+ * Match Module
+ * Match play: deals are played one after another, the first player moving one seat on, and each
+ * deal's scores are added up until someone reaches the match's target score
+ */
+
+import { initializeGame } from './game-state.js';
+
+// Target scores offered when starting a match
+export const MATCH_TARGETS = [11, 21];
+
+/**
+ * Starts a match.
+ * @param {number} targetScore - The total that wins the match.
+ * @param {number} [sideCount] - The number of sides: players, or teams in a partnership game.
+ * @returns {object} The match ({ targetScore, dealScores, totals, matchOver, winner }).
+ */
+export const createMatch = (targetScore, sideCount = 2) => ({
+  targetScore,
+  dealScores: [], // The scores of every finished deal, in order
+  totals: Array(sideCount).fill(0),
+  matchOver: false,
+  winner: null,
+});
+
+/**
+ * Adds a finished deal's scores to the match.
+ * The match is over once someone has reached the target and is alone in the lead;
+ * players level at the top keep dealing until one pulls ahead.
+ * @param {object} match - The match.
+ * @param {Array<number>} scores - The deal's scores, by side.
+ * @returns {object} The updated match.
+ */
+export const recordDeal = (match, scores) => {
+  const totals = match.totals.map((total, seat) => total + scores[seat]);
+  const best = Math.max(...totals);
+  const leaders = totals.filter(total => total === best);
+  const matchOver = best >= match.targetScore && leaders.length === 1;
+
+  return {
+    ...match,
+    dealScores: [...match.dealScores, scores],
+    totals,
+    matchOver,
+    winner: matchOver ? totals.indexOf(best) : null,
+  };
+};
+
+/**
+ * Ends a match early, e.g. when a player resigns.
+ * @param {object} match - The match.
+ * @param {number} winner - The side awarded the match.
+ * @returns {object} The finished match.
+ */
+export const concedeMatch = (match, winner) => ({ ...match, matchOver: true, winner });
+
+/**
+ * Checks whether a finished deal leaves more of its match to play.
+ * @param {object} gameState - The game state.
+ * @returns {boolean} True if the game is part of a match that is not over yet.
+ */
+export const isMatchUnfinished = (gameState) => Boolean(gameState.match && !gameState.match.matchOver);
+
+/**
+ * Deals the next game of a match. The first player moves one seat on with every deal.
+ * @param {object} match - The match.
+ * @param {number|string} [seed] - The seed for the deal; random when omitted.
+ * @param {object} [dealOptions] - The seats, partnerships, variant and house rules, as for initializeGame.
+ * @returns {object} The game state of the new deal, carrying the match.
+ */
+export const dealMatchGame = (match, seed, dealOptions = {}) => {
+  const gameState = initializeGame(seed, dealOptions);
+  return {
+    ...gameState,
+    currentPlayer: match.dealScores.length % gameState.playerHands.length,
+    match,
+  };
+};
@@ -0,0 +1,341 @@
+/**
+ * Move Generator Module
+ * Enumerates every legal action for a seat straight from the game state, without simulating drags.
+ * Each move is an action option ({ type, label, payload }) in the game-action vocabulary.
+ */
+
+import { rankValue, getCaptureValues } from './card-operations.js';
+import { canPartitionIntoSums, findBaseBuilds, findCombinationsDP } from './algorithms.js';
+import {
+  validateBuild,
+  validateCaptureWithOwnBuild,
+  validateTrail,
+  validateAddToOpponentBuild,
+  validateAddToOwnBuild,
+  validateExtendToMerge,
+  validateMergeIntoOwnBuild,
+  validateReinforceOpponentBuildWithStack,
+  findPossibleBuildsFromStack
+} from './validation.js';
+import { getVariant } from './variants.js';
+import { getRules } from './rules.js';
+
+const createMove = (type, label, payload) => ({ type, label, payload });
+
+const describeCard = (card) => `${card.rank}${card.suit}`;
+
+const handItem = (card, playerIndex) => ({ card, source: 'hand', player: playerIndex });
+
+/**
+ * Lists every subset of the given items. Only used for the few builds that share a value.
+ * @param {Array} items - The items to choose from.
+ * @returns {Array<Array>} All subsets, the empty one included.
+ */
+const listSubsets = (items) => {
+  const subsets = [[]];
+  items.forEach(item => {
+    const count = subsets.length;
+    for (let i = 0; i < count; i++) {
+      subsets.push([...subsets[i], item]);
+    }
+  });
+  return subsets;
+};
+
+/**
+ * Lists every set of loose cards that can be captured as the given value: sets that split into
+ * groups each adding up to it. Sets are put together group by group from the combinations that
+ * make the value, so the subsets that cannot be captured are never formed.
+ * @param {Array} looseCards - The loose cards on the table.
+ * @param {number} value - The value captured.
+ * @returns {Array<Array>} The capturable sets, the empty one included, each in table order.
+ */
+const listCaptureSets = (looseCards, value) => {
+  // Each combination as the ascending table positions of its cards
+  const combinations = findCombinationsDP(looseCards, value).map(combo => combo.map(card => looseCards.indexOf(card)));
+  const sets = new Map([['', []]]);
+  const visited = new Set();
+
+  // Groups are added in order of their first card, so each set is reached from few partitions
+  const extend = (positions, lastStart) => {
+    const key = positions.join(',');
+    if (visited.has(`${key}|${lastStart}`)) return;
+    visited.add(`${key}|${lastStart}`);
+    sets.set(key, positions);
+
+    combinations.forEach(combo => {
+      if (combo[0] <= lastStart || combo.some(position => positions.includes(position))) return;
+      extend([...positions, ...combo].sort((a, b) => a - b), combo[0]);
+    });
+  };
+  extend([], -1);
+
+  return [...sets.values()].map(positions => positions.map(position => looseCards[position]));
+};
+
+/**
+ * Lists the cards the player may trail.
+ * In round 2 the card is staged first and trailed when confirmed.
+ * @param {object} gameState - The current game state.
+ * @param {number} playerIndex - The 0-based seat.
+ * @returns {Array<object>} Trail moves.
+ */
+const listTrails = (gameState, playerIndex) => {
+  const { playerHands, tableCards, round } = gameState;
+  return playerHands[playerIndex]
+    .filter(card => validateTrail(tableCards, card, playerIndex, round, getRules(gameState)).valid)
+    .map(card => createMove('trail', `Trail ${describeCard(card)}`, { card }));
+};
+
+/**
+ * Lists every capture set: for each hand card and each value it captures as, every combination
+ * of the builds of that value and the loose cards that group into sums of it. Captures that
+ * would leave the player unable to take their own build are left out.
+ * @param {object} gameState - The current game state.
+ * @param {number} playerIndex - The 0-based seat.
+ * @returns {Array<object>} Capture moves.
+ */
+const listCaptures = (gameState, playerIndex) => {
+  const { playerHands, tableCards } = gameState;
+  const looseCards = tableCards.filter(item => !item.type);
+  const variant = getVariant(gameState);
+  const moves = [];
+
+  playerHands[playerIndex].forEach(card => getCaptureValues(card, variant).forEach(value => {
+    const buildSubsets = listSubsets(tableCards.filter(item => item.type === 'build' && item.value === value));
+    const looseGroups = listCaptureSets(looseCards, value);
+
+    buildSubsets.forEach(builds => {
+      looseGroups.forEach(loose => {
+        const targets = [...builds, ...loose];
+        if (targets.length === 0) return;
+        if (!validateCaptureWithOwnBuild(playerHands[playerIndex], card, targets, tableCards, playerIndex, variant).valid) return;
+        const described = [
+          ...builds.map(b => `build of ${b.value}`),
+          ...loose.map(describeCard),
+        ].join(', ');
+        moves.push(createMove('capture', `Capture ${described} with ${describeCard(card)}`, {
+          draggedItem: handItem(card, playerIndex),
+          selectedTableCards: targets,
+        }));
+      });
+    });
+  }));
+
+  return moves;
+};
+
+/**
+ * Lists the builds made from one hand card and one loose card: same-value and sum builds.
+ * @param {object} gameState - The current game state.
+ * @param {number} playerIndex - The 0-based seat.
+ * @returns {Array<object>} Build moves.
+ */
+const listBuilds = (gameState, playerIndex) => {
+  const { playerHands, tableCards } = gameState;
+  const hand = playerHands[playerIndex];
+  const variant = getVariant(gameState);
+  const moves = [];
+
+  hand.forEach(card => {
+    const playedValue = rankValue(card.rank);
+    tableCards.filter(item => !item.type).forEach(targetCard => {
+      const tableValue = rankValue(targetCard.rank);
+
+      if (playedValue === tableValue && validateBuild(hand, card, playedValue, tableCards, playerIndex, variant, getRules(gameState)).valid) {
+        moves.push(createMove('build', `Build ${playedValue} from ${describeCard(card)} and ${describeCard(targetCard)}`, {
+          draggedItem: handItem(card, playerIndex),
+          targetCard,
+          buildValue: playedValue,
+        }));
+      }
+
+      const sumValue = playedValue + tableValue;
+      if (sumValue <= variant.maxValue && validateBuild(hand, card, sumValue, tableCards, playerIndex, variant, getRules(gameState)).valid) {
+        moves.push(createMove('build', `Build ${sumValue} from ${describeCard(card)} and ${describeCard(targetCard)}`, {
+          draggedItem: handItem(card, playerIndex),
+          targetCard,
+          buildValue: sumValue,
+          biggerCard: playedValue > tableValue ? card : targetCard,
+          smallerCard: playedValue > tableValue ? targetCard : card,
+        }));
+      }
+    });
+  });
+
+  return moves;
+};
+
+/**
+ * Lists the base builds: a hand card laid on a smaller loose card together with other loose
+ * cards that make up the difference.
+ * @param {object} gameState - The current game state.
+ * @param {number} playerIndex - The 0-based seat.
+ * @returns {Array<object>} Base build moves.
+ */
+const listBaseBuilds = (gameState, playerIndex) => {
+  const { playerHands, tableCards } = gameState;
+  const hand = playerHands[playerIndex];
+  const looseCards = tableCards.filter(item => !item.type);
+  const variant = getVariant(gameState);
+  const moves = [];
+
+  hand.forEach(card => {
+    const buildValue = rankValue(card.rank);
+    if (!validateBuild(hand, card, buildValue, tableCards, playerIndex, variant, getRules(gameState)).valid) return;
+
+    looseCards.filter(baseCard => rankValue(baseCard.rank) < buildValue).forEach(baseCard => {
+      findBaseBuilds(card, baseCard, looseCards).forEach(combination => {
+        moves.push(createMove('baseBuild', `Build ${buildValue} on ${baseCard.rank} with ${combination.map(c => c.rank).join('+')}`, {
+          draggedItem: handItem(card, playerIndex),
+          baseCard,
+          otherCardsInBuild: combination,
+        }));
+      });
+    });
+  });
+
+  return moves;
+};
+
+/**
+ * Lists the ways to add a hand card to a build: extending an opponent's build, merging it into
+ * one's own build, or adding to one's own build.
+ * @param {object} gameState - The current game state.
+ * @param {number} playerIndex - The 0-based seat.
+ * @returns {Array<object>} Build addition moves.
+ */
+const listBuildAdditions = (gameState, playerIndex) => {
+  const { playerHands, tableCards } = gameState;
+  const hand = playerHands[playerIndex];
+  const builds = tableCards.filter(item => item.type === 'build');
+  const ownBuilds = builds.filter(b => b.owner === playerIndex);
+  const opponentBuilds = builds.filter(b => b.owner !== playerIndex);
+  const variant = getVariant(gameState);
+  const moves = [];
+
+  hand.forEach(card => {
+    const draggedItem = handItem(card, playerIndex);
+
+    opponentBuilds.forEach(build => {
+      if (validateAddToOpponentBuild(build, card, hand, tableCards, playerIndex, variant, getRules(gameState)).valid) {
+        moves.push(createMove('addToOpponentBuild', `Add ${describeCard(card)} to the build of ${build.value}`, {
+          draggedItem,
+          buildToAddTo: build,
+        }));
+      }
+      ownBuilds.forEach(ownBuild => {
+        if (validateExtendToMerge(ownBuild, build, card).valid) {
+          moves.push(createMove('extendToMerge', `Add ${describeCard(card)} to the build of ${build.value} and merge it into yours`, {
+            draggedItem,
+            opponentBuild: build,
+            ownBuild,
+          }));
+        }
+      });
+    });
+
+    ownBuilds.forEach(build => {
+      if (validateAddToOwnBuild(build, card, hand, variant).valid) {
+        moves.push(createMove('addToOwnBuild', `Add ${describeCard(card)} to your build of ${build.value}`, {
+          draggedItem,
+          buildToAddTo: build,
+        }));
+      }
+    });
+  });
+
+  return moves;
+};
+
+/**
+ * Lists the ways a player can resolve their staging stack.
+ * @param {object} gameState - The current game state.
+ * @param {number} playerIndex - The 0-based seat.
+ * @param {object} stack - The player's staging stack.
+ * @returns {Array<object>} Staging outcome moves, cancelling the stack included.
+ */
+const listStagingOutcomes = (gameState, playerIndex, stack) => {
+  const { playerHands, tableCards, round } = gameState;
+  const hand = playerHands[playerIndex];
+  const otherTableCards = tableCards.filter(item => item !== stack);
+  const stackCards = stack.cards.map(({ source, ...card }) => card);
+  const handCards = stack.cards.filter(c => c.source === 'hand');
+  const variant = getVariant(gameState);
+  const capturesStack = (card, cards) => getCaptureValues(card, variant).some(value => canPartitionIntoSums(cards, value))
+    && validateCaptureWithOwnBuild(hand, card, [stack], tableCards, playerIndex, variant).valid;
+  const moves = [createMove('cancelStagingStack', 'Cancel the stack', { stack })];
+
+  // A single staged hand card is a round 2 trail waiting to be confirmed
+  if (stack.cards.length === 1 && handCards.length === 1) {
+    if (validateTrail(otherTableCards, handCards[0], playerIndex, round, getRules(gameState)).valid) {
+      moves.push(createMove('finalizeTrail', `Trail ${describeCard(handCards[0])}`, { stack }));
+    }
+    return moves;
+  }
+
+  // Capture the stack with the hand card inside it, or with a card still in hand
+  if (handCards.length === 1) {
+    const capturingCard = handCards[0];
+    const capturedCards = stackCards.filter(c => c.rank !== capturingCard.rank || c.suit !== capturingCard.suit);
+    if (capturedCards.length > 0 && capturesStack(capturingCard, capturedCards)) {
+      moves.push(createMove('capture', `Capture the stack with ${describeCard(capturingCard)}`, {
+        draggedItem: handItem(capturingCard, playerIndex),
+        selectedTableCards: [stack],
+      }));
+    }
+  }
+  if (handCards.length === 0) {
+    hand.forEach(card => {
+      if (capturesStack(card, stackCards)) {
+        moves.push(createMove('capture', `Capture the stack with ${describeCard(card)}`, {
+          draggedItem: handItem(card, playerIndex),
+          selectedTableCards: [stack],
+        }));
+      }
+    });
+  }
+
+  findPossibleBuildsFromStack(stack, hand, tableCards, playerIndex, variant, getRules(gameState)).forEach(buildValue => {
+    moves.push(createMove('createBuildWithValue', `Create a Build of ${buildValue}`, { stack, buildValue }));
+  });
+
+  tableCards.filter(item => item.type === 'build').forEach(build => {
+    if (build.owner === playerIndex) {
+      if (validateMergeIntoOwnBuild(stack, build, playerIndex).valid) {
+        moves.push(createMove('mergeIntoOwnBuild', `Merge the stack into your build of ${build.value}`, { stack, targetBuild: build }));
+      }
+    } else if (validateReinforceOpponentBuildWithStack(stack, build, playerIndex).valid) {
+      moves.push(createMove('reinforceOpponentBuild', `Add the stack to the build of ${build.value}`, { stack, targetBuild: build }));
+    }
+  });
+
+  return moves;
+};
+
+/**
+ * Enumerates every legal action for a seat.
+ * A player with a staging stack must resolve it first, so only its outcomes are listed then.
+ * @param {object} gameState - The current game state.
+ * @param {number} playerIndex - The 0-based seat.
+ * @returns {Array<object>} Action options ({ type, label, payload }); empty when it is not the
+ *   seat's turn or the game is over.
+ */
+export const generateLegalMoves = (gameState, playerIndex) => {
+  if (gameState.gameOver || gameState.currentPlayer !== playerIndex) {
+    return [];
+  }
+
+  const ownStack = gameState.tableCards.find(item => item.type === 'temporary_stack' && item.owner === playerIndex);
+  if (ownStack) {
+    return listStagingOutcomes(gameState, playerIndex, ownStack);
+  }
+
+  return [
+    ...listTrails(gameState, playerIndex),
+    ...listCaptures(gameState, playerIndex),
+    ...listBuilds(gameState, playerIndex),
+    ...listBaseBuilds(gameState, playerIndex),
+    ...listBuildAdditions(gameState, playerIndex),
+  ];
+};
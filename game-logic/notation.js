@@ -0,0 +1,550 @@
+/**
+ * Game Notation Module
+ * A compact text notation for casino games: tags naming the seed of the deal (and, when they
+ * differ from a two-player game of Casino, the number of players, partnerships and the variant,
+ * e.g. [Players "4"] [Partnerships "Yes"] [Variant "Royal"]; the house rules that differ from the
+ * defaults, e.g. [Rules "sweep=1 oneBuildPerPlayer=no"]; for later deals of a match, the
+ * player who moves first, e.g. [First "P2"]), the hands it deals, then one line per turn such as "3. P1 C 5♥ x 2♣+3♦". A game is written from its action log and
+ * read back into a log of validated actions, so it can be shared, attached to a bug report and
+ * replayed.
+ *
+ * Moves:
+ *   T 7♠                trail (in round 2 the card is staged first and confirmed with OK)
+ *   C 5♥ x 2♣+3♦        capture; targets are loose cards, builds (B8) or one's staging stack (S)
+ *   B8 6♣ on 2♥         build from a hand card and a loose card
+ *   B9 9♣ on 3♥+6♦      base build: the hand card on a base card and the cards making up the difference
+ *   A 2♣ on B8          add a hand card to a build
+ *   A 2♣ on B8 into B10 add a hand card to an opponent's build and merge it into one's own
+ *   S 5♥ on 3♦          start a staging stack; "S 2♣" adds a hand card, "S 4♦ from P2" borrows
+ *                       the top card of an opponent's captures
+ *   B8 S, S into B8, S on B8
+ *                       turn the staging stack into a build, merge it into one's own build or
+ *                       into an opponent's build
+ *   OK, X               confirm a staged trail, cancel the staging stack
+ *
+ * Builds are written B<value>, or B<value>:<player> when two builds share a value. Suits may be
+ * written as letters (7S, 10D) when reading.
+ */
+
+import { rankValue, getCardId } from './card-operations.js';
+import { initializeGame, areOpponents, MIN_SEATS, MAX_SEATS } from './game-state.js';
+import { VARIANTS } from './variants.js';
+import { DEFAULT_RULES, listChangedRules } from './rules.js';
+import { generateLegalMoves } from './move-generator.js';
+import { createActionLog, appendAction } from './action-log.js';
+import {
+  handleTrail,
+  handleCapture,
+  handleBuild,
+  handleBaseBuild,
+  handleAddToOpponentBuild,
+  handleAddToOwnBuild,
+  handleExtendToMerge,
+  handleCreateStagingStack,
+  handleAddToStagingStack,
+  handleStageOpponentCard,
+  handleStageSingleCardFromHand,
+  handleCancelStagingStack,
+  handleCreateBuildWithValue,
+  handleMergeIntoOwnBuild,
+  handleReinforceOpponentBuildWithStack,
+  handleFinalizeTrail,
+  startNextRound,
+  handleSweep,
+  endGame
+} from './game-actions.js';
+
+const SUIT_SYMBOLS = { S: '♠', H: '♥', D: '♦', C: '♣' };
+
+const describeCard = (card) => `${card.rank}${card.suit}`;
+
+const isSameCard = (a, b) => !!a && !!b && a.rank === b.rank && a.suit === b.suit;
+
+const handItem = (card, playerIndex) => ({ card, source: 'hand', player: playerIndex });
+
+/**
+ * Puts a move or a hand into the form moves are compared in: suit letters become symbols,
+ * spacing is tidied and case is ignored.
+ * @param {string} text - The text as written.
+ * @returns {string} The normalized text.
+ */
+const normalizeText = (text) => text
+  .replace(/\b(10|[2-9]|[AJQK])([SHDC])\b/gi, (_, rank, suit) => `${rank.toUpperCase()}${SUIT_SYMBOLS[suit.toUpperCase()]}`)
+  .replace(/\s*\+\s*/g, '+')
+  .replace(/\s+/g, ' ')
+  .trim()
+  .toLowerCase();
+
+/**
+ * Finds the table item a payload refers to: a build or stack by id, a loose card by rank and suit.
+ * @param {Array} tableCards - The cards, builds and stacks on the table.
+ * @param {object} ref - The item as given in a payload.
+ * @returns {number} Its position on the table, or -1.
+ */
+const findTableIndex = (tableCards, ref) => {
+  if (!ref) return -1;
+  if (ref.type === 'build') return tableCards.findIndex(item => item.type === 'build' && item.buildId === ref.buildId);
+  if (ref.type === 'temporary_stack') return tableCards.findIndex(item => item.type === 'temporary_stack' && item.stackId === ref.stackId);
+  return tableCards.findIndex(item => !item.type && isSameCard(item, ref));
+};
+
+const describeBuild = (tableCards, build) => {
+  const sharesValue = tableCards.some(item => item.type === 'build' && item.value === build.value && item.buildId !== build.buildId);
+  return sharesValue ? `B${build.value}:${build.owner + 1}` : `B${build.value}`;
+};
+
+/**
+ * Writes the table items a move refers to, in the order they lie on the table.
+ * @param {Array} tableCards - The cards, builds and stacks on the table.
+ * @param {Array} refs - The items as given in a payload.
+ * @returns {string|null} The items joined with "+", or null if one is not on the table.
+ */
+const describeTableItems = (tableCards, refs) => {
+  const indices = refs.map(ref => findTableIndex(tableCards, ref));
+  if (indices.includes(-1)) return null;
+  return indices
+    .sort((a, b) => a - b)
+    .map(index => {
+      const item = tableCards[index];
+      if (item.type === 'build') return describeBuild(tableCards, item);
+      if (item.type === 'temporary_stack') return 'S';
+      return describeCard(item);
+    })
+    .join('+');
+};
+
+/**
+ * Writes a move in notation.
+ * @param {object} gameState - The state the move is made in.
+ * @param {object} move - The action ({ type, payload }) in the game-action vocabulary.
+ * @returns {string|null} The move, or null if it has no notation (e.g. a drop whose outcome
+ *   is only known once it is applied).
+ */
+const describeMove = (gameState, { type, payload }) => {
+  const { tableCards, playerHands, currentPlayer } = gameState;
+  const card = payload && (payload.card || (payload.draggedItem && payload.draggedItem.card));
+  const buildOf = (build) => {
+    const index = findTableIndex(tableCards, build);
+    return index === -1 ? null : describeBuild(tableCards, tableCards[index]);
+  };
+
+  switch (type) {
+    case 'trail':
+      return `T ${describeCard(card)}`;
+    case 'finalizeTrail':
+      return 'OK';
+    case 'cancelStagingStack':
+      return 'X';
+    case 'capture': {
+      const targets = describeTableItems(tableCards, payload.selectedTableCards || (payload.targetCard ? [payload.targetCard] : []));
+      return targets && `C ${describeCard(card)} x ${targets}`;
+    }
+    case 'build':
+      return `B${payload.buildValue} ${describeCard(card)} on ${describeCard(payload.targetCard)}`;
+    case 'baseBuild': {
+      const others = describeTableItems(tableCards, payload.otherCardsInBuild.flat());
+      return others && `B${rankValue(card.rank)} ${describeCard(card)} on ${describeCard(payload.baseCard)}+${others}`;
+    }
+    case 'addToOpponentBuild':
+    case 'addToOwnBuild': {
+      const build = buildOf(payload.buildToAddTo);
+      return build && `A ${describeCard(card)} on ${build}`;
+    }
+    case 'extendToMerge': {
+      const opponentBuild = buildOf(payload.opponentBuild);
+      const ownBuild = buildOf(payload.ownBuild);
+      return opponentBuild && ownBuild && `A ${describeCard(card)} on ${opponentBuild} into ${ownBuild}`;
+    }
+    case 'createStagingStack':
+      return `S ${describeCard(card)} on ${describeCard(payload.targetCard)}`;
+    case 'addToStagingStack':
+      return `S ${describeCard(card)}`;
+    case 'stageOpponentCard':
+      return `S ${describeCard(card)} from P${(payload.from ?? (currentPlayer + 1) % playerHands.length) + 1}`;
+    case 'createBuildWithValue':
+      return `B${payload.buildValue} S`;
+    case 'mergeIntoOwnBuild': {
+      const build = buildOf(payload.targetBuild);
+      return build && `S into ${build}`;
+    }
+    case 'reinforceOpponentBuild': {
+      const build = buildOf(payload.targetBuild);
+      return build && `S on ${build}`;
+    }
+    default:
+      return null;
+  }
+};
+
+/**
+ * Lists every move the player to act can write: the legal moves plus the staging steps.
+ * @param {object} gameState - The current game state.
+ * @returns {Array<object>} Moves ({ type, payload }) in the game-action vocabulary.
+ */
+const listNotatedMoves = (gameState) => {
+  const { playerHands, playerCaptures, tableCards, currentPlayer } = gameState;
+  const moves = generateLegalMoves(gameState, currentPlayer);
+  if (moves.length === 0) return moves;
+
+  const hand = playerHands[currentPlayer];
+  const ownStack = tableCards.find(item => item.type === 'temporary_stack' && item.owner === currentPlayer);
+
+  if (ownStack) {
+    hand.forEach(card => {
+      moves.push({ type: 'addToStagingStack', payload: { draggedItem: handItem(card, currentPlayer), stack: ownStack } });
+    });
+    return moves;
+  }
+
+  hand.forEach(card => {
+    tableCards.filter(item => !item.type).forEach(targetCard => {
+      moves.push({ type: 'createStagingStack', payload: { draggedItem: handItem(card, currentPlayer), targetCard } });
+    });
+  });
+
+  // Only the top card of an opponent's most recent capture can be borrowed
+  playerCaptures.forEach((opponentCaps, seat) => {
+    const lastGroup = opponentCaps[opponentCaps.length - 1] || [];
+    if (lastGroup.length > 0 && areOpponents(gameState, currentPlayer, seat)) {
+      moves.push({ type: 'stageOpponentCard', payload: { card: lastGroup[lastGroup.length - 1], from: seat } });
+    }
+  });
+
+  return moves;
+};
+
+/**
+ * Applies a move from listNotatedMoves.
+ * @param {object} gameState - The current game state.
+ * @param {object} move - The move ({ type, payload }).
+ * @returns {object} The new game state; the same state if the handler refused the move.
+ */
+const applyNotatedMove = (gameState, { type, payload }) => {
+  switch (type) {
+    case 'trail':
+      // In round 2 a trailed card is staged first and only lands once confirmed
+      return gameState.round === 2
+        ? handleStageSingleCardFromHand(gameState, payload.card)
+        : handleTrail(gameState, payload.card);
+    case 'finalizeTrail':
+      return handleFinalizeTrail(gameState, payload.stack);
+    case 'cancelStagingStack':
+      return handleCancelStagingStack(gameState, payload.stack);
+    case 'capture':
+      return handleCapture(gameState, payload.draggedItem, payload.selectedTableCards);
+    case 'build':
+      return handleBuild(gameState, payload.draggedItem, [payload.targetCard], payload.buildValue, payload.biggerCard, payload.smallerCard);
+    case 'baseBuild':
+      // The handler takes the other cards grouped into combinations; a generated move has one
+      return handleBaseBuild(gameState, payload.draggedItem, payload.baseCard, [payload.otherCardsInBuild.flat()]);
+    case 'addToOpponentBuild':
+      return handleAddToOpponentBuild(gameState, payload.draggedItem, payload.buildToAddTo);
+    case 'addToOwnBuild':
+      return handleAddToOwnBuild(gameState, payload.draggedItem, payload.buildToAddTo);
+    case 'extendToMerge':
+      return handleExtendToMerge(gameState, payload.draggedItem.card, payload.opponentBuild, payload.ownBuild);
+    case 'createStagingStack':
+      return handleCreateStagingStack(gameState, payload.draggedItem.card, payload.targetCard);
+    case 'addToStagingStack':
+      return handleAddToStagingStack(gameState, payload.draggedItem.card, payload.stack);
+    case 'stageOpponentCard':
+      return handleStageOpponentCard(gameState, payload.card, payload.from);
+    case 'createBuildWithValue':
+      return handleCreateBuildWithValue(gameState, payload.stack, payload.buildValue);
+    case 'mergeIntoOwnBuild':
+      return handleMergeIntoOwnBuild(gameState, payload.stack, payload.targetBuild);
+    case 'reinforceOpponentBuild':
+      return handleReinforceOpponentBuildWithStack(gameState, payload.stack, payload.targetBuild);
+    default:
+      return gameState;
+  }
+};
+
+/**
+ * Describes a position without the ids builds and stacks are given when created, or the order
+ * cards were gathered into a build or under a captured pile's top card, so the outcome of a move
+ * can be recognized.
+ * @param {object} gameState - The game state.
+ * @returns {string} A key equal for equal positions.
+ */
+const positionKey = (gameState) => JSON.stringify([
+  gameState.currentPlayer,
+  gameState.playerHands,
+  gameState.playerCaptures.map(groups => groups.map(group => [
+    group.slice(0, -1).map(getCardId).sort(),
+    getCardId(group[group.length - 1]),
+  ])),
+  gameState.tableCards.map(({ buildId, stackId, ...item }) =>
+    item.type === 'build' ? { ...item, cards: item.cards.map(getCardId).sort() } : item
+  ),
+]);
+
+/**
+ * Recognizes a logged action whose payload cannot be written directly (a drop, or a staging
+ * stack finalized on the board) by trying the moves that play the same hand card.
+ * @param {object} gameState - The state the action was taken in.
+ * @param {object} resultingState - The state it produced.
+ * @param {Array<object>} moves - The moves available in gameState.
+ * @returns {object|null} The matching move, or null.
+ */
+const findMoveByOutcome = (gameState, resultingState, moves) => {
+  const seat = gameState.currentPlayer;
+  const stillHeld = new Set(resultingState.playerHands[seat].map(getCardId));
+  const played = gameState.playerHands[seat].filter(card => !stillHeld.has(getCardId(card)));
+  const target = positionKey(resultingState);
+
+  return moves.find(move => {
+    const card = move.payload.card || (move.payload.draggedItem && move.payload.draggedItem.card);
+    const playsSameCard = played.length === 0
+      ? !card || move.type === 'stageOpponentCard'
+      : !!card && played.some(c => isSameCard(c, card));
+    return playsSameCard && positionKey(applyNotatedMove(gameState, move)) === target;
+  }) || null;
+};
+
+const isRoundOver = (gameState) => !gameState.gameOver &&
+  gameState.playerHands.every(hand => hand.length === 0) &&
+  !gameState.tableCards.some(item => item.type === 'temporary_stack');
+
+/**
+ * Moves a played-out round on, as the server does: deals round 2, or sweeps and scores the game.
+ * @param {object} log - The action log so far.
+ * @param {object} gameState - A state whose round is over.
+ * @returns {object} { log, gameState } after the transition.
+ */
+const advanceRound = (log, gameState) => {
+  if (gameState.round === 1) {
+    const nextRoundState = startNextRound(gameState);
+    if (nextRoundState !== gameState) {
+      return { log: appendAction(log, { type: 'nextRound', seat: null }, nextRoundState), gameState: nextRoundState };
+    }
+  }
+
+  let finalState = gameState;
+  if (finalState.tableCards.length > 0 && finalState.lastCapturer !== null) {
+    finalState = handleSweep(finalState);
+  }
+  finalState = endGame(finalState);
+  return { log: appendAction(log, { type: 'endGame', seat: null }, finalState), gameState: finalState };
+};
+
+const describeHand = (hand) => hand.map(describeCard).join(' ');
+
+// House rules are written name=value, switches as yes or no and scoring weights as numbers
+const describeHouseRule = ({ name, value }) => `${name}=${value === true ? 'yes' : value === false ? 'no' : value}`;
+
+/**
+ * Reads the house rules of a [Rules "..."] tag.
+ * @param {string} text - The tag's value, e.g. "sweep=1 oneBuildPerPlayer=no".
+ * @returns {object} { valid, rules } with the rules to change from the defaults, or
+ *   { valid: false, message }.
+ */
+const parseHouseRules = (text) => {
+  const rules = { scoring: {} };
+  for (const part of text.trim().split(/\s+/).filter(Boolean)) {
+    const [name, value] = part.split('=');
+    if (typeof DEFAULT_RULES[name] === 'boolean' && /^(yes|no)$/i.test(value)) {
+      rules[name] = /^yes$/i.test(value);
+    } else if (Object.keys(DEFAULT_RULES.scoring).includes(name) && /^\d+$/.test(value)) {
+      rules.scoring[name] = Number(value);
+    } else {
+      return { valid: false, message: `"${part}" is not a house rule.` };
+    }
+  }
+  return { valid: true, rules };
+};
+
+/**
+ * Writes a game in notation.
+ * @param {object} log - The game's action log.
+ * @returns {object} { valid, notation } or { valid: false, message } when the game was not dealt
+ *   from a seed or has a step that cannot be written.
+ */
+export const writeGameNotation = (log) => {
+  if (log.seed === null || log.seed === undefined) {
+    return { valid: false, message: 'Only games dealt from a seed can be written in notation.' };
+  }
+
+  const { initialState, entries } = log;
+  const finalState = entries.length > 0 ? entries[entries.length - 1].state : initialState;
+  const lines = [`[Seed "${log.seed}"]`];
+  if (initialState.playerHands.length !== 2) {
+    lines.push(`[Players "${initialState.playerHands.length}"]`);
+  }
+  if (initialState.teams) {
+    lines.push('[Partnerships "Yes"]');
+  }
+  if (initialState.variant) {
+    lines.push(`[Variant "${initialState.variant[0].toUpperCase()}${initialState.variant.slice(1)}"]`);
+  }
+  if (initialState.rules) {
+    lines.push(`[Rules "${listChangedRules(initialState.rules).map(describeHouseRule).join(' ')}"]`);
+  }
+  if (initialState.currentPlayer !== 0) {
+    lines.push(`[First "P${initialState.currentPlayer + 1}"]`);
+  }
+  if (finalState.gameOver) {
+    lines.push(`[Result "${finalState.scores.join('-')}"]`);
+  }
+  initialState.playerHands.forEach((hand, seat) => lines.push(`Deal P${seat + 1}: ${describeHand(hand)}`));
+
+  let turn = 0;
+  let turnSeat = null;
+  let previousState = initialState;
+
+  for (const entry of entries) {
+    const gameState = previousState;
+    previousState = entry.state;
+
+    // Dealing round 2 and scoring the game are not moves
+    if (entry.state.round !== gameState.round) {
+      lines.push(`Round ${entry.state.round}`);
+      turnSeat = null;
+      continue;
+    }
+    if (entry.state.gameOver) continue;
+
+    const moves = listNotatedMoves(gameState);
+    const written = moves.map(move => describeMove(gameState, move));
+    let text = describeMove(gameState, entry);
+    if (!text || !written.includes(text)) {
+      const move = findMoveByOutcome(gameState, entry.state, moves);
+      if (!move) {
+        return { valid: false, message: `Step ${entry.index + 1} (${entry.type}) cannot be written in notation.` };
+      }
+      text = describeMove(gameState, move);
+    }
+
+    // A player's consecutive actions share a turn line
+    if (turnSeat === gameState.currentPlayer) {
+      lines[lines.length - 1] += `; ${text}`;
+    } else {
+      turnSeat = gameState.currentPlayer;
+      lines.push(`${++turn}. P${turnSeat + 1} ${text}`);
+    }
+  }
+
+  return { valid: true, notation: `${lines.join('\n')}\n` };
+};
+
+/**
+ * Reads a game written in notation, checking every move against the rules.
+ * @param {string} text - The game in notation.
+ * @returns {object} { valid, actionLog } with the game as an action log ready for the replay
+ *   viewer, or { valid: false, message } naming the first line that could not be read.
+ */
+export const readGameNotation = (text) => {
+  let log = null;
+  let gameState = null;
+  let result = null;
+  let dealOptions = {};
+
+  const fail = (lineNumber, message) => ({ valid: false, message: `Line ${lineNumber}: ${message}` });
+  const finishRound = () => {
+    if (isRoundOver(gameState)) {
+      ({ log, gameState } = advanceRound(log, gameState));
+    }
+  };
+
+  const lines = text.split(/\r?\n/);
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i].trim();
+    const lineNumber = i + 1;
+    if (!line || line.startsWith('#')) continue;
+
+    const tag = line.match(/^\[(\w+)\s+"([^"]*)"\]$/);
+    if (tag) {
+      if (tag[1].toLowerCase() === 'seed') {
+        if (log) return fail(lineNumber, 'The game already has a seed.');
+        gameState = initializeGame(tag[2]);
+        log = createActionLog(gameState);
+      } else if (['players', 'partnerships', 'variant', 'rules'].includes(tag[1].toLowerCase())) {
+        if (!log || log.entries.length > 0 || gameState.currentPlayer !== 0) {
+          return fail(lineNumber, `The ${tag[1].toLowerCase()} must be given right after the seed.`);
+        }
+        if (tag[1].toLowerCase() === 'variant') {
+          const variant = tag[2].toLowerCase();
+          if (!VARIANTS[variant]) {
+            return fail(lineNumber, `"${tag[2]}" is not a variant.`);
+          }
+          dealOptions = { ...dealOptions, variant };
+        } else if (tag[1].toLowerCase() === 'rules') {
+          const houseRules = parseHouseRules(tag[2]);
+          if (!houseRules.valid) {
+            return fail(lineNumber, houseRules.message);
+          }
+          dealOptions = { ...dealOptions, rules: houseRules.rules };
+        } else if (tag[1].toLowerCase() === 'players') {
+          const seatCount = Number(tag[2]);
+          if (!Number.isInteger(seatCount) || seatCount < MIN_SEATS || seatCount > MAX_SEATS) {
+            return fail(lineNumber, `A game has ${MIN_SEATS} to ${MAX_SEATS} players, not "${tag[2]}".`);
+          }
+          dealOptions = { ...dealOptions, seatCount };
+        } else {
+          dealOptions = { ...dealOptions, partnerships: /^yes$/i.test(tag[2]) };
+        }
+        // Deal the seed again for these players and rules
+        gameState = initializeGame(log.seed, dealOptions);
+        log = createActionLog(gameState);
+      } else if (tag[1].toLowerCase() === 'first') {
+        const first = tag[2].match(/^P(\d+)$/i);
+        if (!log || log.entries.length > 0) return fail(lineNumber, 'The first player must be named right after the seed.');
+        if (!first || !gameState.playerHands[Number(first[1]) - 1]) return fail(lineNumber, `"${tag[2]}" is not a player.`);
+        gameState = { ...gameState, currentPlayer: Number(first[1]) - 1 };
+        log = createActionLog(gameState);
+      } else if (tag[1].toLowerCase() === 'result') {
+        result = tag[2];
+      }
+      continue;
+    }
+
+    if (!log) return fail(lineNumber, 'The game must start with a [Seed "..."] tag.');
+
+    const deal = line.match(/^Deal P(\d+):(.*)$/i);
+    if (deal) {
+      const hand = log.initialState.playerHands[Number(deal[1]) - 1];
+      if (!hand || normalizeText(deal[2]) !== normalizeText(describeHand(hand))) {
+        return fail(lineNumber, `The seed does not deal this hand to Player ${deal[1]}.`);
+      }
+      continue;
+    }
+
+    const round = line.match(/^Round (\d+)$/i);
+    if (round) {
+      finishRound();
+      if (gameState.round !== Number(round[1])) {
+        return fail(lineNumber, `Round ${round[1]} cannot start yet: cards are still to be played in round ${gameState.round}.`);
+      }
+      continue;
+    }
+
+    const turn = line.match(/^\d+\.\s*P(\d+)\s+(.+)$/i);
+    if (!turn) return fail(lineNumber, `"${line}" is not a tag, deal, round or turn.`);
+
+    const seat = Number(turn[1]) - 1;
+    for (const moveText of turn[2].split(';')) {
+      finishRound();
+      if (gameState.gameOver) return fail(lineNumber, 'The game is already over.');
+      if (seat !== gameState.currentPlayer) {
+        return fail(lineNumber, `It is Player ${gameState.currentPlayer + 1}'s turn, not Player ${seat + 1}'s.`);
+      }
+
+      const wanted = normalizeText(moveText);
+      const move = listNotatedMoves(gameState).find(m => normalizeText(describeMove(gameState, m) || '') === wanted);
+      if (!move) return fail(lineNumber, `"${moveText.trim()}" is not a legal move here.`);
+
+      const nextState = applyNotatedMove(gameState, move);
+      if (nextState === gameState) return fail(lineNumber, `"${moveText.trim()}" could not be made.`);
+      log = appendAction(log, { type: move.type, seat, payload: move.payload }, nextState);
+      gameState = nextState;
+    }
+  }
+
+  if (!log) return { valid: false, message: 'The game must start with a [Seed "..."] tag.' };
+  finishRound();
+
+  if (result !== null && gameState.gameOver && normalizeText(result) !== gameState.scores.join('-')) {
+    return { valid: false, message: `The moves score ${gameState.scores.join('-')}, not ${result}.` };
+  }
+  return { valid: true, actionLog: log };
+};
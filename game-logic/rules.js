@@ -0,0 +1,79 @@
+/**
+ * House Rules Module
+ * The rules a game is set up with on top of its variant: which build and trail restrictions
+ * apply and how many points each scoring category is worth
+ */
+
+export const DEFAULT_RULES = {
+  oneBuildPerPlayer: true, // A player may own only one build at a time
+  noTrailWithBuild: true, // A player who owns a build may not trail
+  noMatchingOpponentBuild: true, // A build may not take the value of an opponent's build
+  scoring: {
+    mostCards: 2, // Split between the sides tied for the most
+    mostSpades: 2,
+    aces: 1, // For each ace
+    bigCasino: 2, // 10♦
+    littleCasino: 1, // 2♠
+    sweep: 0, // For each capture that clears the table, the last play of the deal aside
+  },
+};
+
+// How a game over screen or a shared game describes each rule that departs from the defaults
+const RULE_DESCRIPTIONS = {
+  oneBuildPerPlayer: { false: 'Players may own several builds' },
+  noTrailWithBuild: { false: 'Players may trail while owning a build' },
+  noMatchingOpponentBuild: { false: "Builds may match an opponent's build" },
+};
+
+const SCORING_LABELS = {
+  mostCards: 'Most cards',
+  mostSpades: 'Most spades',
+  aces: 'Each ace',
+  bigCasino: 'Big Casino',
+  littleCasino: 'Little Casino',
+  sweep: 'Each sweep',
+};
+
+/**
+ * Fills in the house rules left out of a set of choices with the defaults.
+ * @param {object} [choices] - Rules to change, e.g. { noTrailWithBuild: false, scoring: { sweep: 1 } }.
+ * @returns {object} A complete set of house rules.
+ */
+export const createRules = (choices = {}) => ({
+  ...DEFAULT_RULES,
+  ...choices,
+  scoring: { ...DEFAULT_RULES.scoring, ...(choices.scoring || {}) },
+});
+
+/**
+ * Looks up the house rules a game is played with.
+ * @param {object} [gameState] - The game state; games set up without house rules play the defaults.
+ * @returns {object} The house rules.
+ */
+export const getRules = (gameState) => (gameState && gameState.rules) || DEFAULT_RULES;
+
+/**
+ * Lists the rules that depart from the defaults.
+ * @param {object} rules - A complete set of house rules.
+ * @returns {Array<object>} { name, value } for every changed rule; scoring weights go by the
+ *   name of their category.
+ */
+export const listChangedRules = (rules) => [
+  ...Object.keys(RULE_DESCRIPTIONS)
+    .filter(name => rules[name] !== DEFAULT_RULES[name])
+    .map(name => ({ name, value: rules[name] })),
+  ...Object.keys(SCORING_LABELS)
+    .filter(name => rules.scoring[name] !== DEFAULT_RULES.scoring[name])
+    .map(name => ({ name, value: rules.scoring[name] })),
+];
+
+/**
+ * Describes the rules that depart from the defaults, e.g. "Each sweep: 1 pt".
+ * @param {object} rules - A complete set of house rules.
+ * @returns {Array<string>} One line for every changed rule.
+ */
+export const describeHouseRules = (rules) => listChangedRules(rules).map(({ name, value }) => (
+  RULE_DESCRIPTIONS[name]
+    ? RULE_DESCRIPTIONS[name][value]
+    : `${SCORING_LABELS[name]}: ${value} ${value === 1 ? 'pt' : 'pts'}`
+));
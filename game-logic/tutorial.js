@@ -0,0 +1,308 @@
+/**
+ * Tutorial Module
+ * Scripted lessons with fixed deals that walk a new player through every casino mechanic,
+ * and the helpers that check the player made the move each lesson asks for
+ */
+
+import { rankValue, getCardId } from './card-operations.js';
+import { generateLegalMoves } from './move-generator.js';
+import {
+  handleTrail,
+  handleCapture,
+  handleBuild,
+  handleBaseBuild,
+  handleAddToOpponentBuild,
+  handleCreateStagingStack,
+  handleCreateBuildWithValue,
+  handleCancelStagingStack,
+  handleSweep,
+  endGame
+} from './game-actions.js';
+
+// The learner always plays the first seat
+export const TUTORIAL_SEAT = 0;
+
+/**
+ * Builds a card from its short name, e.g. '10♦'.
+ * @param {string} name - Rank followed by suit.
+ * @returns {object} The card.
+ */
+const card = (name) => {
+  const rank = name.slice(0, -1);
+  return { rank, suit: name.slice(-1), value: rankValue(rank) };
+};
+
+const cards = (names) => names.map(card);
+
+/**
+ * Every lesson in order. Each has a fixed deal and one or more steps; a step names the move
+ * the player must make: its type, the hand card played (card), the table item it lands on
+ * (target: a card name, 'build' or 'stack') and, for builds, the value.
+ */
+export const TUTORIAL_LESSONS = [
+  {
+    id: 'trail',
+    title: 'Trailing',
+    introduction: 'When nothing on the table is worth taking, you trail: lay one card from your hand face up on the table. Trailing ends your turn.',
+    deal: { hand: ['3♣', '7♥'], opponentHand: ['5♦', '6♠'], table: ['9♣', '8♦'] },
+    steps: [
+      { prompt: 'Drag your 3♣ onto an empty part of the table.', move: { type: 'trail', card: '3♣' } },
+    ],
+    summary: 'Trailed cards stay on the table for either player to take later.',
+  },
+  {
+    id: 'capture',
+    title: 'Capturing',
+    introduction: 'Play a card onto a table card of the same value to capture it. Captured cards score at the end of the game.',
+    deal: { hand: ['5♠', '8♣'], opponentHand: ['4♦', '6♥'], table: ['5♥', '2♣', '9♦'] },
+    steps: [
+      { prompt: 'Drag your 5♠ onto the 5♥.', move: { type: 'capture', card: '5♠', target: '5♥' } },
+    ],
+    summary: 'Spades, aces, the 2♠ and the 10♦ are worth the most, so look out for them.',
+  },
+  {
+    id: 'capture-sum',
+    title: 'Capturing sums',
+    introduction: 'A card also captures any group of table cards that adds up to its value: a 9 takes a 2 and a 7 together.',
+    deal: { hand: ['9♦', '4♠'], opponentHand: ['3♥', '10♣'], table: ['2♣', '7♣', '5♥'] },
+    steps: [
+      { prompt: 'Drag your 9♦ onto the 7♣ to take the 7♣ and the 2♣ together.', move: { type: 'capture', card: '9♦', target: '7♣' } },
+    ],
+    summary: 'The more cards you take in one go, the better your chance of winning the most cards.',
+  },
+  {
+    id: 'build',
+    title: 'Building',
+    introduction: 'A build combines a hand card with table cards into a value you can capture next turn. You must hold a card of that value.',
+    deal: { hand: ['3♦', '8♠', '2♥'], opponentHand: ['A♣', '6♦', '10♥'], table: ['5♣', '9♥'] },
+    steps: [
+      { prompt: 'You hold the 8♠. Drag your 3♦ onto the 5♣ to build 8.', move: { type: 'build', card: '3♦', target: '5♣', buildValue: 8 } },
+    ],
+    summary: 'The build is yours. Unless your opponent takes or changes it, capture it with the 8♠ next turn.',
+  },
+  {
+    id: 'base-build',
+    title: 'Building on a base',
+    introduction: 'A build can hold several groups of the same value. Laying a 9 on a 6 and a 3 makes a build of 9 that is captured all at once.',
+    deal: { hand: ['9♣', '9♥', '4♦'], opponentHand: ['2♠', '7♦', '8♥'], table: ['6♦', '3♥', '7♠'] },
+    steps: [
+      { prompt: 'You hold another 9. Drag your 9♣ onto the 6♦ to build 9 with the 6♦ and the 3♥.', move: { type: 'baseBuild', card: '9♣', target: '6♦' } },
+    ],
+    summary: 'Your second 9 will capture the whole build, all three cards at once.',
+  },
+  {
+    id: 'opponent-build',
+    title: "Adding to an opponent's build",
+    introduction: "You can raise your opponent's build with a card from your hand, as long as you hold a card of the new value. The build becomes yours.",
+    deal: {
+      hand: ['3♠', '9♦', '5♣'],
+      opponentHand: ['6♥', 'A♦'],
+      table: ['8♥'],
+      opponentBuild: { cards: ['4♣', '2♦'], value: 6 },
+    },
+    steps: [
+      { prompt: "Your opponent built 6. You hold the 9♦, so drag your 3♠ onto their build to raise it to 9.", move: { type: 'addToOpponentBuild', card: '3♠', target: 'build' } },
+    ],
+    summary: 'Their 6♥ can no longer take the build, and your 9♦ can.',
+  },
+  {
+    id: 'staging',
+    title: 'Staging stacks',
+    introduction: 'Dropping a hand card on a table card can also start a staging stack: the cards are grouped but nothing is decided until you confirm it. Your turn continues.',
+    deal: { hand: ['4♠', '8♣', '7♥'], opponentHand: ['3♦', '10♠'], table: ['4♦', '10♣'] },
+    steps: [
+      { prompt: 'Drag your 4♠ onto the 4♦ and choose to stage the cards.', move: { type: 'createStagingStack', card: '4♠', target: '4♦' } },
+      { prompt: 'Press ✓ on the stack. You hold the 8♣, so choose to build 8.', move: { type: 'createBuildWithValue', target: 'stack', buildValue: 8 } },
+    ],
+    summary: 'A staging stack lets you gather cards first and decide afterwards whether to capture or build. ✕ takes the cards back.',
+  },
+  {
+    id: 'sweep',
+    title: 'The last capture',
+    introduction: 'When the last card of the game is played, whoever captured last also takes every card left on the table.',
+    deal: { hand: ['10♣'], opponentHand: [], table: ['10♥', '3♦', '6♠'], round: 2, lastCapturer: 1 },
+    steps: [
+      { prompt: 'This is the last card of the game. Drag your 10♣ onto the 10♥.', move: { type: 'capture', card: '10♣', target: '10♥' } },
+    ],
+    summary: 'Your capture was the last one, so you also took the 3♦ and 6♠ that nobody could take.',
+  },
+];
+
+/**
+ * Deals a lesson's fixed cards.
+ * @param {object} lesson - A tutorial lesson.
+ * @returns {object} The game state the lesson starts from.
+ */
+export const createLessonState = (lesson) => {
+  const { deal } = lesson;
+  const opponentSeat = 1 - TUTORIAL_SEAT;
+  const tableCards = cards(deal.table);
+  if (deal.opponentBuild) {
+    tableCards.unshift({
+      buildId: 'tutorial-build',
+      type: 'build',
+      cards: cards(deal.opponentBuild.cards),
+      value: deal.opponentBuild.value,
+      owner: opponentSeat,
+      isExtendable: true,
+    });
+  }
+
+  const playerHands = [];
+  playerHands[TUTORIAL_SEAT] = cards(deal.hand);
+  playerHands[opponentSeat] = cards(deal.opponentHand);
+
+  return {
+    deck: [],
+    playerHands,
+    tableCards,
+    playerCaptures: [[], []],
+    currentPlayer: TUTORIAL_SEAT,
+    round: deal.round || 1,
+    scores: [0, 0],
+    gameOver: false,
+    winner: null,
+    lastCapturer: deal.lastCapturer ?? null,
+    scoreDetails: null,
+  };
+};
+
+/**
+ * Finds the hand card a move plays, if any.
+ * @param {object} move - A legal move.
+ * @returns {object|null} The card.
+ */
+const findPlayedCard = (move) => {
+  const { payload } = move;
+  if (payload.draggedItem) return payload.draggedItem.card;
+  if (payload.card) return payload.card;
+  return null;
+};
+
+/**
+ * Lists the table items a move lands on.
+ * @param {object} move - A legal move.
+ * @returns {Array} Loose cards, builds and staging stacks.
+ */
+const findTargets = (move) => {
+  const { payload } = move;
+  if (payload.selectedTableCards) return payload.selectedTableCards;
+  if (payload.baseCard) return [payload.baseCard, ...payload.otherCardsInBuild.flat()];
+  if (payload.targetCard) return [payload.targetCard];
+  if (payload.buildToAddTo) return [payload.buildToAddTo];
+  if (payload.stack) return [payload.stack];
+  return [];
+};
+
+const isSameItem = (a, b) => {
+  if (a.type === 'build') return b.type === 'build' && a.buildId === b.buildId;
+  if (a.type === 'temporary_stack') return b.type === 'temporary_stack' && a.stackId === b.stackId;
+  return !b.type && getCardId(a) === getCardId(b);
+};
+
+/**
+ * Lists the legal moves made by dropping a hand card on a table item, or on an empty part of
+ * the table when no target is given. Pressing ✓ on a staging stack passes no card.
+ * @param {object} gameState - The current game state.
+ * @param {object|null} handCard - The card dropped, or null when confirming a staging stack.
+ * @param {object|null} target - The loose card, build or staging stack dropped on.
+ * @param {boolean} allowStaging - Whether a drop on a loose card may start a staging stack.
+ * @returns {Array<object>} Action options ({ type, label, payload }).
+ */
+export const listDropMoves = (gameState, handCard, target, allowStaging = false) => {
+  const moves = generateLegalMoves(gameState, TUTORIAL_SEAT).filter(move => {
+    const playedCard = findPlayedCard(move);
+    if (handCard && (!playedCard || getCardId(playedCard) !== getCardId(handCard))) return false;
+    if (!target) return move.type === 'trail';
+    // A base build lands on its base card, not on the cards gathered with it
+    if (move.type === 'baseBuild') return isSameItem(move.payload.baseCard, target);
+    return findTargets(move).some(item => isSameItem(item, target));
+  });
+
+  const ownStack = gameState.tableCards.some(item => item.type === 'temporary_stack' && item.owner === TUTORIAL_SEAT);
+  if (allowStaging && handCard && target && !target.type && !ownStack && gameState.currentPlayer === TUTORIAL_SEAT) {
+    moves.push({
+      type: 'createStagingStack',
+      label: `Stage ${handCard.rank}${handCard.suit} with ${target.rank}${target.suit}`,
+      payload: { draggedItem: { card: handCard, source: 'hand', player: TUTORIAL_SEAT }, targetCard: target },
+    });
+  }
+  return moves;
+};
+
+/**
+ * Checks whether a move is the one a lesson step asks for.
+ * @param {object} step - A lesson step.
+ * @param {object} move - The move the player made.
+ * @returns {boolean} True if the move matches the step.
+ */
+export const isExpectedMove = (step, move) => {
+  const expected = step.move;
+  if (move.type !== expected.type) return false;
+
+  if (expected.card) {
+    const playedCard = findPlayedCard(move);
+    if (!playedCard || getCardId(playedCard) !== getCardId(card(expected.card))) return false;
+  }
+
+  if (expected.target) {
+    const targets = findTargets(move);
+    const matchesTarget = expected.target === 'build'
+      ? targets.some(item => item.type === 'build')
+      : expected.target === 'stack'
+        ? targets.some(item => item.type === 'temporary_stack')
+        : targets.some(item => !item.type && getCardId(item) === getCardId(card(expected.target)));
+    if (!matchesTarget) return false;
+  }
+
+  return expected.buildValue === undefined || move.payload.buildValue === expected.buildValue;
+};
+
+/**
+ * Plays a move in a lesson. Once every card has been played the table is swept to the last
+ * capturer and the game is scored, as at the end of a real game.
+ * @param {object} gameState - The current game state.
+ * @param {object} move - A move from listDropMoves.
+ * @returns {object} The new game state.
+ */
+export const applyTutorialMove = (gameState, move) => {
+  const { payload } = move;
+  let nextState;
+
+  switch (move.type) {
+    case 'trail':
+      nextState = handleTrail(gameState, payload.card);
+      break;
+    case 'capture':
+      nextState = handleCapture(gameState, payload.draggedItem, payload.selectedTableCards);
+      break;
+    case 'build':
+      nextState = handleBuild(gameState, payload.draggedItem, [payload.targetCard], payload.buildValue, payload.biggerCard, payload.smallerCard);
+      break;
+    case 'baseBuild':
+      // The handler takes the other cards grouped into combinations; a generated move has one
+      nextState = handleBaseBuild(gameState, payload.draggedItem, payload.baseCard, [payload.otherCardsInBuild.flat()]);
+      break;
+    case 'addToOpponentBuild':
+      nextState = handleAddToOpponentBuild(gameState, payload.draggedItem, payload.buildToAddTo);
+      break;
+    case 'createStagingStack':
+      nextState = handleCreateStagingStack(gameState, payload.draggedItem.card, payload.targetCard);
+      break;
+    case 'createBuildWithValue':
+      nextState = handleCreateBuildWithValue(gameState, payload.stack, payload.buildValue);
+      break;
+    case 'cancelStagingStack':
+      nextState = handleCancelStagingStack(gameState, payload.stack);
+      break;
+    default:
+      console.warn(`Tutorial cannot apply move: ${move.type}`);
+      return gameState;
+  }
+
+  const allCardsPlayed = nextState.deck.length === 0 && nextState.playerHands.every(hand => hand.length === 0);
+  if (allCardsPlayed && !nextState.gameOver) {
+    return endGame(handleSweep(nextState));
+  }
+  return nextState;
+};
@@ -3,7 +3,9 @@
  * Contains all validation logic for game moves and state
  */
 
-import { rankValue, calculateCardSum, isValidBuildType } from './card-operations.js';
+import { rankValue, getCaptureValues, canCaptureValue, calculateCardSum, isValidBuildType } from './card-operations.js';
+import { getVariant } from './variants.js';
+import { DEFAULT_RULES } from './rules.js';
 import { canPartitionIntoSums } from './algorithms.js';
 
 /**
@@ -21,6 +23,19 @@ const hasActiveBuild = (tableCards, playerIndex) => {
   );
 };
 
+/**
+ * Helper function to check if a player owns a build of the given value.
+ * Where players may own several builds, a second build of the same value must be added to the
+ * first instead, so every build can be told apart by its value and owner.
+ * @param {Array} tableCards - The cards on the table.
+ * @param {number} playerIndex - The index of the player to check.
+ * @param {number} value - The build value.
+ * @returns {boolean} True if the player owns a build of that value.
+ */
+const ownsBuildOfValue = (tableCards, playerIndex, value) => {
+  return tableCards.some(item => item.type === 'build' && item.owner === playerIndex && item.value === value);
+};
+
 /**
  * Validates if a build can be created with the given parameters.
  * @param {Array} playerHand - The current player's hand.
@@ -28,22 +43,27 @@ const hasActiveBuild = (tableCards, playerIndex) => {
  * @param {number} buildValue - The target value of the build.
  * @param {Array} tableCards - The cards on the table.
  * @param {number} currentPlayer - The index of the current player.
+ * @param {object} [variant] - The game's variant (see ./variants).
+ * @param {object} [rules] - The game's house rules (see ./rules).
  * @returns {boolean} True if the build is valid.
  */
-export const validateBuild = (playerHand, playerCard, buildValue, tableCards, playerIndex) => {
+export const validateBuild = (playerHand, playerCard, buildValue, tableCards, playerIndex, variant = getVariant(), rules = DEFAULT_RULES) => {
   // Check if player already owns an active (permanent) build
   // This excludes temporary stacks which should not count toward the build limit
   // Use playerIndex (0-based) for array access and ownership checks
-  if (hasActiveBuild(tableCards, playerIndex)) {
+  if (rules.oneBuildPerPlayer && hasActiveBuild(tableCards, playerIndex)) {
     return {
       valid: false,
       message: "You can only have one active build at a time. Use temp builds for card manipulation."
     };
   }
+  if (ownsBuildOfValue(tableCards, playerIndex, buildValue)) {
+    return { valid: false, message: `You already have a build of ${buildValue}. Add to it instead.` };
+  }
 
   // Check if player has a card to capture this build later
   const canCaptureBuild = playerHand.some(
-    c => rankValue(c.rank) === buildValue &&
+    c => canCaptureValue(c, buildValue, variant) &&
         (c.rank !== playerCard.rank || c.suit !== playerCard.suit)
   );
 
@@ -55,7 +75,7 @@ export const validateBuild = (playerHand, playerCard, buildValue, tableCards, pl
   }
 
   // Check if opponent already has a build of the same value
-  const opponentHasSameBuild = tableCards.some(
+  const opponentHasSameBuild = rules.noMatchingOpponentBuild && tableCards.some(
     item => item.type === 'build' &&
            item.owner !== playerIndex &&
            item.value === buildValue
@@ -84,9 +104,10 @@ export const validateBuild = (playerHand, playerCard, buildValue, tableCards, pl
  * Validates if a complex capture is valid.
  * @param {Array} stagedCards - The cards staged for capture.
  * @param {object} captureCard - The card used to capture.
+ * @param {object} [variant] - The game's variant (see ./variants).
  * @returns {object} Validation result with valid flag and message.
  */
-export const validateComplexCapture = (stagedCards, captureCard) => {
+export const validateComplexCapture = (stagedCards, captureCard, variant = getVariant()) => {
   // All cards must be from the table
   const allFromTable = stagedCards.every(c => c.source === 'table');
   if (!allFromTable) {
@@ -97,12 +118,46 @@ export const validateComplexCapture = (stagedCards, captureCard) => {
   }
 
   const totalValue = calculateCardSum(stagedCards);
-  const captureValue = rankValue(captureCard.rank);
 
-  if (totalValue !== captureValue) {
+  if (!canCaptureValue(captureCard, totalValue, variant)) {
+    return {
+      valid: false,
+      message: `Capture value (${getCaptureValues(captureCard, variant).join(' or ')}) does not match staged cards total (${totalValue}).`
+    };
+  }
+
+  return { valid: true };
+};
+
+/**
+ * Validates a capture made from the hand while the player owns a build.
+ * Cards that group into the build's value are added to the build instead of captured
+ * (see handleCapture), so the player must keep a card that can still capture the build.
+ * @param {Array} playerHand - The current player's hand.
+ * @param {object} handCard - The card played from the hand.
+ * @param {Array} selectedTableCards - The table items selected for the capture.
+ * @param {Array} tableCards - The cards on the table.
+ * @param {number} playerIndex - The 0-based index of the current player.
+ * @param {object} [variant] - The game's variant (see ./variants).
+ * @returns {object} Validation result with valid flag and message.
+ */
+export const validateCaptureWithOwnBuild = (playerHand, handCard, selectedTableCards, tableCards, playerIndex, variant = getVariant()) => {
+  const ownBuild = tableCards.find(item => item.type === 'build' && item.owner === playerIndex);
+  if (!ownBuild || selectedTableCards.some(item => item.type === 'build')) {
+    return { valid: true };
+  }
+
+  const stackCards = [handCard, ...selectedTableCards.flatMap(item => item.cards || [item])];
+  if (!canPartitionIntoSums(stackCards, ownBuild.value)) {
+    return { valid: true };
+  }
+
+  const handIndex = playerHand.findIndex(c => c.rank === handCard.rank && c.suit === handCard.suit);
+  const remainingHand = playerHand.filter((_, i) => i !== handIndex);
+  if (!remainingHand.some(c => canCaptureValue(c, ownBuild.value, variant))) {
     return {
       valid: false,
-      message: `Capture value (${captureValue}) does not match staged cards total (${totalValue}).`
+      message: `This would add to your build of ${ownBuild.value} and leave you no card to capture it. Capture the build as well.`
     };
   }
 
@@ -115,9 +170,15 @@ export const validateComplexCapture = (stagedCards, captureCard) => {
  * @param {object} card - The card to trail.
  * @param {number} currentPlayer - The index of the current player.
  * @param {number} round - The current round number.
+ * @param {object} [rules] - The game's house rules (see ./rules).
  * @returns {object} Validation result with valid flag and message.
  */
-export const validateTrail = (tableCards, card, playerIndex, round) => {
+export const validateTrail = (tableCards, card, playerIndex, round, rules = DEFAULT_RULES) => {
+  // HOUSE RULE: Trailing with a build can be allowed
+  if (!rules.noTrailWithBuild) {
+    return { valid: true };
+  }
+
   // CASINO RULE: Players cannot trail while they have an active build (first round only)
   if (round === 1) {
     // Use playerIndex (0-based) for ownership checks
@@ -140,7 +201,7 @@ export const validateTrail = (tableCards, card, playerIndex, round) => {
   return { valid: true };
 };
 
-export const validateAddToOpponentBuild = (build, playerCard, playerHand, tableCards, playerIndex) => {
+export const validateAddToOpponentBuild = (build, playerCard, playerHand, tableCards, playerIndex, variant = getVariant(), rules = DEFAULT_RULES) => {
   // Rule 1: Cannot add to your own build with this action
   // Use playerIndex (0-based) for ownership checks
   if (build.owner === playerIndex) {
@@ -149,7 +210,7 @@ export const validateAddToOpponentBuild = (build, playerCard, playerHand, tableC
   }
 
   // Rule 2: Player cannot already have an active build of their own
-  if (hasActiveBuild(tableCards, playerIndex)) {
+  if (rules.oneBuildPerPlayer && hasActiveBuild(tableCards, playerIndex)) {
     return { valid: false, message: "You cannot extend an opponent's build while you have your own active build. Use temp builds instead." };
   }
   
@@ -158,15 +219,18 @@ export const validateAddToOpponentBuild = (build, playerCard, playerHand, tableC
     return { valid: false, message: "This build cannot be extended." };
   }
 
-  // Rule 4: New value must be <= 10
+  // Rule 4: New value must not go over the variant's highest value
   const newValue = build.value + rankValue(playerCard.rank);
-  if (newValue > 10) {
-    return { valid: false, message: `Cannot extend build. New value (${newValue}) would be over 10.` };
+  if (newValue > variant.maxValue) {
+    return { valid: false, message: `Cannot extend build. New value (${newValue}) would be over ${variant.maxValue}.` };
+  }
+  if (ownsBuildOfValue(tableCards, playerIndex, newValue)) {
+    return { valid: false, message: `You already have a build of ${newValue}. Merge into it instead.` };
   }
 
   // Rule 5: Player must have the capture card in hand
   const canCapture = playerHand.some(c =>
-    rankValue(c.rank) === newValue &&
+    canCaptureValue(c, newValue, variant) &&
     (c.rank !== playerCard.rank || c.suit !== playerCard.suit)
   );
   if (!canCapture) {
@@ -176,14 +240,14 @@ export const validateAddToOpponentBuild = (build, playerCard, playerHand, tableC
   return { valid: true, newValue };
 };
 
-export const validateAddToOwnBuild = (build, playerCard, playerHand) => {
+export const validateAddToOwnBuild = (build, playerCard, playerHand, variant = getVariant()) => {
   const cardValue = rankValue(playerCard.rank);
   const remainingHand = playerHand.filter(c => c.rank !== playerCard.rank || c.suit !== playerCard.suit);
 
   // Case 1: Reinforcing a build (e.g., adding a 7 to a build of 7)
   if (cardValue === build.value) {
     // Player must have another card of the same value to capture later
-    const canCapture = remainingHand.some(c => rankValue(c.rank) === build.value);
+    const canCapture = remainingHand.some(c => canCaptureValue(c, build.value, variant));
     if (!canCapture) {
       return { valid: false, message: `You must have another ${build.value} in your hand to reinforce this build.` };
     }
@@ -198,7 +262,7 @@ export const validateAddToOwnBuild = (build, playerCard, playerHand) => {
   };
 };
 
-export const validateTemporaryStackBuild = (stack, handCard, playerHand, tableCards, currentPlayer) => {
+export const validateTemporaryStackBuild = (stack, handCard, playerHand, tableCards, currentPlayer, variant = getVariant()) => {
   // Note: Removed "player cannot already have a build" restriction here
   // The single-build restriction is enforced when finalizing temp stacks to permanent builds
   // This allows creating temporary stacks for merging into existing builds
@@ -210,7 +274,7 @@ export const validateTemporaryStackBuild = (stack, handCard, playerHand, tableCa
   // Case 1: Reinforcing a temporary stack to create a permanent build (e.g., dropping a 10 on a stack of 10)
   if (stackValue === handCardValue) {
     const buildValue = stackValue;
-    const canCapture = remainingHand.some(c => rankValue(c.rank) === buildValue);
+    const canCapture = remainingHand.some(c => canCaptureValue(c, buildValue, variant));
     if (!canCapture) {
       return { valid: false, message: `You must have another ${buildValue} in your hand to create this build.` };
     }
@@ -219,11 +283,11 @@ export const validateTemporaryStackBuild = (stack, handCard, playerHand, tableCa
 
   // Case 2: Increasing a temporary stack's value to create a permanent build (e.g., dropping a 2 on a stack of 8)
   const newBuildValue = stackValue + handCardValue;
-  if (newBuildValue > 10) {
-    return { valid: false, message: `Cannot build. The total value (${newBuildValue}) would be over 10.` };
+  if (newBuildValue > variant.maxValue) {
+    return { valid: false, message: `Cannot build. The total value (${newBuildValue}) would be over ${variant.maxValue}.` };
   }
 
-  const canCaptureNewValue = remainingHand.some(c => rankValue(c.rank) === newBuildValue);
+  const canCaptureNewValue = remainingHand.some(c => canCaptureValue(c, newBuildValue, variant));
   if (!canCaptureNewValue) {
     return { valid: false, message: `You must have a ${newBuildValue} in your hand to make this build.` };
   }
@@ -316,13 +380,15 @@ export const validateExtendToMerge = (ownBuild, opponentBuild, handCard) => {
  * @param {object} stack - The temporary stack to be finalized.
  * @param {Array} playerHand - The hand of the current player.
  * @param {Array} tableCards - The cards on the table.
- * @param {number} currentPlayer - The index of the current player.
+ * @param {number} playerIndex - The 0-based index of the current player.
+ * @param {object} [variant] - The game's variant (see ./variants).
+ * @param {object} [rules] - The game's house rules (see ./rules).
  * @returns {Array<number>} An array of numbers representing the valid build values.
  */
-export const findPossibleBuildsFromStack = (stack, playerHand, tableCards, playerIndex) => {
+export const findPossibleBuildsFromStack = (stack, playerHand, tableCards, playerIndex, variant = getVariant(), rules = DEFAULT_RULES) => {
   // Rule 1: Player cannot already have an active build.
   // Use playerIndex (0-based) for ownership checks
-  if (hasActiveBuild(tableCards, playerIndex)) {
+  if (rules.oneBuildPerPlayer && hasActiveBuild(tableCards, playerIndex)) {
     return []; // Cannot create a new active build if one is already owned.
   }
 
@@ -340,12 +406,14 @@ export const findPossibleBuildsFromStack = (stack, playerHand, tableCards, playe
   }
 
   // Get the unique values from the remaining hand cards. These are our potential build values.
-  const potentialBuildValues = [...new Set(remainingHand.map(c => rankValue(c.rank)))];
+  const potentialBuildValues = [...new Set(remainingHand.flatMap(c => getCaptureValues(c, variant)))];
 
   const cardsToBuildWith = stack.cards.map(({ source, ...card }) => card);
 
   // Rule 4: For each potential value, check if the stack can be partitioned into sums of that value.
-  return potentialBuildValues.filter(value => canPartitionIntoSums(cardsToBuildWith, value));
+  return potentialBuildValues.filter(value =>
+    !ownsBuildOfValue(tableCards, playerIndex, value) && canPartitionIntoSums(cardsToBuildWith, value)
+  );
 };
 
 /**
@@ -3,15 +3,18 @@ import {
   calculateCardSum, 
   rankValue,
   updateGameState,
-  handleCapture,
-  handleAddToStagingStack,
-  handleCreateStagingStack
+  handleCreateStagingStack,
+  getVariant,
+  getRules,
+  getCaptureValues,
+  canCaptureValue
 } from '../game-logic/index.js';
 import { 
   validateTemporaryStackBuild,
   validateAddToOpponentBuild,
   validateAddToOwnBuild,
-  validateExtendToMerge
+  validateExtendToMerge,
+  validateCaptureWithOwnBuild
 } from '../game-logic/validation.js';
 import { canPartitionIntoSums } from '../game-logic/index.js';
 import {
@@ -51,6 +54,7 @@ export const handleHandCardDrop = (
 ): GameState => {
   const { currentPlayer, playerHands, tableCards, playerCaptures } = currentGameState;
   const draggedCard = draggedItem.card;
+  const variant = getVariant(currentGameState);
 
   if (!draggedCard) { // Ensure a card is being dragged
     showError("No card found in dragged item.");
@@ -78,22 +82,32 @@ export const handleHandCardDrop = (
 
     // --- Possibility 1: Direct Capture from Temporary Stack ---
     const sumOfStack = calculateCardSum(stack.cards);
-    const captureValue = rankValue(draggedCard.rank);
+    // An Ace in Royal Casino captures as 1 or 14; use whichever value takes the stack
+    const captureValues: number[] = getCaptureValues(draggedCard, variant);
+    const captureValue = captureValues.find(value => value === sumOfStack)
+      || captureValues.find(value => sumOfStack % value === 0 && canPartitionIntoSums(stack.cards, value))
+      || captureValues[0];
+    // Cards matching the player's own build join it instead, which must not strand the build
+    const ownBuildCheck = validateCaptureWithOwnBuild(playerHand, draggedCard, [stack], tableCards, currentPlayer - 1, variant);
 
     // Direct capture: if hand card value equals stack sum, perform immediate capture
     if (captureValue === sumOfStack) {
+      if (!ownBuildCheck.valid) {
+        showError(ownBuildCheck.message);
+        return currentGameState;
+      }
       // Immediately execute capture without going through action selection
       console.log(`Direct capture: ${draggedCard.rank} captures temp stack (sum=${sumOfStack})`);
-      return handleCapture(currentGameState, draggedItem, [stack]);
+      return executeAction(currentGameState, importedCreateActionOption('capture', `Capture for ${captureValue}`, { draggedItem, targetCard: stack }));
     } 
     
     // Complex capture: if hand card can partition the stack  
-    if (sumOfStack % captureValue === 0 && canPartitionIntoSums(stack.cards, captureValue)) { // Check if stack can be partitioned
+    if (ownBuildCheck.valid && sumOfStack % captureValue === 0 && canPartitionIntoSums(stack.cards, captureValue)) { // Check if stack can be partitioned
       actions.push(importedCreateActionOption('capture', `Capture for ${captureValue}`, { draggedItem, targetCard: stack }));
     }
 
     // --- Possibility 2: Create a permanent build ---
-    const buildValidation = validateTemporaryStackBuild(stack, draggedCard, playerHand, tableCards, currentPlayer);
+    const buildValidation = validateTemporaryStackBuild(stack, draggedCard, playerHand, tableCards, currentPlayer, variant);
     if (buildValidation.valid) {
       actions.push(importedCreateActionOption('createBuildFromStack', `Build ${buildValidation.newValue}`, { draggedItem, stackToBuildFrom: stack }));
     }
@@ -105,7 +119,7 @@ export const handleHandCardDrop = (
       // Allow adding cards to temp stack without validation during creation
       // Validation will happen at finalization when player clicks tick
 
-      return handleAddToStagingStack(currentGameState, draggedCard, stack);
+      return executeAction(currentGameState, importedCreateActionOption('addToStagingStack', 'Add to stack', { draggedItem, stack }));
     } else if (actions.length === 1) {
       return executeAction(currentGameState, actions[0]);
     } else {
@@ -211,7 +225,7 @@ export const handleHandCardDrop = (
     const actions: ActionOption[] = [];
 
     // Possibility 1: Capture the build
-    if (rankValue(draggedCard.rank) === buildToDropOn.value) {
+    if (canCaptureValue(draggedCard, buildToDropOn.value, variant)) {
       actions.push(importedCreateActionOption(
         'capture', `Capture Build (${buildToDropOn.value})`,
         { draggedItem, targetCard: buildToDropOn }
@@ -237,7 +251,7 @@ export const handleHandCardDrop = (
         }
       } else {
         // Standard "Add to Opponent Build"
-        const validation = validateAddToOpponentBuild(buildToDropOn, draggedCard, playerHand, tableCards, currentPlayer - 1); // Pass 0-based index
+        const validation = validateAddToOpponentBuild(buildToDropOn, draggedCard, playerHand, tableCards, currentPlayer - 1, variant, getRules(currentGameState)); // Pass 0-based index
         if (validation.valid) {
           const newBuildValue = buildToDropOn.value + rankValue(draggedCard.rank);
           actions.push(importedCreateActionOption('addToOpponentBuild', `Extend to ${newBuildValue}`, { draggedItem, buildToAddTo: buildToDropOn }));
@@ -247,7 +261,7 @@ export const handleHandCardDrop = (
 
     // Possibility 3: Add to your own build
     if (buildToDropOn.owner === (currentPlayer - 1)) { // Check owner with 0-based index
-      const validation = validateAddToOwnBuild(buildToDropOn, draggedCard, playerHand);
+      const validation = validateAddToOwnBuild(buildToDropOn, draggedCard, playerHand, variant);
       if (validation.valid) {
         actions.push(importedCreateActionOption(
           'addToOwnBuild', `Add to Build (${validation.newValue})`,
@@ -260,10 +274,10 @@ export const handleHandCardDrop = (
     if (actions.length === 0) {
       if (buildToDropOn.owner === (currentPlayer - 1)) {
         // Try to get a more specific error from validation
-        const validation = validateAddToOwnBuild(buildToDropOn, draggedCard, playerHand);
+        const validation = validateAddToOwnBuild(buildToDropOn, draggedCard, playerHand, variant);
         showError(validation.message || "You cannot add this card to your own build.");
       } else {
-        const validation = validateAddToOpponentBuild(buildToDropOn, draggedCard, playerHand, tableCards, currentPlayer - 1);
+        const validation = validateAddToOpponentBuild(buildToDropOn, draggedCard, playerHand, tableCards, currentPlayer - 1, variant, getRules(currentGameState));
         showError(validation.message || `Invalid move on build of ${buildToDropOn.value}.`);
       }
       return currentGameState;
@@ -3,7 +3,8 @@ import {
   getCardId, 
   calculateCardSum, 
   rankValue,
-  updateGameState
+  updateGameState,
+  getVariant
 } from '../game-logic/index.js';
 import { analyzeCardStack } from '../game-logic/combo-analyzer';
 import {
@@ -153,7 +154,7 @@ export const handleTableCardDrop = (
     const orderedCards = [annotatedTarget, annotatedDragged];
     
     // SMART COMBO DETECTION for first drop
-    const initialAnalysis = analyzeCardStack(orderedCards);
+    const initialAnalysis = analyzeCardStack(orderedCards, null, getVariant(currentGameState));
     if (initialAnalysis.completeCombos.length > 0) {
       console.log(`🎯 Combo detected: ${initialAnalysis.completeCombos[0].cards.map(c => c.rank).join('+')} = ${initialAnalysis.completeCombos[0].value}`);
     }
@@ -225,7 +226,7 @@ export const handleTableCardDrop = (
       newCards = [...targetStack.cards, newCardToAdd];
       
       // Optional logging for combo detection (no validation)
-      const analysis = analyzeCardStack(newCards);
+      const analysis = analyzeCardStack(newCards, null, getVariant(currentGameState));
       if (analysis.completeCombos.length > 0) {
         console.log(`🎯 Combo detected: ${analysis.completeCombos[0].cards.map(c => c.rank).join('+')} = ${analysis.completeCombos[0].value}`);
       }
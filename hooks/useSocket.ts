@@ -1,7 +1,8 @@
 import { useState, useEffect, useRef } from 'react';
 import { Platform } from 'react-native';
 import { io, Socket } from 'socket.io-client';
-import { GameState } from '../types/gameTypes';
+import { getVariant, getDealPlan } from '../game-logic/index.js';
+import { ActionError, AIDifficulty, Card, GameState, HouseRules, ModalInfo, PlayerView, Seating, TimeControl, VariantName } from '../types/gameTypes';
 
 // Use localhost for web and IP for mobile for simplified testing
 const SERVER_URL = Platform.OS === 'web'
@@ -10,9 +11,20 @@ const SERVER_URL = Platform.OS === 'web'
 
 export const useSocket = () => {
   const socketRef = useRef<Socket | null>(null);
-  const [gameState, setGameState] = useState<GameState | null>(null);
+  const [gameState, setGameState] = useState<PlayerView | null>(null);
   const [playerNumber, setPlayerNumber] = useState<number | null>(null);
-  const [modalInfo, setModalInfo] = useState(null);
+  const [roomCode, setRoomCode] = useState<string | null>(null);
+  const [isOpponentReconnecting, setIsOpponentReconnecting] = useState(false);
+  // After a game: the seats that asked for a rematch, and whether the opponent has gone for good
+  const [rematchOffers, setRematchOffers] = useState<number[]>([]);
+  const [hasOpponentLeft, setHasOpponentLeft] = useState(false);
+  const [actionError, setActionError] = useState<ActionError | null>(null);
+  // Seat reservation issued by the server; used to resume the seat after a dropped connection
+  const sessionRef = useRef<{ roomCode: string; sessionToken: string } | null>(null);
+  // Choices offered by the server when a staging stack can be finalized several ways
+  const [actionOptions, setActionOptions] = useState<ModalInfo | null>(null);
+  // The hand we were dealt, to check against the deck the server reveals at game over
+  const openingHandRef = useRef<Card[] | null>(null);
 
   useEffect(() => {
     // Connect to the server
@@ -20,32 +32,39 @@ export const useSocket = () => {
 
     socketRef.current.on('connect', () => {
       console.log('Connected to server with ID:', socketRef.current?.id);
+
+      // After a dropped connection, reclaim the seat we were holding
+      if (sessionRef.current) {
+        console.log(`Resuming seat in room ${sessionRef.current.roomCode}`);
+        socketRef.current?.emit('resume-session', sessionRef.current);
+      }
     });
 
-    socketRef.current.on('game-start', (data: { gameState: GameState; playerNumber: number }) => {
+    socketRef.current.on('game-start', (data: { gameState: PlayerView; playerNumber: number }) => {
       console.log('Game is starting!');
+      // A resumed game starts mid-deal; only a fresh deal shows the hand we were dealt
+      // (before any play, every hand and the deck still hold what the deal plan left them)
+      const { round, playerHands, playerCaptures, handCounts, deckCount } = data.gameState;
+      const variant = getVariant(data.gameState);
+      const deckSize = variant.ranks.length * 4; // One card of every rank in each suit
+      const { handSize, tableCount } = getDealPlan(handCounts.length, deckSize, variant);
+      const isFreshDeal = round === 1 && playerCaptures.every(captures => captures.length === 0) &&
+        handCounts.every(count => count === handSize) && deckCount === deckSize - handSize * handCounts.length - tableCount;
+      openingHandRef.current = isFreshDeal ? playerHands[data.playerNumber] : null;
       setGameState(data.gameState);
       setPlayerNumber(data.playerNumber);
+      setRematchOffers([]);
+      setHasOpponentLeft(false);
     });
 
-    socketRef.current.on('game-update', (newGameState: GameState) => {
+    socketRef.current.on('game-update', (newGameState: PlayerView) => {
       console.log('Received game update.');
       setGameState(newGameState);
     });
-    socketRef.current.on('game-update', (newGameState: GameState) => {
-      console.log('Received game update.');
-      setGameState(newGameState);
 
-      // Check if the server sent multi-choice modal info for staging stack action
-      // For example, if newGameState includes a special property 'modalOptions' or 'options' in root or nested
-      if ((newGameState as any).modalOptions) {
-        // Ideally this should be better typed and integrated, but for now:
-        setModalInfo((prev) => ({
-          title: 'Choose Your Action',
-          message: 'This combination can form multiple actions. Please choose one:',
-          actions: (newGameState as any).modalOptions,
-        }));
-      }
+    socketRef.current.on('action-options', (options: ModalInfo) => {
+      console.log(`Server offered ${options.actions.length} ways to finalize the stack`);
+      setActionOptions(options);
     });
 
     socketRef.current.on('error', (error: { message: string }) => {
@@ -53,11 +72,61 @@ export const useSocket = () => {
         alert(`Server Error: ${error.message}`);
     });
 
+    socketRef.current.on('game-over', (summary: Pick<GameState, 'winner' | 'scores' | 'scoreDetails' | 'forfeit' | 'match' | 'fairness' | 'actionLog'>) => {
+      console.log(`Game over. Scores: ${summary.scores?.join(' - ')}`);
+      const fairness = summary.fairness && openingHandRef.current
+        ? { ...summary.fairness, openingHand: openingHandRef.current }
+        : summary.fairness;
+      setGameState(prev => (prev ? { ...prev, ...summary, fairness, gameOver: true } : prev));
+    });
+
+    socketRef.current.on('action-error', (error: ActionError) => {
+      console.log(`Server rejected ${error.type}: [${error.code}] ${error.message}`);
+      setActionError(error);
+    });
+
     socketRef.current.on('player-number', (num: number) => {
       console.log(`Assigned player number: ${num}`);
       setPlayerNumber(num);
     });
 
+    socketRef.current.on('room-joined', (data: { roomCode: string; roomName: string; playerNumber: number; sessionToken: string }) => {
+      console.log(`Joined room ${data.roomCode} as player ${data.playerNumber}`);
+      sessionRef.current = { roomCode: data.roomCode, sessionToken: data.sessionToken };
+      setRoomCode(data.roomCode);
+      setPlayerNumber(data.playerNumber);
+    });
+
+    socketRef.current.on('player-left', () => {
+      console.log('The other player left the room.');
+      setIsOpponentReconnecting(false);
+      setHasOpponentLeft(true);
+      // A finished game stays on screen so the result can still be read
+      setGameState(prev => (prev && prev.gameOver ? prev : null));
+    });
+
+    socketRef.current.on('rematch-offered', (data: { playerNumbers: number[] }) => {
+      console.log(`Players ${data.playerNumbers.join(', ')} want a rematch`);
+      setRematchOffers(data.playerNumbers);
+    });
+
+    socketRef.current.on('opponent-disconnected', (data: { playerNumber: number; graceMs: number }) => {
+      console.log(`Player ${data.playerNumber} lost connection, holding their seat for ${data.graceMs}ms`);
+      setIsOpponentReconnecting(true);
+    });
+
+    socketRef.current.on('opponent-reconnected', (data: { playerNumber: number }) => {
+      console.log(`Player ${data.playerNumber} reconnected`);
+      setIsOpponentReconnecting(false);
+    });
+
+    socketRef.current.on('session-expired', (error: { message: string }) => {
+      console.log('Could not resume session:', error.message);
+      sessionRef.current = null;
+      setRoomCode(null);
+      setGameState(null);
+    });
+
 
 
     // Disconnect on cleanup
@@ -68,8 +137,51 @@ export const useSocket = () => {
 
   const sendAction = (type: string, payload: object) => {
     console.log(`Sending action: ${type}`);
+    setActionError(null);
     socketRef.current?.emit('game-action', { type, payload });
   };
 
-  return { gameState, playerNumber, sendAction };
+  // A match target plays deals until someone reaches it; the server always picks the deal's seed
+  const createRoom = (name?: string, timeControl?: TimeControl, matchTarget?: number | null, seating?: Seating, variant?: VariantName, rules?: HouseRules) => {
+    console.log('Creating a new room');
+    socketRef.current?.emit('create-room', { name, timeControl, matchTarget, seating, variant, rules });
+  };
+
+  const joinRoom = (code: string) => {
+    console.log(`Joining room ${code}`);
+    socketRef.current?.emit('join-room', { roomCode: code });
+  };
+
+  // Fills the empty seat of our room with a computer player
+  const addComputerPlayer = (difficulty: AIDifficulty) => {
+    console.log(`Adding a ${difficulty} computer player`);
+    socketRef.current?.emit('add-computer', { difficulty });
+  };
+
+  // Leaving a game that is still being played forfeits it
+  const leaveRoom = () => {
+    socketRef.current?.emit('leave-room');
+    sessionRef.current = null;
+    setRoomCode(null);
+    setGameState(null);
+    setIsOpponentReconnecting(false);
+    setRematchOffers([]);
+    setHasOpponentLeft(false);
+  };
+
+  const resign = () => {
+    console.log('Resigning the game');
+    socketRef.current?.emit('resign');
+  };
+
+  // Asks to play again, or accepts the opponent's offer; the seats swap so the other player starts
+  const offerRematch = () => {
+    console.log('Offering a rematch');
+    socketRef.current?.emit('offer-rematch');
+  };
+
+  const clearActionError = () => setActionError(null);
+  const clearActionOptions = () => setActionOptions(null);
+
+  return { gameState, playerNumber, roomCode, isOpponentReconnecting, rematchOffers, hasOpponentLeft, actionError, clearActionError, actionOptions, clearActionOptions, sendAction, createRoom, joinRoom, addComputerPlayer, leaveRoom, resign, offerRematch };
 };
@@ -0,0 +1,140 @@
+/**
+ * Action Dispatcher
+ * Maps a validated game-action onto the game-logic handler that applies it
+ */
+
+const {
+  handleTrail,
+  handleCapture,
+  handleBuild,
+  handleAddToOpponentBuild,
+  handleAddToOwnBuild,
+  handleBaseBuild,
+  handleCreateBuildFromStack,
+  handleExtendToMerge,
+  handleReinforceOpponentBuildWithStack,
+  handleCreateBuildWithValue,
+  handleCreateStagingStack,
+  handleStageSingleCardFromHand,
+  handleAddToStagingStack,
+  handleCancelStagingStack,
+  handleFinalizeStagingStack,
+  handleMergeIntoOwnBuild,
+  handleStageOpponentCard,
+  handleFinalizeTrail
+} = require('./game-logic/game-actions');
+
+// Every action type a client may send in a game-action event
+const ACTION_TYPES = [
+  'trail',
+  'capture',
+  'createStagingStack',
+  'build',
+  'addToOpponentBuild',
+  'addToOwnBuild',
+  'baseBuild',
+  'createBuildFromStack',
+  'extendToMerge',
+  'reinforceOpponentBuild',
+  'createBuildWithValue',
+  'addToStagingStack',
+  'cancelStagingStack',
+  'finalizeStagingStack',
+  'mergeIntoOwnBuild',
+  'stageOpponentCard',
+  'finalizeTrail',
+];
+
+/**
+ * Checks whether a temporary stack holds only the single card a player staged from hand.
+ * @param {object} stack - The temporary stack.
+ * @returns {boolean} True if confirming the stack means trailing its card.
+ */
+const isStagedTrail = (stack) => stack.cards.length === 1 && stack.cards[0].source === 'hand';
+
+/**
+ * Applies an action to the game state.
+ * The action is expected to have been resolved and validated against this state.
+ * @param {object} gameState - The current game state.
+ * @param {object} action - The action ({ type, payload }) to apply.
+ * @returns {object} The new game state. finalizeStagingStack may instead return
+ *   { options, stack, draggedItem } when the stack can become several builds,
+ *   or { error, message } when it cannot become any.
+ */
+const applyAction = (gameState, action) => {
+  const { payload } = action;
+
+  switch (action.type) {
+    case 'trail':
+      // In round 2 a trailed card is staged first and only lands once confirmed
+      if (gameState.round === 2) {
+        return handleStageSingleCardFromHand(gameState, payload.card);
+      }
+      return handleTrail(gameState, payload.card);
+
+    case 'capture': {
+      const { draggedItem, selectedTableCards, targetCard } = payload;
+      // Handle both old format (selectedTableCards) and new format (targetCard)
+      const cardsToCapture = selectedTableCards || (targetCard ? [targetCard] : []);
+      return handleCapture(gameState, draggedItem, cardsToCapture);
+    }
+
+    case 'createStagingStack':
+      return handleCreateStagingStack(gameState, payload.draggedItem.card, payload.targetCard);
+
+    case 'build': {
+      const { draggedItem, targetCard, buildValue, biggerCard, smallerCard } = payload;
+      return handleBuild(gameState, draggedItem, [targetCard], buildValue, biggerCard, smallerCard);
+    }
+
+    case 'addToOpponentBuild':
+      return handleAddToOpponentBuild(gameState, payload.draggedItem, payload.buildToAddTo);
+
+    case 'addToOwnBuild':
+      return handleAddToOwnBuild(gameState, payload.draggedItem, payload.buildToAddTo);
+
+    case 'baseBuild':
+      return handleBaseBuild(gameState, payload.draggedItem, payload.baseCard, payload.otherCardsInBuild);
+
+    case 'createBuildFromStack':
+      return handleCreateBuildFromStack(gameState, payload.draggedItem, payload.stackToBuildFrom);
+
+    case 'extendToMerge':
+      return handleExtendToMerge(gameState, payload.draggedItem.card, payload.opponentBuild, payload.ownBuild);
+
+    case 'reinforceOpponentBuild':
+      return handleReinforceOpponentBuildWithStack(gameState, payload.stack, payload.targetBuild);
+
+    case 'createBuildWithValue':
+      return handleCreateBuildWithValue(gameState, payload.stack, payload.buildValue);
+
+    case 'addToStagingStack':
+      return handleAddToStagingStack(gameState, payload.draggedItem.card, payload.stack);
+
+    case 'cancelStagingStack':
+      return handleCancelStagingStack(gameState, payload.stack);
+
+    case 'finalizeStagingStack':
+      if (isStagedTrail(payload.stack)) {
+        return handleFinalizeTrail(gameState, payload.stack);
+      }
+      return handleFinalizeStagingStack(gameState, payload.stack);
+
+    case 'mergeIntoOwnBuild':
+      return handleMergeIntoOwnBuild(gameState, payload.stack, payload.targetBuild);
+
+    case 'stageOpponentCard':
+      return handleStageOpponentCard(gameState, payload.card, payload.from);
+
+    case 'finalizeTrail':
+      return handleFinalizeTrail(gameState, payload.stack);
+
+    default:
+      throw new Error(`Unknown action type: ${action.type}`);
+  }
+};
+
+module.exports = {
+  ACTION_TYPES,
+  applyAction,
+};
@@ -0,0 +1,436 @@
+/**
+ * Action Validation
+ * Re-checks every client game-action against the authoritative server state.
+ * Entities referenced by the payload (hand cards, loose cards, builds, temporary stacks)
+ * are swapped for the server's own copies, so a client can only point at things, never define them.
+ */
+
+const { rankValue, calculateCardSum, getCaptureValues } = require('./game-logic/card-operations');
+const { canPartitionIntoSums } = require('./game-logic/algorithms');
+const { areOpponents } = require('./game-logic/game-state');
+const { getVariant } = require('./game-logic/variants');
+const { getRules } = require('./game-logic/rules');
+const {
+  validateBuild,
+  validateCaptureWithOwnBuild,
+  validateTrail,
+  validateAddToOpponentBuild,
+  validateAddToOwnBuild,
+  validateTemporaryStackBuild,
+  validateExtendToMerge,
+  validateReinforceOpponentBuildWithStack,
+  validateMergeIntoOwnBuild,
+  findPossibleBuildsFromStack
+} = require('./game-logic/validation');
+const { validateActionPayload } = require('./schemas');
+
+const ERROR_CODES = {
+  GAME_OVER: 'GAME_OVER',
+  NOT_YOUR_TURN: 'NOT_YOUR_TURN',
+  UNKNOWN_ACTION: 'UNKNOWN_ACTION',
+  CARD_NOT_IN_HAND: 'CARD_NOT_IN_HAND',
+  TARGET_NOT_FOUND: 'TARGET_NOT_FOUND',
+  NOT_OWNER: 'NOT_OWNER',
+  INVALID_PAYLOAD: 'INVALID_PAYLOAD',
+  INVALID_MOVE: 'INVALID_MOVE',
+  ACTION_NOT_APPLIED: 'ACTION_NOT_APPLIED',
+  ACTION_FAILED: 'ACTION_FAILED',
+};
+
+/**
+ * Thrown while resolving or validating an action; carries the code reported to the client.
+ */
+class ActionRejectedError extends Error {
+  constructor(code, message) {
+    super(message);
+    this.name = 'ActionRejectedError';
+    this.code = code;
+  }
+}
+
+const reject = (code, message) => {
+  throw new ActionRejectedError(code, message);
+};
+
+const isSameCard = (a, b) => !!a && !!b && a.rank === b.rank && a.suit === b.suit;
+
+const describeCard = (card) => (card ? `${card.rank}${card.suit}` : 'unknown card');
+
+// --- Entity resolution -------------------------------------------------------
+
+const resolveHandCard = (gameState, seat, card) => {
+  const handCard = (gameState.playerHands[seat] || []).find(c => isSameCard(c, card));
+  if (!handCard) {
+    reject(ERROR_CODES.CARD_NOT_IN_HAND, `The ${describeCard(card)} is not in your hand.`);
+  }
+  return handCard;
+};
+
+const resolveLooseCard = (gameState, card) => {
+  const looseCard = gameState.tableCards.find(c => !c.type && isSameCard(c, card));
+  if (!looseCard) {
+    reject(ERROR_CODES.TARGET_NOT_FOUND, `The ${describeCard(card)} is not on the table.`);
+  }
+  return looseCard;
+};
+
+const resolveBuild = (gameState, build) => {
+  const serverBuild = build && gameState.tableCards.find(b => b.type === 'build' && b.buildId === build.buildId);
+  if (!serverBuild) {
+    reject(ERROR_CODES.TARGET_NOT_FOUND, "Target build not found on table. The build may have already been captured.");
+  }
+  return serverBuild;
+};
+
+const resolveOwnStack = (gameState, seat, stack) => {
+  const serverStack = stack && gameState.tableCards.find(s => s.type === 'temporary_stack' && s.stackId === stack.stackId);
+  if (!serverStack) {
+    reject(ERROR_CODES.TARGET_NOT_FOUND, "Staging stack not found on table.");
+  }
+  if (serverStack.owner !== seat) {
+    reject(ERROR_CODES.NOT_OWNER, "You can only interact with your own temporary stacks.");
+  }
+  return serverStack;
+};
+
+/**
+ * Resolves any table entity (loose card, build or temporary stack) referenced by a payload.
+ */
+const resolveTableEntity = (gameState, seat, entity) => {
+  if (!entity) {
+    reject(ERROR_CODES.TARGET_NOT_FOUND, "No target was given for this action.");
+  }
+  if (entity.type === 'build') return resolveBuild(gameState, entity);
+  if (entity.type === 'temporary_stack') return resolveOwnStack(gameState, seat, entity);
+  return resolveLooseCard(gameState, entity);
+};
+
+/**
+ * Resolves the dragged hand card. Only cards from the player's own hand may be played.
+ */
+const resolveDraggedHandCard = (gameState, seat, draggedItem) => {
+  if (!draggedItem || !draggedItem.card) {
+    reject(ERROR_CODES.CARD_NOT_IN_HAND, "No card was played.");
+  }
+  if (draggedItem.source && draggedItem.source !== 'hand') {
+    reject(ERROR_CODES.INVALID_MOVE, "This move must be made with a card from your hand.");
+  }
+  const card = resolveHandCard(gameState, seat, draggedItem.card);
+  return { ...draggedItem, card, source: 'hand', player: seat };
+};
+
+// --- Per-action rules --------------------------------------------------------
+
+const ensureValid = (validation) => {
+  if (!validation.valid) {
+    reject(ERROR_CODES.INVALID_MOVE, validation.message);
+  }
+};
+
+const hasOwnTempStack = (gameState, seat) => {
+  return gameState.tableCards.some(s => s.type === 'temporary_stack' && s.owner === seat);
+};
+
+const ensureNoOwnTempStack = (gameState, seat) => {
+  if (hasOwnTempStack(gameState, seat)) {
+    reject(ERROR_CODES.INVALID_MOVE, "You can only have one staging stack at a time.");
+  }
+};
+
+const checkTrail = (gameState, seat, payload) => {
+  const card = resolveHandCard(gameState, seat, payload && payload.card);
+  if (gameState.round === 2) {
+    // Round 2 trails are staged and checked when the player confirms them
+    ensureNoOwnTempStack(gameState, seat);
+  } else {
+    ensureValid(validateTrail(gameState.tableCards, card, seat, gameState.round, getRules(gameState)));
+  }
+  return { card };
+};
+
+const checkCapture = (gameState, seat, payload) => {
+  const { draggedItem, selectedTableCards, targetCard } = payload;
+  const requestedTargets = selectedTableCards || (targetCard ? [targetCard] : []);
+  if (requestedTargets.length === 0) {
+    reject(ERROR_CODES.TARGET_NOT_FOUND, "Nothing was selected to capture.");
+  }
+  const targets = requestedTargets.map(target => resolveTableEntity(gameState, seat, target));
+
+  // When finalizing a staging stack the capturing card already sits in the stack.
+  const stackHoldingCard = targets.find(t =>
+    t.type === 'temporary_stack' &&
+    t.cards.some(c => c.source === 'hand' && isSameCard(c, draggedItem && draggedItem.card))
+  );
+
+  let capturingCard;
+  if (stackHoldingCard) {
+    capturingCard = stackHoldingCard.cards.find(c => c.source === 'hand' && isSameCard(c, draggedItem.card));
+  } else {
+    capturingCard = resolveDraggedHandCard(gameState, seat, draggedItem).card;
+  }
+  // In Royal Casino an Ace captures as 1 or 14.
+  const captureValues = getCaptureValues(capturingCard, getVariant(gameState));
+
+  // Builds are captured whole, and only by a card of the build's value.
+  const builds = targets.filter(t => t.type === 'build');
+  builds.forEach(build => {
+    if (!captureValues.includes(build.value)) {
+      reject(ERROR_CODES.INVALID_MOVE, `A ${capturingCard.rank} cannot capture a build of ${build.value}.`);
+    }
+  });
+  const usableValues = captureValues.filter(value => builds.every(build => build.value === value));
+  if (usableValues.length === 0) {
+    reject(ERROR_CODES.INVALID_MOVE, "Builds of different values cannot be captured together.");
+  }
+
+  // Every other captured card must group into sums of the capturing card's value.
+  const looseCards = targets
+    .filter(t => t.type !== 'build')
+    .flatMap(t => (t.type === 'temporary_stack' ? t.cards : [t]))
+    .filter(c => !(c.source === 'hand' && isSameCard(c, capturingCard)))
+    .map(({ source, ...card }) => card);
+
+  if (looseCards.length > 0) {
+    const total = calculateCardSum(looseCards);
+    if (!usableValues.some(value => total % value === 0 && canPartitionIntoSums(looseCards, value))) {
+      reject(ERROR_CODES.INVALID_MOVE, `Capture value (${usableValues.join(' or ')}) does not match the selected cards.`);
+    }
+  }
+  ensureValid(validateCaptureWithOwnBuild(
+    gameState.playerHands[seat], capturingCard, targets, gameState.tableCards, seat, getVariant(gameState)
+  ));
+
+  return {
+    ...payload,
+    draggedItem: { ...draggedItem, card: capturingCard, source: 'hand', player: seat },
+    selectedTableCards: targets,
+    targetCard: undefined,
+  };
+};
+
+const checkBuild = (gameState, seat, payload) => {
+  const draggedItem = resolveDraggedHandCard(gameState, seat, payload.draggedItem);
+  const targetCard = resolveLooseCard(gameState, payload.targetCard);
+  const playerCard = draggedItem.card;
+  const playedValue = rankValue(playerCard.rank);
+  const tableValue = rankValue(targetCard.rank);
+  const { buildValue } = payload;
+  const variant = getVariant(gameState);
+
+  const isSameValueBuild = playedValue === tableValue && buildValue === playedValue;
+  const isSumBuild = buildValue === playedValue + tableValue;
+  if ((!isSameValueBuild && !isSumBuild) || buildValue > variant.maxValue) {
+    reject(ERROR_CODES.INVALID_MOVE, `A ${playerCard.rank} and a ${targetCard.rank} cannot build ${buildValue}.`);
+  }
+
+  ensureValid(validateBuild(gameState.playerHands[seat], playerCard, buildValue, gameState.tableCards, seat, variant, getRules(gameState)));
+
+  const resolved = { ...payload, draggedItem, targetCard, biggerCard: undefined, smallerCard: undefined };
+  if (isSumBuild && !isSameValueBuild) {
+    resolved.biggerCard = playedValue > tableValue ? playerCard : targetCard;
+    resolved.smallerCard = playedValue > tableValue ? targetCard : playerCard;
+  }
+  return resolved;
+};
+
+const checkBaseBuild = (gameState, seat, payload) => {
+  const draggedItem = resolveDraggedHandCard(gameState, seat, payload.draggedItem);
+  const baseCard = resolveLooseCard(gameState, payload.baseCard);
+  const otherCards = (payload.otherCardsInBuild || []).flat().map(card => resolveLooseCard(gameState, card));
+  const buildValue = rankValue(draggedItem.card.rank);
+
+  if (otherCards.some(c => isSameCard(c, baseCard))) {
+    reject(ERROR_CODES.INVALID_MOVE, "The base card cannot also be part of the combination.");
+  }
+  if (rankValue(baseCard.rank) + calculateCardSum(otherCards) !== buildValue) {
+    reject(ERROR_CODES.INVALID_MOVE, `These cards do not make a base build of ${buildValue}.`);
+  }
+  ensureValid(validateBuild(gameState.playerHands[seat], draggedItem.card, buildValue, gameState.tableCards, seat, getVariant(gameState), getRules(gameState)));
+
+  // The handler groups otherCardsInBuild into combinations; send the resolved cards as one combination.
+  return { ...payload, draggedItem, baseCard, otherCardsInBuild: otherCards.length > 0 ? [otherCards] : [] };
+};
+
+const checkAddToOpponentBuild = (gameState, seat, payload) => {
+  const draggedItem = resolveDraggedHandCard(gameState, seat, payload.draggedItem);
+  const buildToAddTo = resolveBuild(gameState, payload.buildToAddTo);
+  ensureValid(validateAddToOpponentBuild(buildToAddTo, draggedItem.card, gameState.playerHands[seat], gameState.tableCards, seat, getVariant(gameState), getRules(gameState)));
+  return { ...payload, draggedItem, buildToAddTo };
+};
+
+const checkAddToOwnBuild = (gameState, seat, payload) => {
+  const draggedItem = resolveDraggedHandCard(gameState, seat, payload.draggedItem);
+  const buildToAddTo = resolveBuild(gameState, payload.buildToAddTo);
+  if (buildToAddTo.owner !== seat) {
+    reject(ERROR_CODES.NOT_OWNER, "You can only add to your own build with this action.");
+  }
+  ensureValid(validateAddToOwnBuild(buildToAddTo, draggedItem.card, gameState.playerHands[seat], getVariant(gameState)));
+  return { ...payload, draggedItem, buildToAddTo };
+};
+
+const checkCreateBuildFromStack = (gameState, seat, payload) => {
+  const draggedItem = resolveDraggedHandCard(gameState, seat, payload.draggedItem);
+  const stackToBuildFrom = resolveOwnStack(gameState, seat, payload.stackToBuildFrom);
+  ensureValid(validateTemporaryStackBuild(stackToBuildFrom, draggedItem.card, gameState.playerHands[seat], gameState.tableCards, seat, getVariant(gameState)));
+  return { ...payload, draggedItem, stackToBuildFrom };
+};
+
+const checkExtendToMerge = (gameState, seat, payload) => {
+  const draggedItem = resolveDraggedHandCard(gameState, seat, payload.draggedItem);
+  const opponentBuild = resolveBuild(gameState, payload.opponentBuild);
+  const ownBuild = resolveBuild(gameState, payload.ownBuild);
+  if (ownBuild.owner !== seat) {
+    reject(ERROR_CODES.NOT_OWNER, "You can only merge into your own build.");
+  }
+  if (opponentBuild.owner === seat) {
+    reject(ERROR_CODES.INVALID_MOVE, "You cannot use this action on your own build.");
+  }
+  ensureValid(validateExtendToMerge(ownBuild, opponentBuild, draggedItem.card));
+  return { ...payload, draggedItem, opponentBuild, ownBuild };
+};
+
+const checkReinforceOpponentBuild = (gameState, seat, payload) => {
+  const stack = resolveOwnStack(gameState, seat, payload.stack);
+  const targetBuild = resolveBuild(gameState, payload.targetBuild);
+  ensureValid(validateReinforceOpponentBuildWithStack(stack, targetBuild, seat));
+  return { ...payload, stack, targetBuild };
+};
+
+const checkCreateBuildWithValue = (gameState, seat, payload) => {
+  const stack = resolveOwnStack(gameState, seat, payload.stack);
+  const possibleBuilds = findPossibleBuildsFromStack(stack, gameState.playerHands[seat], gameState.tableCards, seat, getVariant(gameState), getRules(gameState));
+  if (!possibleBuilds.includes(payload.buildValue)) {
+    reject(ERROR_CODES.INVALID_MOVE, `This stack cannot be built as ${payload.buildValue}.`);
+  }
+  return { ...payload, stack };
+};
+
+const checkCreateStagingStack = (gameState, seat, payload) => {
+  const draggedItem = resolveDraggedHandCard(gameState, seat, payload.draggedItem);
+  const targetCard = resolveLooseCard(gameState, payload.targetCard);
+  ensureNoOwnTempStack(gameState, seat);
+  return { ...payload, draggedItem, targetCard };
+};
+
+const checkAddToStagingStack = (gameState, seat, payload) => {
+  const draggedItem = resolveDraggedHandCard(gameState, seat, payload.draggedItem);
+  const stack = resolveOwnStack(gameState, seat, payload.stack);
+  return { ...payload, draggedItem, stack };
+};
+
+const checkCancelStagingStack = (gameState, seat, payload) => {
+  return { ...payload, stack: resolveOwnStack(gameState, seat, payload.stack) };
+};
+
+const checkFinalizeStagingStack = (gameState, seat, payload) => {
+  const stack = resolveOwnStack(gameState, seat, payload.stack);
+  const handCards = stack.cards.filter(c => c.source === 'hand');
+  if (stack.cards.length === 1 && handCards.length === 1) {
+    ensureValid(validateTrail(gameState.tableCards.filter(s => s !== stack), handCards[0], seat, gameState.round, getRules(gameState)));
+  } else if (handCards.length !== 1) {
+    reject(ERROR_CODES.INVALID_MOVE, "A final move must be made with exactly one card from your hand.");
+  }
+  return { ...payload, stack };
+};
+
+const checkMergeIntoOwnBuild = (gameState, seat, payload) => {
+  const stack = resolveOwnStack(gameState, seat, payload.stack);
+  const targetBuild = resolveBuild(gameState, payload.targetBuild);
+  ensureValid(validateMergeIntoOwnBuild(stack, targetBuild, seat));
+  return { ...payload, stack, targetBuild };
+};
+
+const checkStageOpponentCard = (gameState, seat, payload) => {
+  ensureNoOwnTempStack(gameState, seat);
+  // Cards are borrowed from the next seat unless the payload names another opponent
+  const from = payload.from ?? (seat + 1) % gameState.playerCaptures.length;
+  if (from >= gameState.playerCaptures.length || !areOpponents(gameState, seat, from)) {
+    reject(ERROR_CODES.INVALID_MOVE, `Player ${from + 1} is not your opponent.`);
+  }
+  // Only the top card of the opponent's most recent capture can be borrowed
+  const opponentCaps = gameState.playerCaptures[from] || [];
+  const lastGroup = opponentCaps[opponentCaps.length - 1] || [];
+  const topCard = lastGroup[lastGroup.length - 1];
+  if (!isSameCard(topCard, payload.card)) {
+    reject(ERROR_CODES.TARGET_NOT_FOUND, `The ${describeCard(payload.card)} is not on top of your opponent's captures.`);
+  }
+  return { ...payload, card: topCard, from };
+};
+
+const checkFinalizeTrail = (gameState, seat, payload) => {
+  const stack = resolveOwnStack(gameState, seat, payload.stack);
+  if (stack.cards.length !== 1 || stack.cards[0].source !== 'hand') {
+    reject(ERROR_CODES.INVALID_MOVE, "Only a single staged card from your hand can be trailed.");
+  }
+  ensureValid(validateTrail(gameState.tableCards.filter(s => s !== stack), stack.cards[0], seat, gameState.round, getRules(gameState)));
+  return { ...payload, stack };
+};
+
+const ACTION_CHECKS = {
+  trail: checkTrail,
+  capture: checkCapture,
+  build: checkBuild,
+  baseBuild: checkBaseBuild,
+  addToOpponentBuild: checkAddToOpponentBuild,
+  addToOwnBuild: checkAddToOwnBuild,
+  createBuildFromStack: checkCreateBuildFromStack,
+  extendToMerge: checkExtendToMerge,
+  reinforceOpponentBuild: checkReinforceOpponentBuild,
+  createBuildWithValue: checkCreateBuildWithValue,
+  createStagingStack: checkCreateStagingStack,
+  addToStagingStack: checkAddToStagingStack,
+  cancelStagingStack: checkCancelStagingStack,
+  finalizeStagingStack: checkFinalizeStagingStack,
+  mergeIntoOwnBuild: checkMergeIntoOwnBuild,
+  stageOpponentCard: checkStageOpponentCard,
+  finalizeTrail: checkFinalizeTrail,
+};
+
+/**
+ * Validates a client action against the authoritative game state.
+ * @param {object} gameState - The server's game state.
+ * @param {number} seat - The 0-based seat that sent the action.
+ * @param {object} action - The client action ({ type, payload }).
+ * @returns {object} { valid: true, action } with the payload resolved to server entities,
+ *   or { valid: false, code, message, details? } describing why the action was rejected.
+ *   Payload shape errors carry details: [{ path, message }] naming the offending fields.
+ */
+const validateAction = (gameState, seat, action) => {
+  if (gameState.gameOver) {
+    return { valid: false, code: ERROR_CODES.GAME_OVER, message: 'The game is over.' };
+  }
+
+  if (seat !== gameState.currentPlayer) {
+    return { valid: false, code: ERROR_CODES.NOT_YOUR_TURN, message: "It's not your turn." };
+  }
+
+  const check = ACTION_CHECKS[action.type];
+  if (!check) {
+    return { valid: false, code: ERROR_CODES.UNKNOWN_ACTION, message: `Unknown action type: ${action.type}` };
+  }
+
+  const payloadValidation = validateActionPayload(action);
+  if (!payloadValidation.valid) {
+    return {
+      valid: false,
+      code: ERROR_CODES.INVALID_PAYLOAD,
+      message: payloadValidation.message,
+      details: payloadValidation.details,
+    };
+  }
+
+  try {
+    const payload = check(gameState, seat, action.payload);
+    return { valid: true, action: { type: action.type, payload } };
+  } catch (e) {
+    if (e instanceof ActionRejectedError) {
+      return { valid: false, code: e.code, message: e.message };
+    }
+    throw e;
+  }
+};
+
+module.exports = {
+  ERROR_CODES,
+  validateAction,
+};
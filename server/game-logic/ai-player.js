@@ -0,0 +1,435 @@
+/**
+ * AI Player Module
+ * Chooses moves for a computer-controlled seat. Moves use the game-action vocabulary, so the
+ * server validates and applies them exactly like a player's actions.
+ * Three difficulties are available:
+ * - easy: plays a random legal move
+ * - medium: plays the move that most improves its score in the calculateScores categories
+ * - hard: looks one reply ahead, guessing the opponent's hand from the cards it has not seen
+ */
+
+const { rankValue, getCaptureValues, canCaptureValue } = require('./card-operations.js');
+const { findCombinationsDP } = require('./algorithms.js');
+const { validateBuild, validateCaptureWithOwnBuild, validateTrail } = require('./validation.js');
+const { getVariant } = require('./variants.js');
+const { getRules } = require('./rules.js');
+const { calculateScores } = require('./game-actions.js');
+
+const AI_DIFFICULTIES = ['easy', 'medium', 'hard'];
+const DEFAULT_AI_DIFFICULTY = 'medium';
+
+// A build only pays off if it survives the opponent's turn
+const BUILD_DISCOUNT = 0.8;
+// How many guesses at the opponent's hand the hard AI plays against
+const HARD_SAMPLE_COUNT = 8;
+
+const SUITS = ['♠', '♥', '♦', '♣'];
+
+// Extra weight for the cards that score points at the end of the game
+const cardWorth = (card) => {
+  let worth = 1;
+  if (card.suit === '♠') worth += 0.5;
+  if (card.rank === 'A') worth += 2;
+  if (card.rank === '10' && card.suit === '♦') worth += 4;
+  if (card.rank === '2' && card.suit === '♠') worth += 2;
+  return worth;
+};
+
+const isSameCard = (a, b) => a.rank === b.rank && a.suit === b.suit;
+
+const cardsOf = (item) => (item.type ? item.cards : [item]);
+
+/**
+ * Finds the card a player must keep to capture their own build later, if they own one.
+ * @param {Array} hand - The player's hand.
+ * @param {Array} tableCards - The cards on the table.
+ * @param {number} playerIndex - The 0-based seat.
+ * @param {object} variant - The game's variant.
+ * @returns {object|null} The reserved card, or null.
+ */
+const findReservedCard = (hand, tableCards, playerIndex, variant) => {
+  const ownBuild = tableCards.find(item => item.type === 'build' && item.owner === playerIndex);
+  if (!ownBuild) return null;
+  return hand.find(c => canCaptureValue(c, ownBuild.value, variant)) || null;
+};
+
+/**
+ * Lists every capture the hand can make.
+ * Each card may take a single build or loose-card group of a value it captures, or everything
+ * it can take at once (every build of that value plus disjoint loose groups).
+ * @param {Array} hand - The player's hand.
+ * @param {Array} tableCards - The cards on the table.
+ * @param {number} playerIndex - The 0-based seat.
+ * @param {object} variant - The game's variant.
+ * @returns {Array<object>} Capture moves, each with the cards it wins in `captured`.
+ */
+const listCaptureMoves = (hand, tableCards, playerIndex, variant) => {
+  const reserved = findReservedCard(hand, tableCards, playerIndex, variant);
+  const moves = [];
+
+  hand.forEach(card => getCaptureValues(card, variant).forEach(value => {
+    const builds = tableCards.filter(item => item.type === 'build' && item.value === value);
+
+    // Keep the card we need for our own build unless this capture takes that build
+    if (reserved && isSameCard(card, reserved) && !builds.some(b => b.owner === playerIndex)) {
+      return;
+    }
+
+    const looseCards = tableCards.filter(item => !item.type);
+    const targetSets = [
+      ...builds.map(build => [build]),
+      ...findCombinationsDP(looseCards, value),
+    ];
+
+    let remaining = looseCards;
+    const everything = [...builds];
+    let combinations = findCombinationsDP(remaining, value);
+    while (combinations.length > 0) {
+      // Take the group with the most cards first to clear as much as possible
+      const group = combinations.reduce((best, combo) => (combo.length > best.length ? combo : best));
+      everything.push(...group);
+      remaining = remaining.filter(c => !group.includes(c));
+      combinations = findCombinationsDP(remaining, value);
+    }
+    if (targetSets.length > 1) {
+      targetSets.push(everything);
+    }
+
+    targetSets.forEach(targets => {
+      // Loose cards worth our build's value would join it, so never give up the card that takes it
+      if (!validateCaptureWithOwnBuild(hand, card, targets, tableCards, playerIndex, variant).valid) return;
+      moves.push({
+        type: 'capture',
+        payload: {
+          draggedItem: { card, source: 'hand', player: playerIndex },
+          selectedTableCards: targets,
+        },
+        card,
+        targets,
+        captured: [card, ...targets.flatMap(cardsOf)],
+      });
+    });
+  }));
+
+  return moves;
+};
+
+/**
+ * Lists two-card builds the player could later capture with another card in hand.
+ * @param {Array} hand - The player's hand.
+ * @param {Array} tableCards - The cards on the table.
+ * @param {number} playerIndex - The 0-based seat.
+ * @param {object} variant - The game's variant.
+ * @param {object} rules - The game's house rules.
+ * @returns {Array<object>} Build moves, each with the build it leaves on the table in `build`.
+ */
+const listBuildMoves = (hand, tableCards, playerIndex, variant, rules) => {
+  const moves = [];
+
+  hand.forEach(card => {
+    tableCards.filter(item => !item.type).forEach(tableCard => {
+      const buildValue = rankValue(card.rank) + rankValue(tableCard.rank);
+      if (buildValue > variant.maxValue) return;
+      if (!validateBuild(hand, card, buildValue, tableCards, playerIndex, variant, rules).valid) return;
+
+      const [biggerCard, smallerCard] = rankValue(card.rank) >= rankValue(tableCard.rank)
+        ? [card, tableCard]
+        : [tableCard, card];
+      moves.push({
+        type: 'build',
+        payload: {
+          draggedItem: { card, source: 'hand', player: playerIndex },
+          targetCard: tableCard,
+          buildValue,
+          biggerCard,
+          smallerCard,
+        },
+        card,
+        targets: [tableCard],
+        build: { type: 'build', value: buildValue, cards: [biggerCard, smallerCard], owner: playerIndex },
+      });
+    });
+  });
+
+  return moves;
+};
+
+/**
+ * Lists the cards the player may trail.
+ * @param {Array} hand - The player's hand.
+ * @param {Array} tableCards - The cards on the table.
+ * @param {number} playerIndex - The 0-based seat.
+ * @param {number} round - The current round.
+ * @param {object} variant - The game's variant.
+ * @param {object} rules - The game's house rules.
+ * @returns {Array<object>} Trail moves.
+ */
+const listTrailMoves = (hand, tableCards, playerIndex, round, variant, rules) => {
+  if (!validateTrail(tableCards, hand[0], playerIndex, round, rules).valid) return [];
+
+  const reserved = findReservedCard(hand, tableCards, playerIndex, variant);
+  const candidates = hand.filter(c => !reserved || !isSameCard(c, reserved));
+  return (candidates.length > 0 ? candidates : hand).map(card => ({
+    type: 'trail',
+    payload: { card },
+    card,
+    targets: [],
+  }));
+};
+
+/**
+ * Scores a set of captures from one player's point of view, using the end-of-game categories.
+ * Card and spade counts also break ties, since they decide categories that are still open.
+ * @param {Array} playerCaptures - Each player's captured cards.
+ * @param {number} playerIndex - The 0-based seat to score for.
+ * @param {Array<Array<number>>} [teams] - The seats on each team in a partnership game.
+ * @param {object} scoring - What each category is worth, from the game's house rules.
+ * @returns {number} The player's lead over the strongest other side (negative when behind).
+ */
+const evaluateCaptures = (playerCaptures, playerIndex, teams, scoring) => {
+  const { details } = calculateScores(playerCaptures, teams, scoring);
+  const mySide = teams ? teams.findIndex(team => team.includes(playerIndex)) : playerIndex;
+  const mine = details[mySide];
+  const theirs = details
+    .filter((sideDetails, side) => side !== mySide)
+    .reduce((strongest, sideDetails) => (sideDetails.total > strongest.total ? sideDetails : strongest));
+  return (mine.total - theirs.total) +
+    0.1 * (mine.cardCount - theirs.cardCount) +
+    0.2 * (mine.spadeCount - theirs.spadeCount);
+};
+
+/**
+ * Works out the table and captures after a listed move, without touching the game state.
+ * A new build is left on the table, owned by the player who made it.
+ * @param {object} position - { tableCards, playerCaptures, teams, variant, rules }.
+ * @param {object} move - A move from one of the list*Moves helpers.
+ * @param {number} playerIndex - The 0-based seat making the move.
+ * @returns {object} The resulting { tableCards, playerCaptures, teams, variant, rules }.
+ */
+const projectMove = (position, move, playerIndex) => {
+  const tableCards = position.tableCards.filter(item => !move.targets.includes(item));
+  const playerCaptures = [...position.playerCaptures];
+
+  if (move.type === 'capture') {
+    playerCaptures[playerIndex] = [...playerCaptures[playerIndex], ...move.captured];
+  } else if (move.type === 'build') {
+    tableCards.push(move.build);
+  } else {
+    tableCards.push(move.card);
+  }
+  return { tableCards, playerCaptures, teams: position.teams, variant: position.variant, rules: position.rules };
+};
+
+/**
+ * Credits a player with their own builds that are still standing, as they will capture them
+ * with the card they kept for it.
+ * @param {object} position - { tableCards, playerCaptures, teams, variant, rules }.
+ * @param {Array} hand - The player's remaining hand.
+ * @param {number} playerIndex - The 0-based seat.
+ * @returns {Array} The player captures once the builds are taken.
+ */
+const settleOwnBuilds = (position, hand, playerIndex) => {
+  const playerCaptures = [...position.playerCaptures];
+  position.tableCards
+    .filter(item => item.type === 'build' && item.owner === playerIndex)
+    .forEach(build => {
+      const captureCard = hand.find(c => canCaptureValue(c, build.value, position.variant));
+      if (captureCard) {
+        playerCaptures[playerIndex] = [...playerCaptures[playerIndex], captureCard, ...build.cards];
+      }
+    });
+  return playerCaptures;
+};
+
+/**
+ * Rates a capture or build by how much it improves the player's score.
+ * A build is rated as the capture it sets up, discounted for the risk of losing it.
+ * @param {object} position - { tableCards, playerCaptures, teams, variant, rules } before the move.
+ * @param {Array} hand - The player's hand.
+ * @param {object} move - The move to rate.
+ * @param {number} playerIndex - The 0-based seat.
+ * @returns {number} The score gain.
+ */
+const rateGreedyMove = (position, hand, move, playerIndex) => {
+  const { scoring } = position.rules;
+  const before = evaluateCaptures(position.playerCaptures, playerIndex, position.teams, scoring);
+  const after = projectMove(position, move, playerIndex);
+  if (move.type !== 'build') {
+    return evaluateCaptures(after.playerCaptures, playerIndex, position.teams, scoring) - before;
+  }
+  const remainingHand = hand.filter(c => c !== move.card);
+  const settled = settleOwnBuilds(after, remainingHand, playerIndex);
+  return (evaluateCaptures(settled, playerIndex, position.teams, scoring) - before) * BUILD_DISCOUNT;
+};
+
+/**
+ * Picks the capture or build with the best immediate score gain.
+ * @param {object} position - { tableCards, playerCaptures, teams, variant, rules }.
+ * @param {Array} hand - The player's hand.
+ * @param {number} playerIndex - The 0-based seat.
+ * @returns {object|null} The best move, or null if the hand can neither capture nor build.
+ */
+const chooseGreedyMove = (position, hand, playerIndex) => {
+  const moves = [
+    ...listCaptureMoves(hand, position.tableCards, playerIndex, position.variant),
+    ...listBuildMoves(hand, position.tableCards, playerIndex, position.variant, position.rules),
+  ];
+  let best = null;
+  let bestGain = -Infinity;
+  moves.forEach(move => {
+    const gain = rateGreedyMove(position, hand, move, playerIndex);
+    if (gain > bestGain) {
+      best = move;
+      bestGain = gain;
+    }
+  });
+  return best;
+};
+
+/**
+ * Picks the card to give away when nothing better is possible.
+ * @param {Array<object>} trailMoves - The legal trails.
+ * @returns {object|null} The trail to play, or null if there is none.
+ */
+const chooseTrailMove = (trailMoves) => {
+  if (trailMoves.length === 0) return null;
+  // Give away the least valuable, highest-ranked card (high cards are harder to combine into captures)
+  return [...trailMoves].sort((a, b) =>
+    cardWorth(a.card) - cardWorth(b.card) || rankValue(b.card.rank) - rankValue(a.card.rank)
+  )[0];
+};
+
+/**
+ * Lists the cards a player has not seen: neither in their hand, on the table nor captured.
+ * @param {object} gameState - The current game state.
+ * @param {number} playerIndex - The 0-based seat.
+ * @returns {Array} The unseen cards.
+ */
+const findUnseenCards = (gameState, playerIndex) => {
+  const seen = [
+    ...gameState.playerHands[playerIndex],
+    ...gameState.tableCards.flatMap(cardsOf),
+    ...gameState.playerCaptures.flat(2),
+  ];
+  const unseen = [];
+  SUITS.forEach(suit => getVariant(gameState).ranks.forEach(rank => {
+    if (!seen.some(c => c.rank === rank && c.suit === suit)) {
+      unseen.push({ suit, rank, value: rankValue(rank) });
+    }
+  }));
+  return unseen;
+};
+
+/**
+ * Draws a random hand from a pool of cards.
+ * @param {Array} pool - The cards to draw from.
+ * @param {number} size - How many cards to draw.
+ * @returns {Array} The drawn cards.
+ */
+const sampleHand = (pool, size) => {
+  const cards = [...pool];
+  const hand = [];
+  while (hand.length < size && cards.length > 0) {
+    hand.push(cards.splice(Math.floor(Math.random() * cards.length), 1)[0]);
+  }
+  return hand;
+};
+
+/**
+ * Rates every move by the position after the opponent's best reply, averaged over
+ * guesses at the opponent's hand, and picks the best.
+ * @param {object} gameState - The current game state.
+ * @param {number} playerIndex - The 0-based seat the AI plays.
+ * @param {Array<object>} moves - The AI's legal moves.
+ * @returns {object} The chosen move.
+ */
+const chooseLookAheadMove = (gameState, playerIndex, moves) => {
+  const opponentIndex = (playerIndex + 1) % gameState.playerHands.length; // The next seat to play
+  const hand = gameState.playerHands[playerIndex];
+  const start = { tableCards: gameState.tableCards, playerCaptures: gameState.playerCaptures, teams: gameState.teams, variant: getVariant(gameState), rules: getRules(gameState) };
+
+  const unseen = findUnseenCards(gameState, playerIndex);
+  const opponentHandSize = gameState.playerHands[opponentIndex].length;
+  const guesses = opponentHandSize > 0
+    ? Array.from({ length: HARD_SAMPLE_COUNT }, () => sampleHand(unseen, opponentHandSize))
+    : [[]];
+
+  let best = moves[0];
+  let bestRating = -Infinity;
+  moves.forEach(move => {
+    const afterMove = projectMove(start, move, playerIndex);
+    const remainingHand = hand.filter(c => c !== move.card);
+
+    let total = 0;
+    guesses.forEach(opponentHand => {
+      const reply = chooseGreedyMove(afterMove, opponentHand, opponentIndex);
+      const afterReply = reply ? projectMove(afterMove, reply, opponentIndex) : afterMove;
+      total += evaluateCaptures(settleOwnBuilds(afterReply, remainingHand, playerIndex), playerIndex, gameState.teams, start.rules.scoring);
+    });
+
+    // Among equal outcomes, keep the valuable cards
+    const rating = total / guesses.length - (move.type === 'trail' ? 0.01 * cardWorth(move.card) : 0);
+    if (rating > bestRating) {
+      best = move;
+      bestRating = rating;
+    }
+  });
+  return best;
+};
+
+/**
+ * Chooses the next move for a computer-controlled seat.
+ * A staging stack left on the table is resolved first; otherwise the difficulty decides.
+ * @param {object} gameState - The current game state.
+ * @param {number} playerIndex - The 0-based seat the AI plays.
+ * @param {string} [difficulty] - 'easy', 'medium' or 'hard'.
+ * @returns {object|null} The move ({ type, payload }), or null if the AI has nothing to do.
+ */
+const chooseAIMove = (gameState, playerIndex, difficulty = DEFAULT_AI_DIFFICULTY) => {
+  const { playerHands, tableCards, round } = gameState;
+  const hand = playerHands[playerIndex];
+
+  const ownStack = tableCards.find(item => item.type === 'temporary_stack' && item.owner === playerIndex);
+  if (ownStack) {
+    const isStagedTrail = ownStack.cards.length === 1 && ownStack.cards[0].source === 'hand';
+    return { type: isStagedTrail ? 'finalizeTrail' : 'cancelStagingStack', payload: { stack: ownStack } };
+  }
+
+  if (hand.length === 0) return null;
+
+  const variant = getVariant(gameState);
+  const rules = getRules(gameState);
+  const position = { tableCards, playerCaptures: gameState.playerCaptures, teams: gameState.teams, variant, rules };
+  const trailMoves = listTrailMoves(hand, tableCards, playerIndex, round, variant, rules);
+  let chosen;
+
+  if (difficulty === 'easy') {
+    const moves = [
+      ...listCaptureMoves(hand, tableCards, playerIndex, variant),
+      ...listBuildMoves(hand, tableCards, playerIndex, variant, rules),
+      ...trailMoves,
+    ];
+    chosen = moves[Math.floor(Math.random() * moves.length)];
+  } else if (difficulty === 'hard') {
+    const moves = [
+      ...listCaptureMoves(hand, tableCards, playerIndex, variant),
+      ...listBuildMoves(hand, tableCards, playerIndex, variant, rules),
+      ...trailMoves,
+    ];
+    chosen = moves.length > 0 ? chooseLookAheadMove(gameState, playerIndex, moves) : null;
+  } else {
+    chosen = chooseGreedyMove(position, hand, playerIndex) || chooseTrailMove(trailMoves);
+  }
+
+  // Nothing is legal by our reckoning: trail and let the rules engine decide
+  if (!chosen) {
+    return { type: 'trail', payload: { card: hand[0] } };
+  }
+  return { type: chosen.type, payload: chosen.payload };
+};
+
+module.exports = {
+  AI_DIFFICULTIES,
+  DEFAULT_AI_DIFFICULTY,
+  chooseAIMove,
+};
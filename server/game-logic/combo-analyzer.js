@@ -1,4 +1,5 @@
 import { rankValue } from './index.js';
+import { getVariant } from './variants.js';
 
 /**
  * Advanced real-time combo analysis for casino card game builds
@@ -9,20 +10,21 @@ import { rankValue } from './index.js';
  * Analyzes a stack of cards to detect complete and incomplete combos
  * @param {Array} cards - Array of card objects in the stack
  * @param {number} targetValue - Expected value for all combos (optional for detection phase)
+ * @param {Object} variant - The game's variant, whose highest value caps the combos
  * @returns {Object} Analysis result with combo information
  */
-export const analyzeCardStack = (cards, targetValue = null) => {
+export const analyzeCardStack = (cards, targetValue = null, variant = getVariant()) => {
   if (!cards || cards.length === 0) {
     return { completeCombos: [], incompleteCards: [], firstComboValue: null };
   }
 
   // Find all possible combinations that sum to various values
-  const allCombinations = findAllPossibleCombinations(cards);
+  const allCombinations = findAllPossibleCombinations(cards, variant);
   
   // If we have a target value, filter to matching combinations
   if (targetValue !== null) {
     const matchingCombos = allCombinations.filter(combo => combo.value === targetValue);
-    return processTargetedCombos(matchingCombos, cards, targetValue);
+    return processTargetedCombos(matchingCombos, cards, targetValue, variant);
   }
   
   // Auto-detect first combo and analyze structure
@@ -32,9 +34,10 @@ export const analyzeCardStack = (cards, targetValue = null) => {
 /**
  * Finds all possible mathematical combinations from a set of cards
  * @param {Array} cards - Card objects to analyze
+ * @param {Object} variant - The game's variant, whose highest value caps the combos
  * @returns {Array} Array of combination objects with cards and values
  */
-const findAllPossibleCombinations = (cards) => {
+const findAllPossibleCombinations = (cards, variant) => {
   const combinations = [];
   const cardValues = cards.map(card => ({ 
     card, 
@@ -43,9 +46,9 @@ const findAllPossibleCombinations = (cards) => {
   }));
 
   // Add individual cards as standalone combos
-  // CASINO RULE: Only include cards with value ≤10 for consistency
+  // CASINO RULE: Only include cards up to the variant's highest value for consistency
   cardValues.forEach(cardVal => {
-    if (cardVal.value <= 10) {
+    if (cardVal.value <= variant.maxValue) {
       combinations.push({
         cards: [cardVal.card],
         value: cardVal.value,
@@ -56,14 +59,14 @@ const findAllPossibleCombinations = (cards) => {
   });
 
   // Find all possible mathematical combinations (2+ cards)
-  // CASINO RULE: Cap combinations at ≤10 to respect casino build limits
+  // CASINO RULE: Cap combinations at the variant's highest value to respect casino build limits
   for (let size = 2; size <= cardValues.length; size++) {
     const combos = generateCombinations(cardValues, size);
     combos.forEach(combo => {
       const sum = combo.reduce((total, cardVal) => total + cardVal.value, 0);
       
-      // CASINO CONSTRAINT: Only allow combinations ≤ 10
-      if (sum <= 10) {
+      // CASINO CONSTRAINT: Only allow combinations up to the highest value
+      if (sum <= variant.maxValue) {
         combinations.push({
           cards: combo.map(cv => cv.card),
           value: sum,
@@ -177,11 +180,12 @@ const getIncompleteCards = (allCards, completeCombos) => {
  * @param {Array} currentCards - Current cards in temp stack
  * @param {Object} newCard - New card being added
  * @param {number} targetValue - Expected combo value
+ * @param {Object} variant - The game's variant
  * @returns {Object} Validation result with success/error information
  */
-export const validateNewCardAddition = (currentCards, newCard, targetValue = null) => {
+export const validateNewCardAddition = (currentCards, newCard, targetValue = null, variant = getVariant()) => {
   const updatedCards = [...currentCards, newCard];
-  const analysis = analyzeCardStack(updatedCards, targetValue);
+  const analysis = analyzeCardStack(updatedCards, targetValue, variant);
 
   // TEMP BUILD MODE: Always allow during creation - validation happens at finalization only
   // This function is now only used for analysis, not blocking validation
@@ -257,20 +261,21 @@ const getComboDescription = (combo) => {
  * Gets ALL possible candidate target values for a set of cards
  * Used for comprehensive merge validation without known target
  * @param {Array} cards - Cards to analyze for target values
- * @returns {Array} Sorted unique target values ≤10
+ * @param {Object} variant - The game's variant, whose highest value caps the targets
+ * @returns {Array} Sorted unique target values up to the variant's highest value
  */
-export const getCandidateTargetValues = (cards) => {
+export const getCandidateTargetValues = (cards, variant = getVariant()) => {
   if (!cards || cards.length === 0) {
     return [];
   }
 
-  // Get all possible combinations (respecting casino ≤10 rule)
-  const allCombinations = findAllPossibleCombinations(cards);
+  // Get all possible combinations (respecting the casino build limit)
+  const allCombinations = findAllPossibleCombinations(cards, variant);
   
   // Extract unique values from all combinations
   const uniqueValues = new Set();
   allCombinations.forEach(combo => {
-    if (combo.value <= 10) { // Double-check casino constraint
+    if (combo.value <= variant.maxValue) { // Double-check casino constraint
       uniqueValues.add(combo.value);
     }
   });
@@ -282,19 +287,20 @@ export const getCandidateTargetValues = (cards) => {
 /**
  * Validates if combos in a stack are correctly sorted (big→small within each combo)
  * @param {Array} cards - Cards in the temp build
+ * @param {Object} variant - The game's variant
  * @returns {Object} { isValid, error, suggestion }
  */
-export const validateComboSorting = (cards) => {
+export const validateComboSorting = (cards, variant = getVariant()) => {
   if (!cards || cards.length === 0) {
     return { isValid: true, error: null, suggestion: null };
   }
 
   // Get all candidate target values 
-  const candidateTargets = getCandidateTargetValues(cards);
+  const candidateTargets = getCandidateTargetValues(cards, variant);
   
   // Try each target value to find valid partitions
   for (const targetValue of candidateTargets) {
-    const analysis = analyzeCardStack(cards, targetValue);
+    const analysis = analyzeCardStack(cards, targetValue, variant);
     
     // If we found a valid complete partition
     if (analysis.isValid && analysis.incompleteCards.length === 0) {
@@ -350,9 +356,9 @@ export const validateComboSorting = (cards) => {
  * Processes combinations when we have a specific target value
  * BULLETPROOF VERSION: Requires 100% card coverage or marks as invalid
  */
-const processTargetedCombos = (matchingCombos, allCards, targetValue) => {
+const processTargetedCombos = (matchingCombos, allCards, targetValue, variant) => {
   // Find the best partition of all cards into target-value combos
-  const partition = findBestPartition(allCards, targetValue);
+  const partition = findBestPartition(allCards, targetValue, variant);
   
   if (!partition.isValid) {
     return {
@@ -393,12 +399,12 @@ const processTargetedCombos = (matchingCombos, allCards, targetValue) => {
  * Finds the best way to partition cards into combos of target value using dynamic programming
  * This is the CORE algorithm for bulletproof validation
  */
-const findBestPartition = (cards, targetValue) => {
+const findBestPartition = (cards, targetValue, variant) => {
   if (!cards || cards.length === 0) {
     return { isValid: true, combos: [], remaining: [], error: null };
   }
 
-  const combinations = findAllPossibleCombinations(cards);
+  const combinations = findAllPossibleCombinations(cards, variant);
   const targetCombos = combinations.filter(combo => combo.value === targetValue);
   
   if (targetCombos.length === 0) {
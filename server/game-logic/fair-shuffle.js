@@ -0,0 +1,43 @@
+/**
+ * Fair Shuffle Module
+ * Commit–reveal proof that an online deal was fixed before play began: the server publishes a
+ * SHA-256 commitment of the shuffled deck at game start and reveals the seed and salt at game
+ * over, so any player can recompute the deck and check it against the commitment
+ */
+
+const crypto = require('crypto');
+const { createShuffledDeck } = require('./game-state.js');
+const { getVariant } = require('./variants.js');
+
+const SUIT_LETTERS = { '♠': 'S', '♥': 'H', '♦': 'D', '♣': 'C' };
+
+/**
+ * Writes a deck order as plain ASCII, e.g. "10D,AS,7C".
+ * @param {Array} deck - The cards in order.
+ * @returns {string} The deck order.
+ */
+const describeDeck = (deck) => deck.map(card => `${card.rank}${SUIT_LETTERS[card.suit]}`).join(',');
+
+/**
+ * Generates the secret salt that keeps a seed from being guessed from its commitment.
+ * @returns {string} 32 random hex characters.
+ */
+const generateSalt = () => crypto.randomBytes(16).toString('hex');
+
+/**
+ * Computes the commitment to a deal: the SHA-256 of the salt, the seed and the deck order it shuffles.
+ * @param {number} seed - The deal's normalized seed.
+ * @param {string} salt - A secret random salt, revealed with the seed once the game is over.
+ * @param {object} [variant] - The variant whose deck was shuffled (see ./variants).
+ * @returns {string} The commitment as 64 hex characters.
+ */
+const createDeckCommitment = (seed, salt, variant = getVariant()) => crypto
+  .createHash('sha256')
+  .update(`${salt}:${seed}:${describeDeck(createShuffledDeck(seed, variant))}`)
+  .digest('hex');
+
+module.exports = {
+  describeDeck,
+  generateSalt,
+  createDeckCommitment,
+};
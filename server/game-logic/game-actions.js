@@ -2,6 +2,9 @@ const { updateGameState, nextPlayer, logGameState } = require('./game-state.js')
 const { rankValue, removeCardFromHand, removeCardsFromTable, sortCardsByRank, calculateCardSum, generateBuildId, findOpponentMatchingCards, createCaptureStack } = require('./card-operations.js');
 const { canPartitionIntoSums } = require('./algorithms.js');
 const { validateBuild, findPossibleBuildsFromStack } = require('./validation.js');
+const { recordDeal } = require('./match.js');
+const { getVariant } = require('./variants.js');
+const { DEFAULT_RULES, getRules } = require('./rules.js');
 
 exports.handleTrail = (gameState, card) => {
   const { playerHands, tableCards, currentPlayer } = gameState;
@@ -30,7 +33,7 @@ exports.handleBuild = (gameState, draggedItem, tableCardsInBuild, buildValue, bi
   const playerHand = playerHands[currentPlayer];
 
   // 1. Validate the build
-  const validation = validateBuild(playerHand, playerCard, buildValue, tableCards, currentPlayer);
+  const validation = validateBuild(playerHand, playerCard, buildValue, tableCards, currentPlayer, getVariant(gameState), getRules(gameState));
   if (!validation.valid) {
     console.warn(validation.message);
     return gameState;
@@ -149,7 +152,7 @@ exports.handleBaseBuild = (gameState, draggedItem, baseCard, otherCardsInBuild)
 
 
   // Remove baseCard and otherCardsInBuild from table
-  const cardsToRemoveFromTable = [baseCard, ...otherCardsInBuild];
+  const cardsToRemoveFromTable = [baseCard, ...otherCardsInBuild.flat()];
   const finalTableCards = removeCardsFromTable(newTableCards, cardsToRemoveFromTable);
 
   // Construct the new build's cards array with proper combination grouping
@@ -445,7 +448,7 @@ exports.handleCapture = (gameState, draggedItem, selectedTableCards, opponentCar
   // Handle opponent's card removal if involved
   let finalPlayerCaptures = [...newPlayerCaptures];
   if (opponentCard) {
-    const opponentIndex = 1 - currentPlayer; // Get opponent's index
+    const opponentIndex = (currentPlayer + 1) % playerCaptures.length; // Get opponent's index
     finalPlayerCaptures[opponentIndex] = newPlayerCaptures[opponentIndex].map(group =>
       group.filter(card =>
         !(card.rank === opponentCard.rank && card.suit === opponentCard.suit)
@@ -496,8 +499,8 @@ exports.handleCapture = (gameState, draggedItem, selectedTableCards, opponentCar
 
   // Check for any cards with invalid player data
   const corruptedCards = finalTableCards.filter(c =>
-    (!c.type && c.player && (c.player < 0 || c.player > 1)) ||
-    (c.type && c.owner && (c.owner < 0 || c.owner > 1))
+    (!c.type && c.player && (c.player < 0 || c.player >= playerCaptures.length)) ||
+    (c.type && c.owner && (c.owner < 0 || c.owner >= playerCaptures.length))
   );
 
   if (corruptedCards.length > 0) {
@@ -509,11 +512,19 @@ exports.handleCapture = (gameState, draggedItem, selectedTableCards, opponentCar
     })));
   }
 
+  // Clearing the table is a sweep, unless it is the last play of the deal
+  const isLastPlay = gameState.deck.length === 0 && newPlayerHands.every(hand => hand.length === 0);
+  const sweeps = [...(gameState.sweeps || playerCaptures.map(() => 0))];
+  if (finalTableCards.length === 0 && !isLastPlay) {
+    sweeps[currentPlayer] += 1;
+  }
+
   const newState = updateGameState(gameState, {
     playerHands: newPlayerHands,
     tableCards: finalTableCards,
     playerCaptures: finalPlayerCaptures,
     lastCapturer: currentPlayer,
+    ...(sweeps.some(count => count > 0) ? { sweeps } : {}), // Sweeps made by each seat
   });
 
   const captureDescription = opponentCard
@@ -526,28 +537,33 @@ exports.handleCapture = (gameState, draggedItem, selectedTableCards, opponentCar
 
 /**
  * Transitions the game to the next round, dealing new cards and carrying over table cards.
+ * A variant that draws after every play is a single round, so its game is left as it is.
  * @param {object} gameState - The current game state.
- * @returns {object} The updated game state for the new round.
+ * @returns {object} The updated game state for the new round, or the same state when there is none.
  */
 exports.startNextRound = (gameState) => {
   let { deck, playerHands, tableCards } = gameState;
 
-  // Per the rules, 20 cards should be left for round 2.
-  if (deck.length < 20) {
+  if (getVariant(gameState).draw) {
+    return gameState;
+  }
+
+  // Per the rules, the rest of the deck is dealt out evenly for round 2.
+  const handSize = Math.floor(deck.length / playerHands.length);
+  if (handSize === 0) {
     console.error("Not enough cards in the deck to start round 2.", deck.length);
     // This might indicate an end-of-game condition if the deck is empty.
     return gameState;
   }
 
-  const newPlayerHands = [[...playerHands[0]], [...playerHands[1]]];
+  const newPlayerHands = playerHands.map(hand => [...hand]);
 
   // Create a copy of the deck to avoid mutating the original
   let workingDeck = [...deck];
 
-  // Deal 10 cards to each player for round 2
-  for (let i = 0; i < 10; i++) {
-    if (workingDeck.length > 0) newPlayerHands[0].push(workingDeck.pop());
-    if (workingDeck.length > 0) newPlayerHands[1].push(workingDeck.pop());
+  // Deal round 2 one card at a time around the table
+  for (let i = 0; i < handSize; i++) {
+    newPlayerHands.forEach(hand => hand.push(workingDeck.pop()));
   }
 
   return updateGameState(gameState, {
@@ -572,7 +588,7 @@ exports.handleSweep = (gameState) => {
   }
 
   const flattenedTableCards = tableCards.flatMap(item =>
-    item.type === 'build' ? item.cards : [item]
+    (item.type === 'build' || item.type === 'temporary_stack') ? item.cards : [item]
   );
 
   const newPlayerCaptures = [...playerCaptures];
@@ -589,77 +605,84 @@ exports.handleSweep = (gameState) => {
 };
 
 /**
- * Calculates the final scores for each player based on the rules in GEMINI.md.
- * @param {Array<Array<Array<Card>>>} playerCaptures - The captured cards for both players.
- * @returns {Array<number>} The final scores for player 1 and player 2.
+ * Awards a "most of" category: its full points to the side alone in the lead, half of them
+ * (rounded down) to each side sharing it, and nothing when no side has any.
+ * @param {Array<number>} counts - The count for each side.
+ * @param {number} points - What the category is worth.
+ * @returns {Array<number>} The points for each side.
  */
-exports.calculateScores = (playerCaptures) => {
-  const details = [
-    { mostCards: 0, mostSpades: 0, bigCasino: 0, littleCasino: 0, aces: 0, total: 0, cardCount: 0, spadeCount: 0 },
-    { mostCards: 0, mostSpades: 0, bigCasino: 0, littleCasino: 0, aces: 0, total: 0, cardCount: 0, spadeCount: 0 }
-  ];
-
-  const allPlayerCards = playerCaptures.map(captures => captures.flat());
-
-  // Tally card counts and spade counts
-  details[0].cardCount = allPlayerCards[0].length;
-  details[1].cardCount = allPlayerCards[1].length;
-  details[0].spadeCount = allPlayerCards[0].filter(c => c.suit === '♠').length;
-  details[1].spadeCount = allPlayerCards[1].filter(c => c.suit === '♠').length;
-
-  // Award points for Most Cards (2 pts for most, 1 pt each for a tie)
-  if (details[0].cardCount > details[1].cardCount) {
-    details[0].mostCards = 2;
-  } else if (details[1].cardCount > details[0].cardCount) {
-    details[1].mostCards = 2;
-  } else if (details[0].cardCount > 0 && details[0].cardCount === details[1].cardCount) {
-    details[0].mostCards = 1;
-    details[1].mostCards = 1;
-  }
+const awardMost = (counts, points) => {
+  const best = Math.max(...counts);
+  const leaders = counts.filter(count => count === best).length;
+  return counts.map(count => (best > 0 && count === best ? (leaders === 1 ? points : Math.floor(points / 2)) : 0));
+};
 
-  // Award points for Most Spades (2 pts for most, 1 pt each for a tie)
-  if (details[0].spadeCount > details[1].spadeCount) {
-    details[0].mostSpades = 2;
-  } else if (details[1].spadeCount > details[0].spadeCount) {
-    details[1].mostSpades = 2;
-  } else if (details[0].spadeCount > 0 && details[0].spadeCount === details[1].spadeCount) {
-    details[0].mostSpades = 1;
-    details[1].mostSpades = 1;
-  }
+/**
+ * Calculates the final scores for each side based on the rules in GEMINI.md.
+ * Partners pool their captures, so a team is scored as if one player had taken every card.
+ * @param {Array<Array<Array<Card>>>} playerCaptures - The captured cards for every seat.
+ * @param {Array<Array<number>>} [teams] - The seats on each team; every seat scores alone when omitted.
+ * @param {object} [scoring] - What each category is worth (the scoring of the house rules, see ./rules).
+ * @param {Array<number>} [sweeps] - The sweeps each seat made.
+ * @returns {object} { scores, details, winner }, indexed by side; the winner is null on a tie.
+ */
+exports.calculateScores = (playerCaptures, teams = null, scoring = DEFAULT_RULES.scoring, sweeps = []) => {
+  const sides = teams || playerCaptures.map((captures, seat) => [seat]);
+  const allSideCards = sides.map(seats => seats.flatMap(seat => playerCaptures[seat].flat()));
+
+  const details = allSideCards.map(cards => ({
+    mostCards: 0, mostSpades: 0, bigCasino: 0, littleCasino: 0, aces: 0, sweeps: 0, total: 0,
+    cardCount: cards.length,
+    spadeCount: cards.filter(c => c.suit === '♠').length,
+  }));
+
+  // Award points for Most Cards and Most Spades (half the points each for a tie)
+  awardMost(details.map(d => d.cardCount), scoring.mostCards).forEach((points, side) => { details[side].mostCards = points; });
+  awardMost(details.map(d => d.spadeCount), scoring.mostSpades).forEach((points, side) => { details[side].mostSpades = points; });
 
   // Award points for specific cards
-  allPlayerCards.forEach((cards, playerIndex) => {
+  allSideCards.forEach((cards, side) => {
     cards.forEach(card => {
-      if (card.rank === 'A') details[playerIndex].aces += 1;
-      if (card.rank === '10' && card.suit === '♦') details[playerIndex].bigCasino = 2;
-      if (card.rank === '2' && card.suit === '♠') details[playerIndex].littleCasino = 1;
+      if (card.rank === 'A') details[side].aces += scoring.aces;
+      if (card.rank === '10' && card.suit === '♦') details[side].bigCasino = scoring.bigCasino;
+      if (card.rank === '2' && card.suit === '♠') details[side].littleCasino = scoring.littleCasino;
     });
   });
 
+  // Award points for sweeps
+  sides.forEach((seats, side) => {
+    details[side].sweepCount = seats.reduce((count, seat) => count + (sweeps[seat] || 0), 0);
+    details[side].sweeps = details[side].sweepCount * scoring.sweep;
+  });
+
   // Calculate total scores
-  details.forEach((playerDetails) => {
-    playerDetails.total =
-      playerDetails.mostCards +
-      playerDetails.mostSpades +
-      playerDetails.bigCasino +
-      playerDetails.littleCasino +
-      playerDetails.aces;
+  details.forEach((sideDetails) => {
+    sideDetails.total =
+      sideDetails.mostCards +
+      sideDetails.mostSpades +
+      sideDetails.bigCasino +
+      sideDetails.littleCasino +
+      sideDetails.aces +
+      sideDetails.sweeps;
   });
 
   const finalScores = details.map(d => d.total);
-  const winner = finalScores[0] > finalScores[1] ? 0 : (finalScores[1] > finalScores[0] ? 1 : null);
+  const best = Math.max(...finalScores);
+  const winner = finalScores.filter(score => score === best).length === 1 ? finalScores.indexOf(best) : null;
 
   return { scores: finalScores, details, winner };
 };
 
 /**
  * Ends the game, calculates scores, and determines the winner.
+ * In match play the deal's scores are also added to the match totals.
  * @param {object} gameState - The current game state.
  * @returns {object} The final game state with scores and winner.
  */
 exports.endGame = (gameState) => {
-  const { scores, details, winner } = calculateScores(gameState.playerCaptures);
-  return updateGameState(gameState, { scores, winner, scoreDetails: details, gameOver: true });
+  const { scores, details, winner } = exports.calculateScores(gameState.playerCaptures, gameState.teams, getRules(gameState).scoring, gameState.sweeps);
+  const match = gameState.match ? { match: recordDeal(gameState.match, scores) } : {};
+  return updateGameState(gameState, { scores, winner, scoreDetails: details, gameOver: true, ...match });
 };
 
 /**
@@ -739,7 +762,7 @@ exports.handleAddToStagingStack = (gameState, handCard, targetStack) => {
 
   // 3. Update the table by replacing the old stack with the new one
   const stackIndex = tableCards.findIndex(s => s.stackId === targetStack.stackId);
-  const newTableCards = [...tableCards];
+  let newTableCards = [...tableCards];
   if (stackIndex !== -1) {
     newTableCards[stackIndex] = newStack;
   } else {
@@ -784,7 +807,7 @@ exports.handleDisbandStagingStack = (gameState, stackToDisband) => {
 
   // 3. Update opponent's capture pile (if applicable)
   if (opponentCards.length > 0) {
-    const opponentIndex = 1 - currentPlayer;
+    const opponentIndex = stackToDisband.borrowedFrom ?? (currentPlayer + 1) % playerCaptures.length;
     let opponentCaps = [...(playerCaptures[opponentIndex] || [])];
     if (opponentCaps.length > 0) {
       // Add cards back to the last capture group
@@ -850,7 +873,7 @@ exports.handleCancelStagingStack = (gameState, stackToCancel) => {
 
   // 3. Update opponent's capture pile (if applicable)
   if (opponentCards.length > 0) {
-    const opponentIndex = 1 - currentPlayer;
+    const opponentIndex = stackToCancel.borrowedFrom ?? (currentPlayer + 1) % playerCaptures.length;
     let opponentCaps = [...(playerCaptures[opponentIndex] || [])];
     if (opponentCaps.length > 0) {
       // Add cards back to the last capture group
@@ -914,7 +937,7 @@ exports.handleFinalizeStagingStack = (gameState, stack) => {
   const playerHand = playerHands[currentPlayer];
 
   // Find all possible valid builds from this stack
-  const possibleBuilds = findPossibleBuildsFromStack(stack, playerHand, tableCards, currentPlayer);
+  const possibleBuilds = findPossibleBuildsFromStack(stack, playerHand, tableCards, currentPlayer, getVariant(gameState), getRules(gameState));
 
   if (possibleBuilds.length === 0) {
     return { error: true, message: "This stack does not form a valid build with any card in your hand." };
@@ -1080,32 +1103,6 @@ const handleReinforceOpponentBuildWithStack = (gameState, stack, opponentBuild)
   return updateGameState(gameState, { tableCards: newTableCards });
 }; 
 
-module.exports = {
-  handleTrail: exports.handleTrail,
-  handleBuild: exports.handleBuild,
-  handleReinforceBuildWithStack: exports.handleReinforceBuildWithStack,
-  handleBaseBuild: exports.handleBaseBuild,
-  handleCreateBuildFromStack: exports.handleCreateBuildFromStack,
-  handleAddToOpponentBuild: exports.handleAddToOpponentBuild,
-  handleAddToOwnBuild: exports.handleAddToOwnBuild,
-  handleCapture: exports.handleCapture,
-  startNextRound: exports.startNextRound,
-  handleSweep: exports.handleSweep,
-  calculateScores: exports.calculateScores,
-  endGame: exports.endGame,
-  handleCreateStagingStack: exports.handleCreateStagingStack,
-  handleAddToStagingStack: exports.handleAddToStagingStack,
-  handleDisbandStagingStack: exports.handleDisbandStagingStack,
-  handleCancelStagingStack: exports.handleCancelStagingStack,
-  handleMergeIntoOwnBuild: exports.handleMergeIntoOwnBuild,
-  handleStageOpponentCard: exports.handleStageOpponentCard,
-  handleExtendToMerge: exports.handleExtendToMerge,
-  handleFinalizeStagingStack: exports.handleFinalizeStagingStack,
-  handleCreateBuildWithValue: exports.handleCreateBuildWithValue,
-  handleStageSingleCardFromHand: exports.handleStageSingleCardFromHand,
-  handleFinalizeTrail: exports.handleFinalizeTrail,
-  handleReinforceOpponentBuildWithStack: exports.handleReinforceOpponentBuildWithStack,
-};
 
 
 /**
@@ -1113,9 +1110,10 @@ module.exports = {
  * This action does not end the player's turn.
  * @param {object} gameState - The current game state.
  * @param {object} opponentCard - The card from the opponent's capture pile.
+ * @param {number} [fromSeat] - The 0-based seat whose pile the card is taken from; the next seat when omitted.
  * @returns {object} The updated game state.
  */
-exports.handleStageOpponentCard = (gameState, opponentCard) => {
+exports.handleStageOpponentCard = (gameState, opponentCard, fromSeat = null) => {
   let { playerCaptures, tableCards, currentPlayer } = gameState;
 
   // CASINO RULE: Players can only have one temp build active at a time
@@ -1128,7 +1126,7 @@ exports.handleStageOpponentCard = (gameState, opponentCard) => {
   }
 
   // 1. Remove the card from the opponent's capture pile
-  const opponentIndex = 1 - currentPlayer;
+  const opponentIndex = fromSeat ?? (currentPlayer + 1) % playerCaptures.length;
   const opponentCaps = playerCaptures[opponentIndex] || [];
 
   const newOpponentCaps = opponentCaps.map((group, index) =>
@@ -1144,6 +1142,7 @@ exports.handleStageOpponentCard = (gameState, opponentCard) => {
     type: 'temporary_stack',
     cards: [{ ...opponentCard, source: 'opponentCapture' }], // Tag the card with its origin
     owner: currentPlayer,
+    borrowedFrom: opponentIndex, // Where the card goes back to if the stack is cancelled
   };
 
   // 3. Return the new state without ending the turn.
@@ -1197,7 +1196,7 @@ exports.handleFinalizeStagingStack = (gameState, stack) => {
   const playerHand = playerHands[currentPlayer];
 
   // Find all possible valid builds from this stack
-  const possibleBuilds = findPossibleBuildsFromStack(stack, playerHand, tableCards, currentPlayer);
+  const possibleBuilds = findPossibleBuildsFromStack(stack, playerHand, tableCards, currentPlayer, getVariant(gameState), getRules(gameState));
 
   if (possibleBuilds.length === 0) {
     return { error: true, message: "This stack does not form a valid build with any card in your hand." };
@@ -1368,9 +1367,10 @@ exports.handleReinforceOpponentBuildWithStack = (gameState, stack, opponentBuild
  * This action does not end the player's turn.
  * @param {object} gameState - The current game state.
  * @param {object} opponentCard - The card from the opponent's capture pile.
+ * @param {number} [fromSeat] - The 0-based seat whose pile the card is taken from; the next seat when omitted.
  * @returns {object} The updated game state.
  */
-exports.handleStageOpponentCard = (gameState, opponentCard) => {
+exports.handleStageOpponentCard = (gameState, opponentCard, fromSeat = null) => {
   let { playerCaptures, tableCards, currentPlayer } = gameState;
 
   // CASINO RULE: Players can only have one temp build active at a time
@@ -1383,7 +1383,7 @@ exports.handleStageOpponentCard = (gameState, opponentCard) => {
   }
 
   // 1. Remove the card from the opponent's capture pile
-  const opponentIndex = 1 - currentPlayer;
+  const opponentIndex = fromSeat ?? (currentPlayer + 1) % playerCaptures.length;
   const opponentCaps = playerCaptures[opponentIndex] || [];
 
   const newOpponentCaps = opponentCaps.map((group, index) =>
@@ -1399,6 +1399,7 @@ exports.handleStageOpponentCard = (gameState, opponentCard) => {
     type: 'temporary_stack',
     cards: [{ ...opponentCard, source: 'opponentCapture' }], // Tag the card with its origin
     owner: currentPlayer,
+    borrowedFrom: opponentIndex, // Where the card goes back to if the stack is cancelled
   };
 
   // 3. Return the new state without ending the turn
@@ -1452,7 +1453,7 @@ exports.handleFinalizeStagingStack = (gameState, stack) => {
   const playerHand = playerHands[currentPlayer];
 
   // Find all possible valid builds from this stack
-  const possibleBuilds = findPossibleBuildsFromStack(stack, playerHand, tableCards, currentPlayer);
+  const possibleBuilds = findPossibleBuildsFromStack(stack, playerHand, tableCards, currentPlayer, getVariant(gameState), getRules(gameState));
 
   if (possibleBuilds.length === 0) {
     return { error: true, message: "This stack does not form a valid build with any card in your hand." };
@@ -1617,3 +1618,30 @@ exports.handleReinforceOpponentBuildWithStack = (gameState, stack, opponentBuild
   // 5. Return the new state, but DO NOT end the player's turn.
   return updateGameState(gameState, { tableCards: newTableCards });
 };
+
+module.exports = {
+  handleTrail: exports.handleTrail,
+  handleBuild: exports.handleBuild,
+  handleReinforceBuildWithStack: exports.handleReinforceBuildWithStack,
+  handleBaseBuild: exports.handleBaseBuild,
+  handleCreateBuildFromStack: exports.handleCreateBuildFromStack,
+  handleAddToOpponentBuild: exports.handleAddToOpponentBuild,
+  handleAddToOwnBuild: exports.handleAddToOwnBuild,
+  handleCapture: exports.handleCapture,
+  startNextRound: exports.startNextRound,
+  handleSweep: exports.handleSweep,
+  calculateScores: exports.calculateScores,
+  endGame: exports.endGame,
+  handleCreateStagingStack: exports.handleCreateStagingStack,
+  handleAddToStagingStack: exports.handleAddToStagingStack,
+  handleDisbandStagingStack: exports.handleDisbandStagingStack,
+  handleCancelStagingStack: exports.handleCancelStagingStack,
+  handleMergeIntoOwnBuild: exports.handleMergeIntoOwnBuild,
+  handleStageOpponentCard: exports.handleStageOpponentCard,
+  handleExtendToMerge: exports.handleExtendToMerge,
+  handleFinalizeStagingStack: exports.handleFinalizeStagingStack,
+  handleCreateBuildWithValue: exports.handleCreateBuildWithValue,
+  handleStageSingleCardFromHand: exports.handleStageSingleCardFromHand,
+  handleFinalizeTrail: exports.handleFinalizeTrail,
+  handleReinforceOpponentBuildWithStack: exports.handleReinforceOpponentBuildWithStack,
+};
@@ -8,6 +8,10 @@
 export {
   initializeGame,
   shuffleDeck,
+  generateSeed,
+  normalizeSeed,
+  createSeededRandom,
+  createShuffledDeck,
   updateGameState,
   nextPlayer,
   logGameState
@@ -44,6 +48,7 @@ export {
   validateMergeIntoOwnBuild,
   findPossibleBuildsFromStack,
   validateComplexCapture,
+  validateCaptureWithOwnBuild,
   validateAddToOwnBuild,
   validateReinforceBuildWithStack,
   validateExtendToMerge,
@@ -0,0 +1,50 @@
+/**
+ * Variants Module
+ * The rules variants a game can be dealt for: which ranks make up the deck, how high a build
+ * or capture can go and whether hands are dealt in two rounds or drawn up after every play
+ */
+
+const VARIANTS = {
+  // Aces to tens; builds go up to 10
+  standard: {
+    name: 'standard',
+    label: 'Casino',
+    ranks: ['A', '2', '3', '4', '5', '6', '7', '8', '9', '10'],
+    maxValue: 10,
+    aceValues: [1],
+  },
+  // The full deck: Jacks, Queens and Kings are worth 11, 12 and 13, an Ace captures as 1 or 14,
+  // and builds go up to 14
+  royal: {
+    name: 'royal',
+    label: 'Royal Casino',
+    ranks: ['A', '2', '3', '4', '5', '6', '7', '8', '9', '10', 'J', 'Q', 'K'],
+    maxValue: 14,
+    aceValues: [1, 14],
+  },
+  // Aces to tens, played in a single round: four cards go to each hand and four to the table,
+  // and after every play the player draws back up to four until the deck runs out
+  draw: {
+    name: 'draw',
+    label: 'Draw Casino',
+    ranks: ['A', '2', '3', '4', '5', '6', '7', '8', '9', '10'],
+    maxValue: 10,
+    aceValues: [1],
+    draw: { handSize: 4, tableCount: 4 },
+  },
+};
+
+const DEFAULT_VARIANT = 'standard';
+
+/**
+ * Looks up the variant a game is played with.
+ * @param {object} [gameState] - The game state; games dealt before variants existed play the default.
+ * @returns {object} The variant ({ name, label, ranks, maxValue, aceValues, draw? }).
+ */
+const getVariant = (gameState) => VARIANTS[gameState && gameState.variant] || VARIANTS[DEFAULT_VARIANT];
+
+module.exports = {
+  VARIANTS,
+  DEFAULT_VARIANT,
+  getVariant,
+};
@@ -0,0 +1,34 @@
+/**
+ * Player View Module
+ * Projects the authoritative game state into what a single seat is allowed to see
+ */
+
+const { getTurnTimeLeft } = require('./turn-clock');
+
+/**
+ * Builds the view of the game state for one seat.
+ * The seat sees its own hand; other hands and the deck are reduced to counts.
+ * The deal's seed would reveal every card, so it is only shown once the game is over.
+ * In timed games the view also carries the time left in the current turn, as of when it is sent.
+ * @param {object} gameState - The authoritative game state.
+ * @param {number} seat - The 0-based seat the view is for.
+ * @param {number} [now] - The current time in milliseconds.
+ * @returns {object} The redacted player view.
+ */
+const createPlayerView = (gameState, seat, now = Date.now()) => {
+  const { deck, playerHands, seed, ...publicState } = gameState;
+
+  return {
+    ...publicState,
+    ...(gameState.gameOver ? { seed } : {}),
+    ...(gameState.clock ? { turnMsLeft: getTurnTimeLeft(gameState.clock, now) } : {}),
+    playerHands: playerHands.map((hand, index) => (index === seat ? hand : [])),
+    handCounts: playerHands.map(hand => hand.length),
+    deckCount: deck.length,
+    seat,
+  };
+};
+
+module.exports = {
+  createPlayerView,
+};
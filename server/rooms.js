@@ -0,0 +1,347 @@
+/**
+ * Room Manager
+ * Keeps track of game rooms, the seats inside them and each room's game state
+ */
+
+const crypto = require('crypto');
+const { generateSeed, normalizeSeed } = require('./game-logic/game-state');
+const { DEFAULT_VARIANT } = require('./game-logic/variants');
+
+const ROOM_SIZE = 2; // Seats in a room created without a seating
+const ROOM_CODE_LENGTH = 5;
+// Letters only, without the easily confused I and O
+const ROOM_CODE_ALPHABET = 'ABCDEFGHJKLMNPQRSTUVWXYZ';
+
+const rooms = new Map();
+
+// Where rooms are persisted; rooms live only in memory until a store is set
+let roomStore = null;
+
+/**
+ * Sets the store rooms are persisted to.
+ * @param {object} store - A room store (see ./storage).
+ */
+const setRoomStore = (store) => {
+  roomStore = store;
+};
+
+/**
+ * Saves a room to the room store after it changed. Failures are logged, not thrown, so a
+ * storage problem never interrupts a game.
+ * @param {object} room - The room.
+ */
+const persistRoom = (room) => {
+  if (!roomStore || !rooms.has(room.code)) return;
+  roomStore.saveRoom(room).catch(error => console.error(`Could not save room ${room.code}:`, error.message));
+};
+
+/**
+ * Deletes a room and its stored copy.
+ * @param {object} room - The room.
+ */
+const deleteRoom = (room) => {
+  rooms.delete(room.code);
+  if (roomStore) {
+    roomStore.deleteRoom(room.code).catch(error => console.error(`Could not delete room ${room.code}:`, error.message));
+  }
+};
+
+/**
+ * Loads the rooms left in the room store by a previous run of the server.
+ * Nobody is connected any more, so every human seat is held as if its player had just dropped.
+ * @returns {Promise<Array<object>>} The restored rooms.
+ */
+const restoreRooms = async () => {
+  if (!roomStore) return [];
+
+  const restored = await roomStore.loadRooms();
+  restored.forEach(room => {
+    room.seats = room.seats.map(seatInfo => (seatInfo && !isComputerSeat(seatInfo)
+      ? { ...seatInfo, socketId: null, connected: false }
+      : seatInfo));
+    rooms.set(room.code, room);
+    persistRoom(room);
+  });
+  return restored;
+};
+
+/**
+ * Normalizes a user-entered room code (trims whitespace, upper-cases).
+ * @param {string} code - The raw room code.
+ * @returns {string} The normalized room code.
+ */
+const normalizeRoomCode = (code) => String(code || '').trim().toUpperCase();
+
+/**
+ * Generates a room code that is not currently in use.
+ * @returns {string} A unique room code.
+ */
+const generateRoomCode = () => {
+  let code;
+  do {
+    code = '';
+    for (let i = 0; i < ROOM_CODE_LENGTH; i++) {
+      code += ROOM_CODE_ALPHABET[Math.floor(Math.random() * ROOM_CODE_ALPHABET.length)];
+    }
+  } while (rooms.has(code));
+  return code;
+};
+
+/**
+ * Creates a new, empty room.
+ * The deal is seeded by the server, never by a player, so nobody can know the cards in advance.
+ * @param {string} [name] - Optional display name for the room.
+ * @param {object} [timeControl] - The validated time control; the room plays without a clock when omitted.
+ * @param {number} [matchTarget] - The score that wins a match of several deals; a single deal is played when omitted.
+ * @param {object} [seating] - The validated seating ({ seatCount, partnerships }); two players play alone when omitted.
+ * @param {string} [variant] - The rules variant the room is dealt for; standard Casino when omitted.
+ * @param {object} [rules] - The validated house rules; the defaults are played when omitted.
+ * @param {number|string} [seed] - The seed for the room's first deal, set on the server to reproduce a game; random when omitted.
+ * @returns {object} The new room.
+ */
+const createRoom = (name, timeControl = null, matchTarget = null, seating = null, variant = DEFAULT_VARIANT, rules = null, seed = null) => {
+  const code = generateRoomCode();
+  const room = {
+    code,
+    name: name && String(name).trim() ? String(name).trim() : `Room ${code}`,
+    seats: Array(seating ? seating.seatCount : ROOM_SIZE).fill(null), // { socketId, sessionToken, connected, computer? }, indexed by 0-based player number
+    partnerships: Boolean(seating && seating.partnerships), // Opposite seats play as a team
+    seed: seed === null ? generateSeed() : normalizeSeed(seed),
+    timeControl, // { mode, moveSeconds, bankSeconds, incrementSeconds, penalty }, or null for no clock
+    matchTarget,
+    variant,
+    rules,
+    gameState: null,
+    actionLog: null, // Every action applied in the current game
+    rematchOffers: [], // Seats that asked to play again once the game is over
+    createdAt: Date.now(),
+  };
+  rooms.set(code, room);
+  persistRoom(room);
+  return room;
+};
+
+/**
+ * Looks up a room by its code.
+ * @param {string} code - The room code.
+ * @returns {object|null} The room, or null if it does not exist.
+ */
+const getRoom = (code) => rooms.get(normalizeRoomCode(code)) || null;
+
+/**
+ * Finds the seat index a socket is sitting in.
+ * @param {object} room - The room to search.
+ * @param {string} socketId - The socket id.
+ * @returns {number} The 0-based seat, or -1 if the socket is not seated here.
+ */
+const findSeatBySocket = (room, socketId) => {
+  return room.seats.findIndex(s => s !== null && s.socketId === socketId);
+};
+
+/**
+ * Seats a socket in the first free seat of a room and issues its session token.
+ * @param {string} code - The room code.
+ * @param {string} socketId - The joining socket's id.
+ * @returns {object} { room, seat, sessionToken } on success, or { error } with a message.
+ */
+const joinRoom = (code, socketId) => {
+  const room = getRoom(code);
+  if (!room) {
+    return { error: `Room ${normalizeRoomCode(code)} does not exist.` };
+  }
+
+  const existingSeat = findSeatBySocket(room, socketId);
+  if (existingSeat !== -1) {
+    return { room, seat: existingSeat, sessionToken: room.seats[existingSeat].sessionToken };
+  }
+
+  const seat = room.seats.indexOf(null);
+  if (seat === -1 || room.gameState) {
+    return { error: `Room ${room.code} is full.` };
+  }
+
+  const sessionToken = crypto.randomUUID();
+  room.seats[seat] = { socketId, sessionToken, connected: true };
+  persistRoom(room);
+  return { room, seat, sessionToken };
+};
+
+/**
+ * Seats a computer player in the first free seat of a room.
+ * @param {object} room - The room.
+ * @param {string} difficulty - The computer's difficulty ('easy', 'medium' or 'hard').
+ * @returns {object} { room, seat } on success, or { error } with a message.
+ */
+const seatComputer = (room, difficulty) => {
+  const seat = room.seats.indexOf(null);
+  if (seat === -1 || room.gameState) {
+    return { error: `Room ${room.code} is full.` };
+  }
+
+  room.seats[seat] = { socketId: null, sessionToken: null, connected: true, computer: difficulty };
+  persistRoom(room);
+  return { room, seat };
+};
+
+/**
+ * Checks whether a seat is played by the computer.
+ * @param {object|null} seatInfo - The seat entry.
+ * @returns {boolean} True for a computer seat.
+ */
+const isComputerSeat = (seatInfo) => Boolean(seatInfo && seatInfo.computer);
+
+/**
+ * Puts a reconnecting socket back into the seat its session token reserves.
+ * @param {string} code - The room code.
+ * @param {string} sessionToken - The token issued when the seat was first taken.
+ * @param {string} socketId - The new socket id.
+ * @returns {object} { room, seat } on success, or { error } with a message.
+ */
+const resumeSeat = (code, sessionToken, socketId) => {
+  const room = getRoom(code);
+  if (!room) {
+    return { error: 'This game no longer exists.' };
+  }
+  // Seats without a session token must never match a missing one
+  if (typeof sessionToken !== 'string' || sessionToken === '') {
+    return { error: 'Your seat in this game is no longer reserved.' };
+  }
+
+  const seat = room.seats.findIndex(s => s !== null && !isComputerSeat(s) && s.sessionToken === sessionToken);
+  if (seat === -1) {
+    return { error: 'Your seat in this game is no longer reserved.' };
+  }
+
+  room.seats[seat] = { ...room.seats[seat], socketId, connected: true };
+  persistRoom(room);
+  return { room, seat };
+};
+
+/**
+ * Finds the room and seat a socket is sitting in.
+ * @param {string} socketId - The socket id.
+ * @returns {object|null} { room, seat }, or null if the socket is not in a room.
+ */
+const findRoomBySocket = (socketId) => {
+  for (const room of rooms.values()) {
+    const seat = findSeatBySocket(room, socketId);
+    if (seat !== -1) {
+      return { room, seat };
+    }
+  }
+  return null;
+};
+
+/**
+ * Keeps a socket's seat reserved after it disconnects, so its session can resume it.
+ * @param {string} socketId - The disconnected socket's id.
+ * @returns {object|null} { room, seat } that is now reserved, or null if the socket was not seated.
+ */
+const reserveSeat = (socketId) => {
+  const found = findRoomBySocket(socketId);
+  if (!found) return null;
+
+  const { room, seat } = found;
+  room.seats[seat] = { ...room.seats[seat], socketId: null, connected: false };
+  persistRoom(room);
+  return found;
+};
+
+/**
+ * Frees a seat. Rooms without a human player left are deleted.
+ * @param {object} room - The room.
+ * @param {number} seat - The 0-based seat to free.
+ */
+const releaseSeat = (room, seat) => {
+  room.seats[seat] = null;
+
+  if (room.seats.every(s => s === null || isComputerSeat(s))) {
+    deleteRoom(room);
+  } else {
+    persistRoom(room);
+  }
+};
+
+/**
+ * Frees the seat held by a socket. Empty rooms are deleted.
+ * @param {string} socketId - The socket id.
+ * @returns {object|null} { room, seat } the socket left, or null if it was not seated.
+ */
+const leaveRoom = (socketId) => {
+  const found = findRoomBySocket(socketId);
+  if (!found) return null;
+
+  releaseSeat(found.room, found.seat);
+  return found;
+};
+
+/**
+ * Clears a finished deal so the room can be dealt again, from a fresh seed.
+ * @param {object} room - The room whose game is over.
+ */
+const resetRoomForNextDeal = (room) => {
+  room.seed = generateSeed();
+  room.gameState = null;
+  room.actionLog = null;
+  room.rematchOffers = [];
+  persistRoom(room);
+};
+
+/**
+ * Clears a finished game for a rematch. Every player moves one seat on, so someone else
+ * starts the next game; partners stay opposite each other.
+ * @param {object} room - The room whose game is over.
+ */
+const resetRoomForRematch = (room) => {
+  room.seats = [...room.seats.slice(1), room.seats[0]];
+  resetRoomForNextDeal(room);
+};
+
+/**
+ * Checks whether every seat in a room is taken.
+ * @param {object} room - The room.
+ * @returns {boolean} True if the room is full.
+ */
+const isRoomFull = (room) => room.seats.every(s => s !== null);
+
+/**
+ * Lists rooms that are waiting for players.
+ * @returns {Array<object>} Summaries of the open rooms.
+ */
+const listOpenRooms = () => {
+  return [...rooms.values()]
+    .filter(room => !room.gameState && !isRoomFull(room))
+    .map(room => ({
+      code: room.code,
+      name: room.name,
+      players: room.seats.filter(s => s !== null).length,
+      capacity: room.seats.length,
+      partnerships: room.partnerships,
+      timeControl: room.timeControl,
+      matchTarget: room.matchTarget,
+      variant: room.variant,
+      rules: room.rules,
+    }));
+};
+
+module.exports = {
+  ROOM_SIZE,
+  setRoomStore,
+  persistRoom,
+  restoreRooms,
+  createRoom,
+  getRoom,
+  joinRoom,
+  seatComputer,
+  isComputerSeat,
+  resumeSeat,
+  reserveSeat,
+  releaseSeat,
+  leaveRoom,
+  resetRoomForNextDeal,
+  resetRoomForRematch,
+  findRoomBySocket,
+  isRoomFull,
+  listOpenRooms,
+  normalizeRoomCode,
+};
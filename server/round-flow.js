@@ -0,0 +1,46 @@
+/**
+ * Round Flow
+ * Moves a game on once every hand is empty: deals round 2, or sweeps the table and scores the game
+ */
+
+const { startNextRound, handleSweep, endGame } = require('./game-logic/game-actions');
+
+/**
+ * Checks whether the current round has been played out.
+ * @param {object} gameState - The current game state.
+ * @returns {boolean} True if every hand is empty, no staging stack is waiting to be
+ *   confirmed and the game is still running.
+ */
+const isRoundOver = (gameState) => {
+  return !gameState.gameOver &&
+    gameState.playerHands.every(hand => hand.length === 0) &&
+    !gameState.tableCards.some(item => item.type === 'temporary_stack');
+};
+
+/**
+ * Advances a finished round.
+ * After round 1 the remaining deck is dealt for round 2; after round 2 (or when the deck
+ * cannot cover another deal, or the variant is played in a single round) the table is swept
+ * to the last capturer and the game is scored.
+ * @param {object} gameState - A game state whose round is over.
+ * @returns {object} { gameState, gameOver } with the state for the next round or the final state.
+ */
+const advanceRound = (gameState) => {
+  if (gameState.round === 1) {
+    const nextRoundState = startNextRound(gameState);
+    if (nextRoundState !== gameState) {
+      return { gameState: nextRoundState, gameOver: false };
+    }
+  }
+
+  let finalState = gameState;
+  if (finalState.tableCards.length > 0 && finalState.lastCapturer !== null) {
+    finalState = handleSweep(finalState);
+  }
+  return { gameState: endGame(finalState), gameOver: true };
+};
+
+module.exports = {
+  isRoundOver,
+  advanceRound,
+};
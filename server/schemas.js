@@ -1,42 +1,330 @@
 const Joi = require('joi');
+const { MIN_SEATS, MAX_SEATS } = require('./game-logic/game-state');
+const { VARIANTS, DEFAULT_VARIANT } = require('./game-logic/variants');
+const { DEFAULT_RULES } = require('./game-logic/rules');
+
+// The highest build any variant allows; the game's own variant is checked by the validators
+const MAX_BUILD_VALUE = Math.max(...Object.values(VARIANTS).map(variant => variant.maxValue));
 
 const cardSchema = Joi.object({
-  rank: Joi.string().required(),
+  rank: Joi.string().valid('A', '2', '3', '4', '5', '6', '7', '8', '9', '10', 'J', 'Q', 'K').required(),
   suit: Joi.string().required(),
-  value: Joi.number().required(),
+  value: Joi.number().integer().min(1).max(13).required(),
+}).unknown(true); // Cards on the table may carry source/player tags
+
+const buildRefSchema = Joi.object({
+  type: Joi.string().valid('build').required(),
+  buildId: Joi.string().required(),
+}).unknown(true);
+
+const stackRefSchema = Joi.object({
+  type: Joi.string().valid('temporary_stack').required(),
+  stackId: Joi.string().required(),
+}).unknown(true);
+
+const tableEntitySchema = Joi.alternatives().conditional('.type', {
+  switch: [
+    { is: 'build', then: buildRefSchema },
+    { is: 'temporary_stack', then: stackRefSchema },
+  ],
+  otherwise: cardSchema,
 });
 
+const draggedItemSchema = Joi.object({
+  card: cardSchema.required(),
+  source: Joi.string().valid('hand', 'table', 'captured', 'opponentCapture', 'temporary_stack').required(),
+  player: Joi.number().integer().min(0).optional(),
+}).unknown(true);
+
 const trailSchema = Joi.object({
   card: cardSchema.required(),
 });
 
 const captureSchema = Joi.object({
-  draggedItem: Joi.object().required(),
-  targetCard: cardSchema.required(),
-});
+  draggedItem: draggedItemSchema.required(),
+  targetCard: tableEntitySchema,
+  selectedTableCards: Joi.array().items(tableEntitySchema).min(1),
+}).or('targetCard', 'selectedTableCards');
 
 const buildSchema = Joi.object({
-  draggedItem: Joi.object().required(),
+  draggedItem: draggedItemSchema.required(),
   targetCard: cardSchema.required(),
-  buildValue: Joi.number().required(),
+  buildValue: Joi.number().integer().min(1).max(MAX_BUILD_VALUE).required(),
   biggerCard: cardSchema.optional(),
   smallerCard: cardSchema.optional(),
 });
 
+const baseBuildSchema = Joi.object({
+  draggedItem: draggedItemSchema.required(),
+  baseCard: cardSchema.required(),
+  // Either a flat list of cards or a list of card combinations
+  otherCardsInBuild: Joi.array().items(cardSchema, Joi.array().items(cardSchema).min(1)).required(),
+});
+
+const addToOpponentBuildSchema = Joi.object({
+  draggedItem: draggedItemSchema.required(),
+  buildToAddTo: buildRefSchema.required(),
+});
+
 const addToOwnBuildSchema = Joi.object({
-  draggedItem: Joi.object().required(),
-  buildToAddTo: Joi.object().required(),
+  draggedItem: draggedItemSchema.required(),
+  buildToAddTo: buildRefSchema.required(),
 });
 
 const createBuildFromStackSchema = Joi.object({
-  draggedItem: Joi.object().required(),
-  stackToBuildFrom: Joi.object().required(),
+  draggedItem: draggedItemSchema.required(),
+  stackToBuildFrom: stackRefSchema.required(),
+});
+
+const extendToMergeSchema = Joi.object({
+  draggedItem: draggedItemSchema.required(),
+  opponentBuild: buildRefSchema.required(),
+  ownBuild: buildRefSchema.required(),
+});
+
+const reinforceOpponentBuildSchema = Joi.object({
+  stack: stackRefSchema.required(),
+  targetBuild: buildRefSchema.required(),
+});
+
+const createBuildWithValueSchema = Joi.object({
+  stack: stackRefSchema.required(),
+  buildValue: Joi.number().integer().min(1).max(MAX_BUILD_VALUE).required(),
+});
+
+const createStagingStackSchema = Joi.object({
+  draggedItem: draggedItemSchema.required(),
+  targetCard: cardSchema.required(),
+});
+
+// --- Staging stack actions ---
+
+const addToStagingStackSchema = Joi.object({
+  draggedItem: draggedItemSchema.required(),
+  stack: stackRefSchema.required(),
+});
+
+const cancelStagingStackSchema = Joi.object({
+  stack: stackRefSchema.required(),
+});
+
+const finalizeStagingStackSchema = Joi.object({
+  stack: stackRefSchema.required(),
 });
 
+const mergeIntoOwnBuildSchema = Joi.object({
+  stack: stackRefSchema.required(),
+  targetBuild: buildRefSchema.required(),
+});
+
+const stageOpponentCardSchema = Joi.object({
+  card: cardSchema.required(),
+  from: Joi.number().integer().min(0), // The opponent's 0-based seat; the next seat when omitted
+});
+
+const finalizeTrailSchema = Joi.object({
+  stack: stackRefSchema.required(),
+});
+
+// Payload schema for every game-action type, keyed by action type
+const actionSchemas = {
+  trail: trailSchema,
+  capture: captureSchema,
+  build: buildSchema,
+  baseBuild: baseBuildSchema,
+  addToOpponentBuild: addToOpponentBuildSchema,
+  addToOwnBuild: addToOwnBuildSchema,
+  createBuildFromStack: createBuildFromStackSchema,
+  extendToMerge: extendToMergeSchema,
+  reinforceOpponentBuild: reinforceOpponentBuildSchema,
+  createBuildWithValue: createBuildWithValueSchema,
+  createStagingStack: createStagingStackSchema,
+  addToStagingStack: addToStagingStackSchema,
+  cancelStagingStack: cancelStagingStackSchema,
+  finalizeStagingStack: finalizeStagingStackSchema,
+  mergeIntoOwnBuild: mergeIntoOwnBuildSchema,
+  stageOpponentCard: stageOpponentCardSchema,
+  finalizeTrail: finalizeTrailSchema,
+};
+
+// Time control a room is created with; omitted fields take the defaults
+const timeControlSchema = Joi.object({
+  mode: Joi.string().valid('none', 'perMove', 'bank').default('none'),
+  moveSeconds: Joi.number().integer().min(5).max(600).default(30),
+  bankSeconds: Joi.number().integer().min(30).max(3600).default(300),
+  incrementSeconds: Joi.number().integer().min(0).max(60).default(5),
+  penalty: Joi.string().valid('autoTrail', 'forfeit').default('autoTrail'),
+});
+
+/**
+ * Checks a room's time control and fills in the defaults.
+ * @param {object} [timeControl] - The time control sent with create-room.
+ * @returns {object} { valid: true, timeControl } or { valid: false, message }.
+ */
+const validateTimeControl = (timeControl) => {
+  const { error, value } = timeControlSchema.label('timeControl').validate(timeControl || {});
+  if (error) {
+    return { valid: false, message: `Invalid time control: ${error.message}` };
+  }
+  return { valid: true, timeControl: value };
+};
+
+// Score that wins a match played over several deals; null plays a single deal
+const matchTargetSchema = Joi.number().integer().min(1).max(500).allow(null).default(null);
+
+/**
+ * Checks a room's match target.
+ * @param {number|null} [matchTarget] - The match target sent with create-room.
+ * @returns {object} { valid: true, matchTarget } or { valid: false, message }.
+ */
+const validateMatchTarget = (matchTarget) => {
+  const { error, value } = matchTargetSchema.label('matchTarget').validate(matchTarget);
+  if (error) {
+    return { valid: false, message: `Invalid match target: ${error.message}` };
+  }
+  return { valid: true, matchTarget: value };
+};
+
+// Players a room is dealt to; partnerships pair opposite seats and need four players
+const seatingSchema = Joi.object({
+  seatCount: Joi.number().integer().min(MIN_SEATS).max(MAX_SEATS).default(2),
+  partnerships: Joi.boolean().default(false)
+    .when('seatCount', { is: 4, otherwise: Joi.valid(false).messages({ 'any.only': '{{#label}} need four players' }) }),
+});
+
+/**
+ * Checks a room's seating and fills in the defaults.
+ * @param {object} [seating] - The seating ({ seatCount, partnerships }) sent with create-room.
+ * @returns {object} { valid: true, seating } or { valid: false, message }.
+ */
+const validateSeating = (seating) => {
+  const { error, value } = seatingSchema.label('seating').validate(seating || {});
+  if (error) {
+    return { valid: false, message: `Invalid seating: ${error.message}` };
+  }
+  return { valid: true, seating: value };
+};
+
+// The rules variant a room is dealt for
+const variantSchema = Joi.string().valid(...Object.keys(VARIANTS)).default(DEFAULT_VARIANT);
+
+/**
+ * Checks a room's rules variant and fills in the default.
+ * @param {string} [variant] - The variant name sent with create-room.
+ * @returns {object} { valid: true, variant } or { valid: false, message }.
+ */
+const validateVariant = (variant) => {
+  const { error, value } = variantSchema.label('variant').validate(variant);
+  if (error) {
+    return { valid: false, message: `Invalid variant: ${error.message}` };
+  }
+  return { valid: true, variant: value };
+};
+
+// A reconnecting socket's claim to the seat it held
+const sessionResumeSchema = Joi.object({
+  roomCode: Joi.string().required(),
+  sessionToken: Joi.string().required(),
+});
+
+/**
+ * Checks a resume-session request before any seat is looked up.
+ * @param {object} [request] - The { roomCode, sessionToken } sent with resume-session.
+ * @returns {object} { valid: true, request } or { valid: false, message }.
+ */
+const validateSessionResume = (request) => {
+  const { error, value } = sessionResumeSchema.label('session').validate(request || {});
+  if (error) {
+    return { valid: false, message: `Invalid session: ${error.message}` };
+  }
+  return { valid: true, request: value };
+};
+
+// What a scoring category may be worth
+const scoringWeightSchema = Joi.number().integer().min(0).max(10);
+
+// The house rules a room is played with; anything left out keeps its default
+const rulesSchema = Joi.object({
+  oneBuildPerPlayer: Joi.boolean().default(DEFAULT_RULES.oneBuildPerPlayer),
+  noTrailWithBuild: Joi.boolean().default(DEFAULT_RULES.noTrailWithBuild),
+  noMatchingOpponentBuild: Joi.boolean().default(DEFAULT_RULES.noMatchingOpponentBuild),
+  scoring: Joi.object(Object.fromEntries(
+    Object.entries(DEFAULT_RULES.scoring).map(([category, points]) => [category, scoringWeightSchema.default(points)])
+  )).default(),
+});
+
+/**
+ * Checks a room's house rules and fills in the defaults.
+ * @param {object} [rules] - The house rules sent with create-room.
+ * @returns {object} { valid: true, rules } or { valid: false, message }.
+ */
+const validateRules = (rules) => {
+  const { error, value } = rulesSchema.label('rules').validate(rules || {});
+  if (error) {
+    return { valid: false, message: `Invalid house rules: ${error.message}` };
+  }
+  return { valid: true, rules: value };
+};
+
+/**
+ * Checks the shape of a game-action payload against the schema for its type.
+ * @param {object} action - The client action ({ type, payload }).
+ * @returns {object} { valid: true } or { valid: false, message, details } where each
+ *   detail is { path, message } and path is the dotted field path inside the payload.
+ */
+const validateActionPayload = (action) => {
+  const schema = actionSchemas[action.type];
+  if (!schema) {
+    return { valid: false, message: `Unknown action type: ${action.type}`, details: [] };
+  }
+
+  const { error } = schema.required().label('payload').validate(action.payload, { abortEarly: false });
+  if (!error) {
+    return { valid: true };
+  }
+
+  const details = error.details.map(detail => ({
+    path: detail.path.join('.'),
+    message: detail.message,
+  }));
+  return {
+    valid: false,
+    message: `Invalid ${action.type} payload: ${details.map(d => d.message).join('; ')}`,
+    details,
+  };
+};
+
 module.exports = {
+  cardSchema,
+  actionSchemas,
   trailSchema,
   captureSchema,
   buildSchema,
+  baseBuildSchema,
+  addToOpponentBuildSchema,
   addToOwnBuildSchema,
   createBuildFromStackSchema,
-};
\ No newline at end of file
+  extendToMergeSchema,
+  reinforceOpponentBuildSchema,
+  createBuildWithValueSchema,
+  createStagingStackSchema,
+  addToStagingStackSchema,
+  cancelStagingStackSchema,
+  finalizeStagingStackSchema,
+  mergeIntoOwnBuildSchema,
+  stageOpponentCardSchema,
+  finalizeTrailSchema,
+  validateActionPayload,
+  timeControlSchema,
+  validateTimeControl,
+  matchTargetSchema,
+  validateMatchTarget,
+  seatingSchema,
+  validateSeating,
+  variantSchema,
+  validateVariant,
+  sessionResumeSchema,
+  validateSessionResume,
+  rulesSchema,
+  validateRules,
+};
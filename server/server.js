@@ -17,162 +17,708 @@ app.get('/', (req, res) => {
   res.send('Server is running.');
 });
 
-const { initializeGame } = require('./game-logic/game-state');
+const { initializeGame, createTeams, getSides, getSideOf } = require('./game-logic/game-state');
+const { calculateScores } = require('./game-logic/game-actions');
+const { generateSalt, createDeckCommitment } = require('./game-logic/fair-shuffle');
+const { getVariant } = require('./game-logic/variants');
+const { getRules } = require('./game-logic/rules');
+const { createActionLog, appendAction } = require('./game-logic/action-log');
+const { applyAction } = require('./action-dispatcher');
+const { ERROR_CODES, validateAction } = require('./action-validation');
+const { isRoundOver, advanceRound } = require('./round-flow');
+const { AI_DIFFICULTIES, DEFAULT_AI_DIFFICULTY, chooseAIMove } = require('./game-logic/ai-player');
+const { createMatch, concedeMatch, isMatchUnfinished, dealMatchGame } = require('./game-logic/match');
+const { validateTimeControl, validateMatchTarget, validateSeating, validateVariant, validateRules, validateSessionResume } = require('./schemas');
+const { createClock, startTurn, getTurnTimeLeft, updateClock, chooseTimeoutMove } = require('./turn-clock');
+
 const {
-  handleTrail,
-  handleCapture,
-  handleBuild,
-  handleAddToOpponentBuild,
-  handleAddToOwnBuild,
-  handleBaseBuild,
-  handleCreateBuildFromStack,
-  handleExtendToMerge,
-  handleReinforceOpponentBuildWithStack,
-  handleCreateBuildWithValue,
-  handleCreateStagingStack
-} = require('./game-logic/game-actions');
-
-let players = [];
-let gameState = null;
+  setRoomStore,
+  persistRoom,
+  restoreRooms,
+  createRoom,
+  joinRoom,
+  seatComputer,
+  isComputerSeat,
+  resumeSeat,
+  reserveSeat,
+  releaseSeat,
+  leaveRoom,
+  resetRoomForNextDeal,
+  resetRoomForRematch,
+  findRoomBySocket,
+  isRoomFull,
+  listOpenRooms,
+  normalizeRoomCode
+} = require('./rooms');
+const { createPlayerView } = require('./player-view');
+const { createRoomStore } = require('./storage');
+
+// Rooms are saved after every change so games survive a restart
+const roomStore = createRoomStore();
+setRoomStore(roomStore);
+
+// How long a disconnected player's seat is held before the game is abandoned
+const RECONNECT_GRACE_MS = Number(process.env.RECONNECT_GRACE_MS) || 60000;
+const reconnectTimers = new Map(); // `${roomCode}:${seat}` -> timeout handle
+
+// Deals every new room from this seed, to reproduce a playtest; leave it unset in production
+const DEAL_SEED = process.env.DEAL_SEED || null;
+
+// Pause after the last card of a round so players can see the final board
+const ROUND_TRANSITION_DELAY_MS = Number(process.env.ROUND_TRANSITION_DELAY_MS) || 2000;
+const roundTimers = new Map(); // roomCode -> timeout handle
+
+// How long a computer player "thinks" before each of its moves
+const COMPUTER_MOVE_DELAY_MS = Number(process.env.COMPUTER_MOVE_DELAY_MS) || 1000;
+const computerTimers = new Map(); // roomCode -> timeout handle
+
+// Fires when the player to move runs out of time on the room's clock
+const turnTimers = new Map(); // roomCode -> timeout handle
+
+/**
+ * Sends every seated player their own redacted view of the room's game state.
+ * @param {object} room - The room whose state changed.
+ * @param {string} event - The event to emit ('game-start' or 'game-update').
+ */
+const broadcastGameState = (room, event) => {
+  room.seats.forEach((seatInfo, seat) => {
+    if (!seatInfo || !seatInfo.socketId) return;
+    const { socketId } = seatInfo;
+    const view = createPlayerView(room.gameState, seat);
+    if (event === 'game-start') {
+      console.log(`Emitting game-start to playerSocket ${socketId} as playerNumber ${seat}`);
+      io.to(socketId).emit('game-start', { gameState: view, playerNumber: seat });
+    } else {
+      io.to(socketId).emit(event, view);
+    }
+  });
+};
+
+/**
+ * Builds the payload of the game-over event from a finished game.
+ * The deal's seed and salt are revealed so players can check them against the commitment.
+ * @param {object} room - The room whose game is over.
+ * @returns {object} { winner, scores, scoreDetails, forfeit, match, fairness, actionLog }
+ */
+const getGameOverSummary = (room) => {
+  const { gameState } = room;
+  return {
+    winner: gameState.winner,
+    scores: gameState.scores,
+    scoreDetails: gameState.scoreDetails,
+    forfeit: gameState.forfeit || null, // { seat, reason } when the game was lost by forfeit
+    match: gameState.match || null, // The match totals so far, in match play
+    fairness: { ...gameState.fairness, seed: gameState.seed, salt: room.dealSalt },
+    actionLog: room.actionLog, // Every hand is known by now, so the whole game can be replayed
+  };
+};
+
+/**
+ * Cancels a room's pending round transition, if any.
+ * @param {object} room - The room.
+ */
+const clearRoundTimer = (room) => {
+  if (roundTimers.has(room.code)) {
+    clearTimeout(roundTimers.get(room.code));
+    roundTimers.delete(room.code);
+  }
+};
+
+/**
+ * Once every hand is empty, deals the next round or ends the game after a short pause.
+ * @param {object} room - The room whose state just changed.
+ */
+const scheduleRoundTransition = (room) => {
+  if (!room.gameState || !isRoundOver(room.gameState)) return;
+
+  clearRoundTimer(room);
+  const finishedState = room.gameState;
+  roundTimers.set(room.code, setTimeout(() => {
+    roundTimers.delete(room.code);
+    // The game may have been abandoned while we waited
+    if (room.gameState !== finishedState) return;
+
+    const { gameState: nextState, gameOver } = advanceRound(finishedState);
+    const gameState = updateClock(finishedState, nextState, gameOver, Date.now());
+    room.gameState = gameState;
+    room.actionLog = appendAction(room.actionLog, { type: gameOver ? 'endGame' : 'nextRound', seat: null }, gameState);
+    persistRoom(room);
+    broadcastGameState(room, 'game-update');
+    scheduleTurnTimeout(room);
+
+    if (gameOver) {
+      console.log(`Game in room ${room.code} is over. Scores: ${gameState.scores.join(' - ')}`);
+      io.to(room.code).emit('game-over', getGameOverSummary(room));
+    } else {
+      console.log(`Room ${room.code} is starting round ${gameState.round}`);
+      scheduleComputerMove(room);
+    }
+  }, ROUND_TRANSITION_DELAY_MS));
+};
+
+/**
+ * Validates and applies a game action for a seat, then shares the new state.
+ * Computer moves go through here too, so they obey exactly the same rules.
+ * @param {object} room - The room the action is played in.
+ * @param {number} playerIndex - The 0-based seat making the move.
+ * @param {object} action - The action ({ type, payload }).
+ * @returns {object} {} once applied, { error } with { code, message, details } when rejected,
+ *   or { options } with the action-options payload when the player must choose a build.
+ */
+const performAction = (room, playerIndex, action) => {
+  const gameState = room.gameState;
+
+  // Check the action against the authoritative state; the payload comes back
+  // pointing at the server's own cards, builds and stacks.
+  let validation;
+  try {
+    validation = validateAction(gameState, playerIndex, action);
+  } catch (e) {
+    console.error("Error validating game action:", e);
+    return { error: { code: ERROR_CODES.ACTION_FAILED, message: e.message } };
+  }
+  if (!validation.valid) {
+    return { error: { code: validation.code, message: validation.message, details: validation.details } };
+  }
+
+  let newGameState;
+  try {
+    newGameState = applyAction(gameState, validation.action);
+  } catch (e) {
+    console.error("Error processing game action:", e);
+    return { error: { code: ERROR_CODES.ACTION_FAILED, message: e.message } };
+  }
+
+  // A staging stack that can become several builds: let the player pick one
+  if (newGameState.options) {
+    console.log(`Player ${playerIndex} can finalize their stack as: ${newGameState.options.join(', ')}`);
+    return {
+      options: {
+        title: 'Choose Your Action',
+        message: 'This combination can form multiple actions. Please choose one:',
+        actions: newGameState.options.map(value => ({
+          type: 'createBuildWithValue',
+          label: `Create a Build of ${value}`,
+          payload: { stack: newGameState.stack, buildValue: value },
+        })),
+      },
+    };
+  }
+  if (newGameState.error) {
+    return { error: { code: ERROR_CODES.INVALID_MOVE, message: newGameState.message } };
+  }
+
+  // Handlers return the state untouched when they refuse a move
+  if (newGameState === gameState) {
+    return { error: { code: ERROR_CODES.ACTION_NOT_APPLIED, message: 'That move could not be made.' } };
+  }
+
+  // The clock stops between rounds and passes to whoever is to move next
+  newGameState = updateClock(gameState, newGameState, newGameState.gameOver || isRoundOver(newGameState), Date.now());
+
+  room.gameState = newGameState;
+  room.actionLog = appendAction(room.actionLog, { type: action.type, seat: playerIndex, payload: validation.action.payload }, newGameState);
+  persistRoom(room);
+
+  // Broadcast the updated state to the players in this room
+  broadcastGameState(room, 'game-update');
+  scheduleTurnTimeout(room);
+  scheduleRoundTransition(room);
+  scheduleComputerMove(room);
+  return {};
+};
+
+/**
+ * Ends a game early, awarding it to the other side of the seat that forfeits. With more than
+ * two sides, the one leading on the cards captured so far wins, unless the lead is shared.
+ * The scores are those of the cards captured so far. In match play the whole match is forfeited.
+ * @param {object} room - The room.
+ * @param {number} seat - The 0-based seat that forfeits.
+ * @param {string} reason - Why the seat forfeits (e.g. 'timeout').
+ */
+const forfeitGame = (room, seat, reason) => {
+  clearRoundTimer(room);
+  clearComputerTimer(room);
+  clearTurnTimer(room);
+
+  const previousState = room.gameState;
+  const { scores, details } = calculateScores(previousState.playerCaptures, previousState.teams, getRules(previousState).scoring, previousState.sweeps);
+  const losingSide = getSideOf(previousState, seat);
+  const otherSides = getSides(previousState).map((sideSeats, side) => side).filter(side => side !== losingSide);
+  const best = Math.max(...otherSides.map(side => scores[side]));
+  const leaders = otherSides.filter(side => scores[side] === best);
+  const winner = leaders.length === 1 ? leaders[0] : null;
+  const gameState = updateClock(previousState, {
+    ...previousState,
+    scores,
+    scoreDetails: details,
+    winner,
+    gameOver: true,
+    forfeit: { seat, reason },
+    ...(previousState.match ? { match: concedeMatch(previousState.match, winner) } : {}),
+  }, true, Date.now());
+
+  room.gameState = gameState;
+  room.actionLog = appendAction(room.actionLog, { type: 'forfeit', seat, payload: { reason } }, gameState);
+  persistRoom(room);
+  console.log(`Player ${seat} in room ${room.code} forfeits (${reason})`);
+
+  broadcastGameState(room, 'game-update');
+  io.to(room.code).emit('game-over', getGameOverSummary(room));
+};
+
+/**
+ * Cancels a room's pending turn timeout, if any.
+ * @param {object} room - The room.
+ */
+const clearTurnTimer = (room) => {
+  if (turnTimers.has(room.code)) {
+    clearTimeout(turnTimers.get(room.code));
+    turnTimers.delete(room.code);
+  }
+};
+
+/**
+ * Arms the timeout for the turn that is running on the room's clock, if any.
+ * @param {object} room - The room whose state just changed.
+ */
+const scheduleTurnTimeout = (room) => {
+  clearTurnTimer(room);
+  const state = room.gameState;
+  const timeLeft = state ? getTurnTimeLeft(state.clock, Date.now()) : null;
+  if (timeLeft === null) return;
+
+  turnTimers.set(room.code, setTimeout(() => {
+    turnTimers.delete(room.code);
+    // The player moved, or the game was abandoned, while we waited
+    if (room.gameState !== state) return;
+    handleTurnTimeout(room, state.clock.turnSeat);
+  }, timeLeft));
+};
+
+/**
+ * Applies the room's timeout penalty to a seat that ran out of time.
+ * With 'autoTrail' one move is played for the seat; the clock stays at zero, so a turn that
+ * needs a further action (e.g. confirming a round 2 trail) times out again straight away.
+ * With 'forfeit', or when no move can be played for the seat, the game is forfeited.
+ * @param {object} room - The room.
+ * @param {number} seat - The 0-based seat whose time ran out.
+ */
+const handleTurnTimeout = (room, seat) => {
+  console.log(`Player ${seat} in room ${room.code} ran out of time`);
+  if (room.gameState.clock.penalty === 'forfeit') {
+    return forfeitGame(room, seat, 'timeout');
+  }
+
+  const move = chooseTimeoutMove(room.gameState, seat);
+  const result = move ? performAction(room, seat, move) : { error: { message: 'No legal move.' } };
+  if (result.error || result.options) {
+    console.log(`Could not play a move for player ${seat} in room ${room.code}: ${result.error ? result.error.message : 'the stack needs a choice'}`);
+    forfeitGame(room, seat, 'timeout');
+  }
+};
+
+/**
+ * Cancels a room's pending computer move, if any.
+ * @param {object} room - The room.
+ */
+const clearComputerTimer = (room) => {
+  if (computerTimers.has(room.code)) {
+    clearTimeout(computerTimers.get(room.code));
+    computerTimers.delete(room.code);
+  }
+};
+
+/**
+ * Plays the computer's move after a short pause when it is a computer seat's turn.
+ * @param {object} room - The room whose state just changed.
+ */
+const scheduleComputerMove = (room) => {
+  const state = room.gameState;
+  if (!state || state.gameOver || isRoundOver(state)) return;
+
+  const seat = state.currentPlayer;
+  const seatInfo = room.seats[seat];
+  if (!isComputerSeat(seatInfo)) return;
+
+  clearComputerTimer(room);
+  computerTimers.set(room.code, setTimeout(() => {
+    computerTimers.delete(room.code);
+    // Someone left, or the state moved on, while we waited
+    if (room.gameState !== state) return;
+
+    const move = chooseAIMove(state, seat, seatInfo.computer);
+    if (move) {
+      const result = performAction(room, seat, move);
+      if (!result.error) return;
+      console.log(`Computer move ${move.type} in room ${room.code} was refused: ${result.error.message}`);
+    }
+
+    // Trail any card the rules allow so the game carries on; a seat that cannot move at all
+    // forfeits rather than leave the game waiting on it forever
+    const trailed = state.playerHands[seat].some(card => !performAction(room, seat, { type: 'trail', payload: { card } }).error);
+    if (!trailed) {
+      forfeitGame(room, seat, 'stuck');
+    }
+  }, COMPUTER_MOVE_DELAY_MS));
+};
+
+/**
+ * Deals a new game once every seat in a room is taken.
+ * Rooms that play matches start a new match, unless the deal continues one.
+ * @param {object} room - The room.
+ * @param {object} [match] - The unfinished match the deal belongs to.
+ */
+const startGameIfFull = (room, match = null) => {
+  if (!isRoomFull(room) || room.gameState) return;
+
+  // Commit to the deal before anyone plays; the salt stays secret until the game is over
+  room.dealSalt = generateSalt();
+  const dealOptions = { seatCount: room.seats.length, partnerships: room.partnerships, variant: room.variant, rules: room.rules };
+  const teams = createTeams(room.seats.length, room.partnerships);
+  const currentMatch = match || (room.matchTarget ? createMatch(room.matchTarget, teams ? teams.length : room.seats.length) : null);
+  const gameState = currentMatch
+    ? dealMatchGame(currentMatch, room.seed, dealOptions)
+    : initializeGame(room.seed, dealOptions); // initializeGame should return 0-indexed currentPlayer
+  const clock = createClock(room.timeControl, room.seats.length);
+  room.gameState = {
+    ...gameState,
+    fairness: { commitment: createDeckCommitment(room.seed, room.dealSalt, getVariant(gameState)) },
+    clock: clock && startTurn(clock, gameState.currentPlayer, Date.now()),
+  };
+  room.actionLog = createActionLog(room.gameState);
+  persistRoom(room);
+  console.log(`Room ${room.code} is full. Starting game with seed ${room.seed}...`);
+
+  // Emit each player's view of the game state
+  broadcastGameState(room, 'game-start');
+  scheduleTurnTimeout(room);
+  scheduleComputerMove(room);
+};
+
+/**
+ * Seats a socket in a room and starts the game once every seat is taken.
+ * @param {object} socket - The joining socket.
+ * @param {string} roomCode - The code of the room to join.
+ */
+const seatPlayer = (socket, roomCode) => {
+  const { room, seat, sessionToken, error } = joinRoom(roomCode, socket.id);
+  if (error) {
+    console.log(`Socket ${socket.id} could not join room ${roomCode}: ${error}`);
+    return socket.emit('error', { message: error });
+  }
+
+  socket.join(room.code);
+  console.log(`Assigning player number ${seat} in room ${room.code} to socket: ${socket.id}`);
+  socket.emit('room-joined', { roomCode: room.code, roomName: room.name, playerNumber: seat, sessionToken });
+  socket.emit('player-number', seat); // Emit 0-indexed player number
+
+  startGameIfFull(room);
+};
+
+/**
+ * Ends the game in a room after a seat has been given up for good.
+ * A game still being played is forfeited by the seat that walked out of it.
+ * @param {object} room - The room.
+ * @param {number} seat - The 0-based seat that was vacated.
+ * @param {string} reason - Why the seat was given up ('left' or 'disconnected').
+ */
+const handleSeatVacated = (room, seat, reason) => {
+  console.log(`Player ${seat} left room ${room.code}`);
+
+  clearRoundTimer(room);
+  clearComputerTimer(room);
+  clearTurnTimer(room);
+  if (room.gameState && !room.gameState.gameOver) {
+    forfeitGame(room, seat, reason);
+  }
+  if (room.gameState) {
+    room.gameState = null;
+    room.actionLog = null;
+    room.rematchOffers = [];
+    persistRoom(room);
+    console.log(`Game in room ${room.code} reset.`);
+  }
+  io.to(room.code).emit('player-left', { roomCode: room.code, playerNumber: seat });
+};
+
+/**
+ * Records a seat's wish to play again after a game is over. Computer players always agree;
+ * once every human has asked, the next deal of an unfinished match is dealt, or else a new
+ * game with the seats moved round.
+ * @param {object} room - The room.
+ * @param {number} seat - The 0-based seat asking for a rematch.
+ * @returns {object} {} on success, or { error } with a message.
+ */
+const requestRematch = (room, seat) => {
+  if (!room.gameState || !room.gameState.gameOver) {
+    return { error: 'A rematch can only be offered once the game is over.' };
+  }
+  if (!room.seats.every(seatInfo => seatInfo && seatInfo.connected)) {
+    return { error: 'Your opponent is no longer at the table.' };
+  }
+
+  const offers = room.rematchOffers || [];
+  room.rematchOffers = offers.includes(seat) ? offers : [...offers, seat];
+  const isAgreed = room.seats.every((seatInfo, index) => isComputerSeat(seatInfo) || room.rematchOffers.includes(index));
+  if (!isAgreed) {
+    persistRoom(room);
+    io.to(room.code).emit('rematch-offered', { playerNumbers: room.rematchOffers });
+    return {};
+  }
+
+  if (isMatchUnfinished(room.gameState)) {
+    const { match } = room.gameState;
+    console.log(`Dealing game ${match.dealScores.length + 1} of the match in room ${room.code}`);
+    resetRoomForNextDeal(room);
+    startGameIfFull(room, match);
+    return {};
+  }
+
+  console.log(`Rematch agreed in room ${room.code}`);
+  resetRoomForRematch(room);
+  startGameIfFull(room);
+  return {};
+};
+
+/**
+ * Cancels the pending seat release for a seat, if any.
+ * @param {object} room - The room.
+ * @param {number} seat - The 0-based seat.
+ */
+const clearReconnectTimer = (room, seat) => {
+  const key = `${room.code}:${seat}`;
+  if (reconnectTimers.has(key)) {
+    clearTimeout(reconnectTimers.get(key));
+    reconnectTimers.delete(key);
+  }
+};
+
+/**
+ * Removes a socket from whatever room it is seated in.
+ * Resets the room's game, since a match cannot continue with an empty seat.
+ * @param {object} socket - The leaving socket.
+ */
+const unseatPlayer = (socket) => {
+  const left = leaveRoom(socket.id);
+  if (!left) return;
+
+  const { room, seat } = left;
+  socket.leave(room.code);
+  clearReconnectTimer(room, seat);
+  handleSeatVacated(room, seat, 'left');
+};
+
+/**
+ * Holds a disconnected player's seat for the grace period so they can resume it.
+ * The seat is released and the game abandoned if they do not come back in time.
+ * @param {object} socket - The disconnected socket.
+ */
+const holdSeatForReconnect = (socket) => {
+  const reserved = reserveSeat(socket.id);
+  if (!reserved) return;
+
+  const { room, seat } = reserved;
+  io.to(room.code).emit('opponent-disconnected', { playerNumber: seat, graceMs: RECONNECT_GRACE_MS });
+  startReconnectTimer(room, seat);
+};
+
+/**
+ * Releases a reserved seat, and abandons its game, unless it is resumed within the grace period.
+ * @param {object} room - The room.
+ * @param {number} seat - The 0-based seat being held.
+ */
+const startReconnectTimer = (room, seat) => {
+  console.log(`Holding seat ${seat} in room ${room.code} for ${RECONNECT_GRACE_MS}ms`);
+  clearReconnectTimer(room, seat);
+  reconnectTimers.set(`${room.code}:${seat}`, setTimeout(() => {
+    reconnectTimers.delete(`${room.code}:${seat}`);
+    console.log(`Seat ${seat} in room ${room.code} was not resumed in time.`);
+    releaseSeat(room, seat);
+    handleSeatVacated(room, seat, 'disconnected');
+  }, RECONNECT_GRACE_MS));
+};
+
+/**
+ * Picks up the rooms saved by a previous run of the server. Their players get the usual grace
+ * period to resume their seats, and games carry on where they stopped.
+ * A turn that was running starts again, so the time the server was down is not charged to anyone.
+ */
+const resumeRestoredRooms = async () => {
+  const restored = await restoreRooms();
+  restored.forEach(room => {
+    room.seats.forEach((seatInfo, seat) => {
+      if (seatInfo && !isComputerSeat(seatInfo)) startReconnectTimer(room, seat);
+    });
+    const clock = room.gameState && room.gameState.clock;
+    if (clock && clock.turnSeat !== null) {
+      room.gameState = { ...room.gameState, clock: startTurn(clock, clock.turnSeat, Date.now()) };
+      persistRoom(room);
+    }
+    scheduleTurnTimeout(room);
+    scheduleRoundTransition(room);
+    scheduleComputerMove(room);
+  });
+  console.log(`Restored ${restored.length} room(s) from ${roomStore.name} storage`);
+};
 
 io.on('connection', (socket) => {
   console.log('a user connected:', socket.id);
-  players.push(socket);
-  console.log(`Total players connected: ${players.length}`);
-
-  // Assign player number
-  const playerNumber = players.length;
-  console.log(`Assigning player number ${playerNumber - 1} to socket: ${socket.id}`); // Emit 0-indexed player number
-  socket.emit('player-number', playerNumber - 1); // Emit 0-indexed player number
-
-  if (players.length === 2) {
-    // Start the game
-    gameState = initializeGame(); // initializeGame should return 0-indexed currentPlayer
-    console.log('Two players connected. Starting game...');
-
-    // Emit game state to both players
-    players.forEach((playerSocket, index) => {
-      console.log(`Emitting game-start to playerSocket ${playerSocket.id} as playerNumber ${index}`);
-      playerSocket.emit('game-start', { gameState, playerNumber: index });
-    });
-  }
 
-  
-    socket.on('game-action', (action) => {
-      console.log(`Received game-action: ${action.type} from socket ${socket.id}`);
-      if (!gameState || players.length < 2) {
-        console.log('Ignoring action, game not started or not enough players.');
-        return;
-      }
-  
-      // Basic validation: ensure the action is from the current player
-      const playerIndex = players.findIndex(p => p.id === socket.id);
-      if (playerIndex !== gameState.currentPlayer) {
-        console.log(`Rejected action from playerIndex ${playerIndex} because it's player ${gameState.currentPlayer}'s turn.`);
-        return socket.emit('error', { message: "It's not your turn." });
-      }
-    console.log(`Received action: ${action.type} from player ${gameState.currentPlayer}`);
-
-    let newGameState = gameState;
-
-    try {
-      switch (action.type) {
-        case 'trail':
-          console.log(`DEBUG: Received card for trail:`, action.payload.card);
-          console.log(`DEBUG: Player ${playerIndex + 1} hand before trail:`, gameState.playerHands[playerIndex]);
-          newGameState = handleTrail(gameState, action.payload.card);
-          break;
-
-        case 'capture':
-          // Client now sends a specific 'capture' action.
-          const { draggedItem, selectedTableCards, targetCard } = action.payload;
-          // Handle both old format (selectedTableCards) and new format (targetCard)
-          const cardsToCapture = selectedTableCards || (targetCard ? [targetCard] : []);
-          newGameState = handleCapture(gameState, draggedItem, cardsToCapture);
-          break;
-        
-        case 'createStagingStack':
-          console.log(`DEBUG: Received createStagingStack action:`, action.payload);
-          const { draggedItem: stagingDraggedItem, targetCard: stagingTargetCard } = action.payload;
-          newGameState = handleCreateStagingStack(gameState, stagingDraggedItem.card, stagingTargetCard);
-          break;
-
-        case 'build':
-          console.log(`DEBUG: Received build action:`, action.payload);
-          const { draggedItem: buildDraggedItem, targetCard: buildTargetCard, buildValue, biggerCard, smallerCard } = action.payload;
-          newGameState = handleBuild(gameState, buildDraggedItem, [buildTargetCard], buildValue, biggerCard, smallerCard);
-          break;
-
-        case 'addToOpponentBuild':
-          console.log(`DEBUG: Received addToOpponentBuild action:`, action.payload);
-          const { draggedItem: opponentBuildDraggedItem, buildToAddTo } = action.payload;
-          newGameState = handleAddToOpponentBuild(gameState, opponentBuildDraggedItem, buildToAddTo);
-          break;
-
-        case 'addToOwnBuild':
-          console.log(`DEBUG: Received addToOwnBuild action:`, action.payload);
-          const { draggedItem: ownBuildDraggedItem, buildToAddTo: ownBuildToAddTo } = action.payload;
-          newGameState = handleAddToOwnBuild(gameState, ownBuildDraggedItem, ownBuildToAddTo);
-          break;
-
-        case 'baseBuild':
-          console.log(`DEBUG: Received baseBuild action:`, action.payload);
-          const { draggedItem: baseBuildDraggedItem, baseCard, otherCardsInBuild } = action.payload;
-          newGameState = handleBaseBuild(gameState, baseBuildDraggedItem, baseCard, otherCardsInBuild);
-          break;
-
-        case 'createBuildFromStack':
-          console.log(`DEBUG: Received createBuildFromStack action:`, action.payload);
-          const { draggedItem: stackDraggedItem, stackToBuildFrom } = action.payload;
-          newGameState = handleCreateBuildFromStack(gameState, stackDraggedItem, stackToBuildFrom);
-          break;
-
-        case 'extendToMerge':
-          console.log(`DEBUG: Received extendToMerge action:`, action.payload);
-          const { draggedItem: mergeDraggedItem, opponentBuild, ownBuild } = action.payload;
-          newGameState = handleExtendToMerge(gameState, mergeDraggedItem.card, opponentBuild, ownBuild);
-          break;
-
-        case 'reinforceOpponentBuild':
-          console.log(`DEBUG: Received reinforceOpponentBuild action:`, action.payload);
-          const { stack, targetBuild } = action.payload;
-          newGameState = handleReinforceOpponentBuildWithStack(gameState, stack, targetBuild);
-          break;
-
-        case 'createBuildWithValue':
-          console.log(`DEBUG: Received createBuildWithValue action:`, action.payload);
-          const { stack: buildStack, buildValue: chosenBuildValue } = action.payload;
-          newGameState = handleCreateBuildWithValue(gameState, buildStack, chosenBuildValue);
-          break;
-
-        default:
-          console.log(`Unknown action type: ${action.type}`);
-          return socket.emit('error', { message: `Unknown action type: ${action.type}` });
+  socket.on('list-rooms', () => {
+    socket.emit('room-list', listOpenRooms());
+  });
+
+  socket.on('create-room', ({ name, timeControl, matchTarget, seating, variant, rules } = {}) => {
+    const timeControlCheck = validateTimeControl(timeControl);
+    if (!timeControlCheck.valid) {
+      return socket.emit('error', { message: timeControlCheck.message });
+    }
+    const matchTargetCheck = validateMatchTarget(matchTarget);
+    if (!matchTargetCheck.valid) {
+      return socket.emit('error', { message: matchTargetCheck.message });
+    }
+    const seatingCheck = validateSeating(seating);
+    if (!seatingCheck.valid) {
+      return socket.emit('error', { message: seatingCheck.message });
+    }
+    const variantCheck = validateVariant(variant);
+    if (!variantCheck.valid) {
+      return socket.emit('error', { message: variantCheck.message });
+    }
+    const rulesCheck = validateRules(rules);
+    if (!rulesCheck.valid) {
+      return socket.emit('error', { message: rulesCheck.message });
+    }
+
+    unseatPlayer(socket);
+    const room = createRoom(name, timeControlCheck.timeControl, matchTargetCheck.matchTarget, seatingCheck.seating, variantCheck.variant, rulesCheck.rules, DEAL_SEED);
+    console.log(`Socket ${socket.id} created room ${room.code}`);
+    seatPlayer(socket, room.code);
+  });
+
+  socket.on('join-room', ({ roomCode } = {}) => {
+    const current = findRoomBySocket(socket.id);
+    if (current && current.room.code !== normalizeRoomCode(roomCode)) {
+      unseatPlayer(socket);
+    }
+    seatPlayer(socket, roomCode);
+  });
+
+  socket.on('add-computer', ({ difficulty } = {}) => {
+    const seated = findRoomBySocket(socket.id);
+    if (!seated) {
+      return socket.emit('error', { message: 'Join a room before adding a computer player.' });
+    }
+
+    const level = AI_DIFFICULTIES.includes(difficulty) ? difficulty : DEFAULT_AI_DIFFICULTY;
+    const { room, seat, error } = seatComputer(seated.room, level);
+    if (error) {
+      return socket.emit('error', { message: error });
+    }
+
+    console.log(`Seated a ${level} computer player as player ${seat} in room ${room.code}`);
+    startGameIfFull(room);
+  });
+
+  socket.on('leave-room', () => {
+    unseatPlayer(socket);
+  });
+
+  socket.on('resign', () => {
+    const seated = findRoomBySocket(socket.id);
+    if (!seated || !seated.room.gameState || seated.room.gameState.gameOver) {
+      return socket.emit('error', { message: 'There is no game to resign.' });
+    }
+    forfeitGame(seated.room, seated.seat, 'resign');
+  });
+
+  socket.on('offer-rematch', () => {
+    const seated = findRoomBySocket(socket.id);
+    if (!seated) {
+      return socket.emit('error', { message: 'Join a room before offering a rematch.' });
+    }
+
+    const { error } = requestRematch(seated.room, seated.seat);
+    if (error) {
+      socket.emit('error', { message: error });
+    }
+  });
+
+  socket.on('resume-session', (request) => {
+    const requestCheck = validateSessionResume(request);
+    if (!requestCheck.valid) {
+      return socket.emit('session-expired', { message: requestCheck.message });
+    }
+    const { roomCode, sessionToken } = requestCheck.request;
+    const { room, seat, error } = resumeSeat(roomCode, sessionToken, socket.id);
+    if (error) {
+      console.log(`Socket ${socket.id} could not resume a seat in room ${roomCode}: ${error}`);
+      return socket.emit('session-expired', { message: error });
+    }
+
+    clearReconnectTimer(room, seat);
+    socket.join(room.code);
+    console.log(`Socket ${socket.id} resumed seat ${seat} in room ${room.code}`);
+    socket.emit('room-joined', { roomCode: room.code, roomName: room.name, playerNumber: seat, sessionToken });
+
+    if (room.gameState) {
+      socket.emit('game-start', { gameState: createPlayerView(room.gameState, seat), playerNumber: seat });
+      if (room.gameState.gameOver) {
+        socket.emit('game-over', getGameOverSummary(room));
+        if (room.rematchOffers && room.rematchOffers.length > 0) {
+          socket.emit('rematch-offered', { playerNumbers: room.rematchOffers });
+        }
       }
-    } catch (e) {
-        console.error("Error processing game action:", e);
-        // Optionally emit an error back to the specific player
-        socket.emit('action-error', { message: e.message });
+    }
+    socket.to(room.code).emit('opponent-reconnected', { playerNumber: seat });
+  });
+
+  socket.on('game-action', (action) => {
+    console.log(`Received game-action: ${action && action.type} from socket ${socket.id}`);
+    const seated = findRoomBySocket(socket.id);
+    if (!seated || !seated.room.gameState || !isRoomFull(seated.room)) {
+      console.log('Ignoring action, game not started or not enough players.');
+      return;
     }
 
-    gameState = newGameState;
+    const { room, seat: playerIndex } = seated;
+    const rejectAction = (code, message, details) => {
+      console.log(`Rejected ${action && action.type} from player ${playerIndex}: ${message}`);
+      socket.emit('action-error', { type: action && action.type, code, message, details });
+    };
 
-    // Broadcast the updated state to all players
-    io.emit('game-update', gameState);
+    if (!action || typeof action.type !== 'string') {
+      return rejectAction(ERROR_CODES.UNKNOWN_ACTION, 'Malformed game action.');
+    }
+
+    const result = performAction(room, playerIndex, action);
+    if (result.error) {
+      return rejectAction(result.error.code, result.error.message, result.error.details);
+    }
+    if (result.options) {
+      socket.emit('action-options', result.options);
+    }
   });
 
   socket.on('disconnect', () => {
     console.log('user disconnected:', socket.id);
-    players = players.filter(p => p.id !== socket.id);
-    console.log(`Total players after disconnect: ${players.length}`);
-    // Simple reset for MVP. A real implementation would handle this more gracefully.
-    if (players.length < 2) {
-        gameState = null;
-        console.log('A player disconnected. Game reset.');
+    const seated = findRoomBySocket(socket.id);
+    if (seated && seated.room.gameState) {
+      holdSeatForReconnect(socket);
+    } else {
+      unseatPlayer(socket);
     }
   });
 });
 
-server.listen(PORT, () => {
-  console.log(`Server listening on *:${PORT}`);
-});
+resumeRestoredRooms()
+  .catch(error => console.error('Could not restore saved rooms:', error))
+  .finally(() => {
+    server.listen(PORT, () => {
+      console.log(`Server listening on *:${PORT}`);
+      if (DEAL_SEED !== null) {
+        console.warn(`Every new room is dealt from seed ${DEAL_SEED} (DEAL_SEED is set)`);
+      }
+    });
+  });
@@ -0,0 +1,70 @@
+/**
+ * File Store
+ * Room storage on disk: one JSON file per room, replaced atomically on every save so a crash
+ * mid-write never leaves a torn file behind.
+ */
+
+const fs = require('fs/promises');
+const path = require('path');
+
+/**
+ * Creates a room store that keeps each room in `<directory>/<code>.json`.
+ * @param {string} directory - Where room files are kept; created if missing.
+ * @returns {object} A room store (see ./index.js).
+ */
+const createFileStore = (directory) => {
+  // Writes to one room are chained so an older save can never land after a newer one
+  const pendingWrites = new Map(); // roomCode -> promise of the last queued write
+
+  const roomFile = (code) => path.join(directory, `${code}.json`);
+
+  const enqueue = (code, write) => {
+    const previous = pendingWrites.get(code) || Promise.resolve();
+    const next = previous.catch(() => {}).then(write);
+    pendingWrites.set(code, next);
+    next.finally(() => {
+      if (pendingWrites.get(code) === next) pendingWrites.delete(code);
+    }).catch(() => {});
+    return next;
+  };
+
+  return {
+    name: 'file',
+
+    saveRoom: (room) => {
+      const json = JSON.stringify(room);
+      return enqueue(room.code, async () => {
+        await fs.mkdir(directory, { recursive: true });
+        const tempFile = `${roomFile(room.code)}.tmp`;
+        await fs.writeFile(tempFile, json);
+        await fs.rename(tempFile, roomFile(room.code));
+      });
+    },
+
+    deleteRoom: (code) => enqueue(code, () => fs.rm(roomFile(code), { force: true })),
+
+    loadRooms: async () => {
+      let files;
+      try {
+        files = await fs.readdir(directory);
+      } catch (error) {
+        if (error.code === 'ENOENT') return [];
+        throw error;
+      }
+
+      const rooms = [];
+      for (const file of files.filter(name => name.endsWith('.json'))) {
+        try {
+          rooms.push(JSON.parse(await fs.readFile(path.join(directory, file), 'utf8')));
+        } catch (error) {
+          console.error(`Skipping unreadable room file ${file}:`, error.message);
+        }
+      }
+      return rooms;
+    },
+  };
+};
+
+module.exports = {
+  createFileStore,
+};
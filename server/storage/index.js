@@ -0,0 +1,39 @@
+/**
+ * Room Storage
+ * Persists rooms, their game state and action log so games survive a server restart.
+ *
+ * A room store is an object with:
+ *   name                   - The backend's name, for logging.
+ *   saveRoom(room)         - Stores a room, replacing any earlier copy. Returns a promise.
+ *   deleteRoom(code)       - Forgets a room. Returns a promise.
+ *   loadRooms()            - Resolves to every stored room.
+ */
+
+const path = require('path');
+const { createMemoryStore } = require('./memory-store');
+const { createFileStore } = require('./file-store');
+
+const DEFAULT_STORAGE_DIR = path.join(__dirname, '..', 'data', 'rooms');
+
+/**
+ * Creates the room store named by the GAME_STORAGE environment variable: 'file' (the default,
+ * kept in GAME_STORAGE_DIR) or 'memory'.
+ * @returns {object} The room store.
+ */
+const createRoomStore = () => {
+  const backend = process.env.GAME_STORAGE || 'file';
+  switch (backend) {
+    case 'memory':
+      return createMemoryStore();
+    case 'file':
+      return createFileStore(process.env.GAME_STORAGE_DIR || DEFAULT_STORAGE_DIR);
+    default:
+      throw new Error(`Unknown GAME_STORAGE backend: ${backend}`);
+  }
+};
+
+module.exports = {
+  createRoomStore,
+  createMemoryStore,
+  createFileStore,
+};
@@ -0,0 +1,31 @@
+/**
+ * Memory Store
+ * Room storage that lives only as long as the process. Rooms are kept serialized, as a real
+ * backend would, so nothing stored can be changed through a live room object.
+ */
+
+/**
+ * Creates an in-memory room store.
+ * @returns {object} A room store (see ./index.js).
+ */
+const createMemoryStore = () => {
+  const saved = new Map(); // roomCode -> JSON
+
+  return {
+    name: 'memory',
+
+    saveRoom: async (room) => {
+      saved.set(room.code, JSON.stringify(room));
+    },
+
+    deleteRoom: async (code) => {
+      saved.delete(code);
+    },
+
+    loadRooms: async () => [...saved.values()].map(json => JSON.parse(json)),
+  };
+};
+
+module.exports = {
+  createMemoryStore,
+};
@@ -5,8 +5,25 @@ const socket = io("http://localhost:3000");
 
 console.log('Attempting to connect to the server...');
 
+// Usage: node test-client.js [ROOM_CODE]
+// Without a room code a new room is created; with one, that room is joined.
+const roomCode = process.argv[2];
+
 socket.on('connect', () => {
   console.log('Successfully connected with ID:', socket.id);
+  if (roomCode) {
+    socket.emit('join-room', { roomCode });
+  } else {
+    socket.emit('create-room', { name: 'Test room' });
+  }
+});
+
+socket.on('room-joined', (data) => {
+  console.log(`Joined room ${data.roomCode} (${data.roomName})`);
+});
+
+socket.on('error', (error) => {
+  console.error('Server error:', error.message);
 });
 
 socket.on('player-number', (number) => {
@@ -0,0 +1,80 @@
+const test = require('node:test');
+const assert = require('node:assert/strict');
+const { initializeGame } = require('../game-logic/game-state');
+const { ERROR_CODES, validateAction } = require('../action-validation');
+const { applyAction } = require('../action-dispatcher');
+
+const card = (rank, suit) => ({ rank, suit, value: rank === 'A' ? 1 : Number(rank) });
+
+// Player 1 owns a build of 8 (5♠ 3♦) with 6♣ and 2♦ loose on the table
+const ownBuildPosition = (hand) => ({
+  ...initializeGame(1),
+  deck: [],
+  playerHands: [hand, [card('4', '♣'), card('9', '♦')]],
+  tableCards: [
+    { buildId: 'build-1', type: 'build', cards: [card('5', '♠'), card('3', '♦')], value: 8, owner: 0, isExtendable: true },
+    card('6', '♣'),
+    card('2', '♦'),
+  ],
+});
+
+const captureLoose = (capturingCard) => ({
+  type: 'capture',
+  payload: {
+    draggedItem: { card: capturingCard, source: 'hand' },
+    selectedTableCards: [card('6', '♣'), card('2', '♦')],
+  },
+});
+
+test('actions out of turn, for cards not held or of unknown types are rejected', () => {
+  const gameState = ownBuildPosition([card('8', '♥'), card('2', '♠')]);
+  const rejections = [
+    [1, { type: 'trail', payload: { card: card('4', '♣') } }, ERROR_CODES.NOT_YOUR_TURN],
+    [0, { type: 'trail', payload: { card: card('4', '♣') } }, ERROR_CODES.CARD_NOT_IN_HAND],
+    [0, { type: 'shuffle', payload: {} }, ERROR_CODES.UNKNOWN_ACTION],
+    [0, { type: 'trail', payload: {} }, ERROR_CODES.INVALID_PAYLOAD],
+  ];
+  rejections.forEach(([seat, action, code]) => {
+    const validation = validateAction(gameState, seat, action);
+    assert.equal(validation.valid, false);
+    assert.equal(validation.code, code, validation.message);
+  });
+});
+
+test('moves the rules forbid are rejected', () => {
+  const gameState = ownBuildPosition([card('8', '♥'), card('2', '♠')]);
+  // The player owns a build, so may not trail
+  const trail = validateAction(gameState, 0, { type: 'trail', payload: { card: card('2', '♠') } });
+  assert.equal(trail.code, ERROR_CODES.INVALID_MOVE);
+
+  // 2♠ cannot capture 6♣
+  const capture = validateAction(gameState, 0, {
+    type: 'capture',
+    payload: { draggedItem: { card: card('2', '♠'), source: 'hand' }, selectedTableCards: [card('6', '♣')] },
+  });
+  assert.equal(capture.code, ERROR_CODES.INVALID_MOVE);
+});
+
+test('no action is accepted once the game is over', () => {
+  const gameState = { ...ownBuildPosition([card('8', '♥'), card('2', '♠')]), gameOver: true };
+  const validation = validateAction(gameState, 0, { type: 'trail', payload: { card: card('2', '♠') } });
+  assert.equal(validation.code, ERROR_CODES.GAME_OVER);
+});
+
+test('a capture that would strand the player\'s own build is rejected', () => {
+  const gameState = ownBuildPosition([card('8', '♥'), card('2', '♠')]);
+  const validation = validateAction(gameState, 0, captureLoose(card('8', '♥')));
+  assert.equal(validation.valid, false);
+  assert.equal(validation.code, ERROR_CODES.INVALID_MOVE);
+});
+
+test('a capture that adds to the player\'s own build is allowed while they keep a card to take it', () => {
+  const gameState = ownBuildPosition([card('8', '♥'), card('8', '♣')]);
+  const validation = validateAction(gameState, 0, captureLoose(card('8', '♥')));
+  assert.equal(validation.valid, true);
+
+  const newState = applyAction(gameState, validation.action);
+  const build = newState.tableCards.find(item => item.type === 'build');
+  assert.equal(build.cards.length, 5);
+  assert.deepEqual(newState.playerHands[0], [card('8', '♣')]);
+});
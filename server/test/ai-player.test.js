@@ -0,0 +1,44 @@
+const test = require('node:test');
+const assert = require('node:assert/strict');
+const { initializeGame } = require('../game-logic/game-state');
+const { AI_DIFFICULTIES, chooseAIMove } = require('../game-logic/ai-player');
+const { validateAction } = require('../action-validation');
+const { applyAction } = require('../action-dispatcher');
+
+const card = (rank, suit) => ({ rank, suit, value: rank === 'A' ? 1 : Number(rank) });
+
+// Player 1 owns a build of 8 and holds the only 8 that can take it
+const ownBuildPosition = () => ({
+  ...initializeGame(1),
+  deck: [],
+  playerHands: [[card('8', '♥'), card('K', '♠')], [card('4', '♣'), card('9', '♦')]],
+  tableCards: [
+    { buildId: 'build-1', type: 'build', cards: [card('5', '♠'), card('3', '♦')], value: 8, owner: 0, isExtendable: true },
+    card('6', '♣'),
+    card('2', '♦'),
+  ],
+});
+
+AI_DIFFICULTIES.forEach(difficulty => {
+  test(`the ${difficulty} computer plays moves the server accepts`, () => {
+    let gameState = initializeGame();
+    for (let turn = 0; turn < 8; turn++) {
+      const seat = gameState.currentPlayer;
+      const move = chooseAIMove(gameState, seat, difficulty);
+      const validation = validateAction(gameState, seat, move);
+      assert.equal(validation.valid, true, `${move.type}: ${validation.message}`);
+      gameState = applyAction(gameState, validation.action);
+    }
+  });
+});
+
+AI_DIFFICULTIES.forEach(difficulty => {
+  test(`the ${difficulty} computer never plays a move that strands its own build`, () => {
+    for (let attempt = 0; attempt < 20; attempt++) {
+      const gameState = ownBuildPosition();
+      const move = chooseAIMove(gameState, 0, difficulty);
+      const validation = validateAction(gameState, 0, move);
+      assert.equal(validation.valid, true, `${move.type}: ${validation.message}`);
+    }
+  });
+});
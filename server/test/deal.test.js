@@ -0,0 +1,27 @@
+const test = require('node:test');
+const assert = require('node:assert/strict');
+const { initializeGame } = require('../game-logic/game-state');
+const { createDeckCommitment } = require('../game-logic/fair-shuffle');
+
+const describeHand = (hand) => hand.map(c => `${c.rank}${c.suit}`).join(' ');
+
+test('a seed always deals the same game', () => {
+  const gameState = initializeGame(2024);
+  assert.equal(gameState.seed, 2024);
+  assert.deepEqual(gameState.playerHands.map(describeHand), [
+    '3♣ 5♦ 9♥ 3♥ 5♥ 10♥ 4♥ 4♣ 3♦ A♠',
+    '8♦ 6♦ 4♦ 6♠ 2♦ 5♣ 3♠ 2♥ 4♠ 7♣',
+  ]);
+  assert.deepEqual(initializeGame(2024).deck, gameState.deck);
+  assert.notDeepEqual(initializeGame(2025).deck, gameState.deck);
+});
+
+test('the deal commitment is the SHA-256 of the salt, seed and deck', () => {
+  // The client recomputes this with its own SHA-256, so the value must never drift
+  assert.equal(
+    createDeckCommitment(2024, '0123456789abcdef'),
+    '8a6559250d6360f56404fbc61b397c546dca155f0315dda58252136999cd323b'
+  );
+  assert.notEqual(createDeckCommitment(2024, 'fedcba9876543210'), createDeckCommitment(2024, '0123456789abcdef'));
+  assert.notEqual(createDeckCommitment(2025, '0123456789abcdef'), createDeckCommitment(2024, '0123456789abcdef'));
+});
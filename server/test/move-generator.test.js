@@ -0,0 +1,41 @@
+const test = require('node:test');
+const assert = require('node:assert/strict');
+const { initializeGame } = require('../game-logic/game-state');
+const { generateLegalMoves } = require('../game-logic/move-generator');
+
+const card = (rank, suit) => ({ rank, suit, value: rank === 'A' ? 1 : Number(rank) });
+const describeTargets = (move) => move.payload.selectedTableCards
+  .map(item => (item.type === 'build' ? `build of ${item.value}` : `${item.rank}${item.suit}`)).sort().join(' ');
+
+test('captures list every set of loose cards that groups into the capture value', () => {
+  const gameState = {
+    ...initializeGame(1),
+    playerHands: [[card('7', '♠')], [card('2', '♣')]],
+    tableCards: [card('7', '♥'), card('3', '♦'), card('4', '♣'), card('2', '♥'), card('9', '♣')],
+  };
+  const captures = generateLegalMoves(gameState, 0).filter(move => move.type === 'capture').map(describeTargets);
+  assert.deepEqual(captures.sort(), ['3♦ 4♣', '3♦ 4♣ 7♥', '7♥'].sort());
+});
+
+test('captures that would strand the player\'s own build are not listed', () => {
+  const gameState = {
+    ...initializeGame(1),
+    playerHands: [[card('8', '♥'), card('2', '♠')], [card('4', '♣')]],
+    tableCards: [
+      { buildId: 'build-1', type: 'build', cards: [card('5', '♠'), card('3', '♦')], value: 8, owner: 0, isExtendable: true },
+      card('6', '♣'),
+      card('2', '♦'),
+    ],
+  };
+  const captures = generateLegalMoves(gameState, 0).filter(move => move.type === 'capture').map(describeTargets);
+  assert.deepEqual(captures.sort(), ['2♦', '2♦ 6♣ build of 8', 'build of 8'].sort());
+});
+
+test('moves for a crowded table are listed without trying every subset', () => {
+  const dealt = initializeGame(5);
+  const gameState = { ...dealt, tableCards: dealt.deck.slice(0, 20) };
+  const started = Date.now();
+  const moves = generateLegalMoves(gameState, 0);
+  assert.ok(moves.length > 0);
+  assert.ok(Date.now() - started < 2000, `took ${Date.now() - started}ms`);
+});
@@ -0,0 +1,49 @@
+const test = require('node:test');
+const assert = require('node:assert/strict');
+const { createRoom, joinRoom, seatComputer, resumeSeat, reserveSeat } = require('../rooms');
+const { validateSessionResume } = require('../schemas');
+
+test('a reserved seat is resumed with its session token', () => {
+  const room = createRoom('Resume');
+  const { sessionToken } = joinRoom(room.code, 'socket-1');
+  reserveSeat('socket-1');
+
+  const resumed = resumeSeat(room.code, sessionToken, 'socket-2');
+  assert.equal(resumed.seat, 0);
+  assert.equal(room.seats[0].socketId, 'socket-2');
+});
+
+test('a missing or empty session token resumes no seat', () => {
+  const room = createRoom('Tokens');
+  joinRoom(room.code, 'socket-1');
+  seatComputer(room, 'medium');
+
+  [null, undefined, ''].forEach(sessionToken => {
+    const resumed = resumeSeat(room.code, sessionToken, 'intruder');
+    assert.ok(resumed.error, `${sessionToken} resumed seat ${resumed.seat}`);
+  });
+  assert.ok(room.seats.every(seat => seat.socketId !== 'intruder'));
+});
+
+test('a computer seat is never resumed, whatever its session token', () => {
+  const room = createRoom('Computer');
+  joinRoom(room.code, 'socket-1');
+  const { seat } = seatComputer(room, 'medium');
+  room.seats[seat] = { ...room.seats[seat], sessionToken: 'computer-token' };
+
+  assert.ok(resumeSeat(room.code, 'computer-token', 'intruder').error);
+  assert.equal(room.seats[seat].socketId, null);
+});
+
+test('resume-session requests need a room code and a session token string', () => {
+  assert.equal(validateSessionResume({ roomCode: 'ABCDE', sessionToken: 'token' }).valid, true);
+  [null, undefined, '', 42, {}].forEach(sessionToken => {
+    assert.equal(validateSessionResume({ roomCode: 'ABCDE', sessionToken }).valid, false);
+  });
+  assert.equal(validateSessionResume(undefined).valid, false);
+});
+
+test('a room records the seed it is dealt from', () => {
+  assert.equal(createRoom('Playtest', null, null, null, undefined, null, '2024').seed, 2024);
+  assert.equal(typeof createRoom('Random').seed, 'number');
+});
@@ -0,0 +1,39 @@
+const test = require('node:test');
+const assert = require('node:assert/strict');
+const { initializeGame } = require('../game-logic/game-state');
+const { isRoundOver, advanceRound } = require('../round-flow');
+
+const card = (rank, suit) => ({ rank, suit, value: rank === 'A' ? 1 : Number(rank) });
+
+test('the rest of the deck is dealt once round 1 is played out', () => {
+  const dealt = initializeGame();
+  const gameState = { ...dealt, playerHands: dealt.playerHands.map(() => []) };
+  assert.equal(isRoundOver(gameState), true);
+
+  const next = advanceRound(gameState);
+  assert.equal(next.gameOver, false);
+  assert.equal(next.gameState.round, 2);
+  assert.ok(next.gameState.playerHands.every(hand => hand.length > 0));
+  assert.equal(isRoundOver(next.gameState), false);
+});
+
+test('the table goes to the last capturer and the game is scored after round 2', () => {
+  const gameState = {
+    ...initializeGame(),
+    round: 2,
+    deck: [],
+    playerHands: [[], []],
+    tableCards: [card('10', '♦'), card('2', '♠')],
+    playerCaptures: [[[card('A', '♠'), card('A', '♥')]], [[card('9', '♣'), card('9', '♥')]]],
+    lastCapturer: 0,
+  };
+
+  const { gameState: finalState, gameOver } = advanceRound(gameState);
+  assert.equal(gameOver, true);
+  assert.equal(finalState.gameOver, true);
+  assert.deepEqual(finalState.tableCards, []);
+  assert.equal(finalState.playerCaptures[0].flat().length, 4);
+  // Most cards and spades, both aces and both casinos
+  assert.deepEqual(finalState.scores, [9, 0]);
+  assert.equal(finalState.winner, 0);
+});
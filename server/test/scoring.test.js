@@ -0,0 +1,44 @@
+const test = require('node:test');
+const assert = require('node:assert/strict');
+const { calculateScores } = require('../game-logic/game-actions');
+const { DEFAULT_RULES, createRules } = require('../game-logic/rules');
+
+const card = (rank, suit) => ({ rank, suit });
+
+// Player 1 takes the most cards and spades, both casinos and an ace; player 2 an ace
+const playerCaptures = [
+  [[card('10', '♦'), card('K', '♦'), card('3', '♦')], [card('A', '♠'), card('2', '♠'), card('5', '♠'), card('4', '♠')]],
+  [[card('A', '♥'), card('7', '♣')], [card('9', '♣'), card('9', '♥')]],
+];
+const sweeps = [1, 2];
+
+test('the default scoring awards cards, spades, aces and the casinos but not sweeps', () => {
+  const { scores, details, winner } = calculateScores(playerCaptures, null, DEFAULT_RULES.scoring, sweeps);
+  assert.deepEqual(scores, [8, 1]);
+  assert.equal(winner, 0);
+  assert.deepEqual(details.map(d => d.sweepCount), [1, 2]);
+  assert.deepEqual(details.map(d => d.sweeps), [0, 0]);
+});
+
+test('house rules change what each category is worth', () => {
+  const rules = createRules({ scoring: { mostCards: 3, aces: 2, sweep: 1 } });
+  const { scores, details } = calculateScores(playerCaptures, null, rules.scoring, sweeps);
+  assert.deepEqual(scores, [11, 4]);
+  assert.deepEqual(details.map(d => d.sweeps), [1, 2]);
+});
+
+test('sides tied for the most cards share the points', () => {
+  const tied = [
+    [[card('3', '♥'), card('4', '♥')]],
+    [[card('5', '♣'), card('6', '♣')]],
+  ];
+  const { scores, winner } = calculateScores(tied, null, DEFAULT_RULES.scoring);
+  assert.deepEqual(scores, [1, 1]);
+  assert.equal(winner, null);
+});
+
+test('partners pool their captures', () => {
+  const captures = [...playerCaptures, [[card('8', '♠'), card('J', '♠'), card('Q', '♠')]], []];
+  const { scores } = calculateScores(captures, [[0, 2], [1, 3]], DEFAULT_RULES.scoring);
+  assert.deepEqual(scores, [8, 1]);
+});
@@ -0,0 +1,57 @@
+const test = require('node:test');
+const assert = require('node:assert/strict');
+const { initializeGame } = require('../game-logic/game-state');
+const { handleCreateStagingStack } = require('../game-logic/game-actions');
+const { findPossibleBuildsFromStack } = require('../game-logic/validation');
+const { generateLegalMoves } = require('../game-logic/move-generator');
+const { validateAction } = require('../action-validation');
+const { applyAction } = require('../action-dispatcher');
+
+const card = (rank, suit) => ({ rank, suit, value: rank === 'A' ? 1 : Number(rank) });
+
+// Player 1 holds 5♠ and 8♥ with 3♦ on the table, and stages 5♠ on 3♦: a build of 8
+const stagedPosition = () => {
+  const gameState = {
+    ...initializeGame(1),
+    deck: [],
+    playerHands: [[card('5', '♠'), card('8', '♥')], [card('2', '♣'), card('4', '♦')]],
+    tableCards: [card('3', '♦'), card('9', '♣')],
+  };
+  return handleCreateStagingStack(gameState, card('5', '♠'), card('3', '♦'));
+};
+const ownStack = (gameState) => gameState.tableCards.find(item => item.type === 'temporary_stack');
+
+test('a staging stack can become a build of a value the player holds', () => {
+  const gameState = stagedPosition();
+  const builds = findPossibleBuildsFromStack(ownStack(gameState), gameState.playerHands[0], gameState.tableCards, 0);
+  assert.deepEqual(builds, [8]);
+});
+
+test('the server accepts and applies a build from a staging stack', () => {
+  const gameState = stagedPosition();
+  const action = { type: 'createBuildWithValue', payload: { stack: ownStack(gameState), buildValue: 8 } };
+
+  const validation = validateAction(gameState, 0, action);
+  assert.equal(validation.valid, true);
+
+  const newState = applyAction(gameState, validation.action);
+  const build = newState.tableCards.find(item => item.type === 'build');
+  assert.equal(build.value, 8);
+  assert.equal(build.owner, 0);
+  assert.equal(newState.currentPlayer, 1);
+});
+
+test('the server finalizes a staging stack that makes a single build', () => {
+  const gameState = stagedPosition();
+  const validation = validateAction(gameState, 0, { type: 'finalizeStagingStack', payload: { stack: ownStack(gameState) } });
+  assert.equal(validation.valid, true);
+
+  const newState = applyAction(gameState, validation.action);
+  assert.equal(newState.error, undefined);
+  assert.equal(newState.tableCards.find(item => item.type === 'build').value, 8);
+});
+
+test('the move generator lists the build of a staging stack', () => {
+  const moves = generateLegalMoves(stagedPosition(), 0);
+  assert.ok(moves.some(move => move.type === 'createBuildWithValue' && move.payload.buildValue === 8));
+});
@@ -0,0 +1,121 @@
+/**
+ * Turn Clock
+ * Per-room time controls: a fixed time for every move, or a chess-style bank that each turn
+ * draws on and every finished turn tops up by an increment
+ */
+
+const { rankValue } = require('./game-logic/card-operations');
+const { generateLegalMoves } = require('./game-logic/move-generator');
+
+/**
+ * Creates the clock for a new game, or null when the room plays without one.
+ * @param {object} timeControl - The room's time control ({ mode, moveSeconds, bankSeconds,
+ *   incrementSeconds, penalty }), as validated by the time control schema.
+ * @param {number} seatCount - The number of seats in the game.
+ * @returns {object|null} The clock ({ mode, penalty, moveMs, incrementMs, banks, turnSeat, turnStartedAt }).
+ */
+const createClock = (timeControl, seatCount) => {
+  if (!timeControl || timeControl.mode === 'none') return null;
+
+  const isBank = timeControl.mode === 'bank';
+  return {
+    mode: timeControl.mode,
+    penalty: timeControl.penalty,
+    moveMs: isBank ? null : timeControl.moveSeconds * 1000,
+    incrementMs: isBank ? timeControl.incrementSeconds * 1000 : 0,
+    banks: isBank ? Array(seatCount).fill(timeControl.bankSeconds * 1000) : null,
+    turnSeat: null, // The seat whose time is running, or null while the clock is stopped
+    turnStartedAt: null,
+  };
+};
+
+/**
+ * Starts a seat's turn on the clock.
+ * @param {object} clock - The clock.
+ * @param {number} seat - The 0-based seat to move.
+ * @param {number} now - The current time in milliseconds.
+ * @returns {object} The running clock.
+ */
+const startTurn = (clock, seat, now) => ({ ...clock, turnSeat: seat, turnStartedAt: now });
+
+/**
+ * Stops the clock at the end of a turn. With a bank, the time used is taken off the seat's
+ * bank and the increment added.
+ * @param {object} clock - The clock.
+ * @param {number} now - The current time in milliseconds.
+ * @returns {object} The stopped clock.
+ */
+const finishTurn = (clock, now) => {
+  if (clock.turnSeat === null) return clock;
+
+  let { banks } = clock;
+  if (clock.mode === 'bank') {
+    const used = now - clock.turnStartedAt;
+    banks = banks.map((bank, seat) => (seat === clock.turnSeat ? Math.max(0, bank - used) + clock.incrementMs : bank));
+  }
+  return { ...clock, banks, turnSeat: null, turnStartedAt: null };
+};
+
+/**
+ * Works out how long the seat to move has left.
+ * @param {object|null} clock - The clock.
+ * @param {number} now - The current time in milliseconds.
+ * @returns {number|null} The milliseconds left in the turn, or null when no turn is being timed.
+ */
+const getTurnTimeLeft = (clock, now) => {
+  if (!clock || clock.turnSeat === null) return null;
+
+  const allowed = clock.mode === 'bank' ? clock.banks[clock.turnSeat] : clock.moveMs;
+  return Math.max(0, allowed - (now - clock.turnStartedAt));
+};
+
+/**
+ * Moves the clock on after an action: the turn is finished when play passes to another seat,
+ * and the next seat's turn starts unless the round or game is over.
+ * @param {object} previousState - The state the action was played on.
+ * @param {object} gameState - The state after the action.
+ * @param {boolean} isPaused - True when nobody should be on the clock (between rounds, game over).
+ * @param {number} now - The current time in milliseconds.
+ * @returns {object} The state with its clock updated.
+ */
+const updateClock = (previousState, gameState, isPaused, now) => {
+  let { clock } = gameState;
+  if (!clock) return gameState;
+
+  if (clock.turnSeat !== null && (isPaused || clock.turnSeat !== gameState.currentPlayer)) {
+    clock = finishTurn(clock, now);
+  }
+  if (!isPaused && clock.turnSeat === null) {
+    clock = startTurn(clock, gameState.currentPlayer, now);
+  }
+  return clock === previousState.clock ? gameState : { ...gameState, clock };
+};
+
+/**
+ * Picks the move played for a seat whose time ran out: a waiting staged trail is confirmed,
+ * any other staging stack is cancelled, and then the lowest card the rules allow is trailed.
+ * When no trail is allowed, the first legal move is played instead.
+ * @param {object} gameState - The current game state.
+ * @param {number} seat - The 0-based seat that timed out.
+ * @returns {object|null} The action ({ type, payload }), or null when the seat has no legal move.
+ */
+const chooseTimeoutMove = (gameState, seat) => {
+  const moves = generateLegalMoves(gameState, seat);
+  const stagingMove = moves.find(move => move.type === 'finalizeTrail') ||
+    moves.find(move => move.type === 'cancelStagingStack');
+  const trails = moves
+    .filter(move => move.type === 'trail')
+    .sort((a, b) => rankValue(a.payload.card.rank) - rankValue(b.payload.card.rank));
+
+  const chosen = stagingMove || trails[0] || moves[0];
+  return chosen ? { type: chosen.type, payload: chosen.payload } : null;
+};
+
+module.exports = {
+  createClock,
+  startTurn,
+  finishTurn,
+  getTurnTimeLeft,
+  updateClock,
+  chooseTimeoutMove,
+};
@@ -0,0 +1,22 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import crypto from 'node:crypto';
+import { createDeckCommitment, createShuffledDeck, describeDeck, initializeGame, verifyDeal } from '../game-logic/index.js';
+
+const SALT = '0123456789abcdef';
+
+test('the commitment matches the SHA-256 the server publishes', () => {
+  const expected = crypto.createHash('sha256').update(`${SALT}:2024:${describeDeck(createShuffledDeck(2024))}`).digest('hex');
+  assert.equal(createDeckCommitment(2024, SALT), expected);
+  assert.equal(expected, '8a6559250d6360f56404fbc61b397c546dca155f0315dda58252136999cd323b');
+});
+
+test('a revealed deal is checked against its commitment and the opening hand', () => {
+  const fairness = { commitment: createDeckCommitment(2024, SALT), seed: 2024, salt: SALT };
+  const openingHand = initializeGame(2024).playerHands[1];
+
+  assert.equal(verifyDeal(fairness, 1, openingHand).valid, true);
+  assert.equal(verifyDeal({ ...fairness, seed: 2025 }, 1, openingHand).valid, false);
+  assert.equal(verifyDeal(fairness, 0, openingHand).valid, false);
+  assert.equal(verifyDeal({ commitment: fairness.commitment }, 1).valid, false);
+});
@@ -0,0 +1,41 @@
+import test, { mock } from 'node:test';
+import assert from 'node:assert/strict';
+import { initializeGame, readGameNotation, writeGameNotation } from '../game-logic/index.js';
+
+// The game actions log every move; keep the test output readable
+mock.method(console, 'log', () => {});
+mock.method(console, 'group', () => {});
+mock.method(console, 'groupEnd', () => {});
+
+const NOTATION = `[Seed "2024"]
+Deal P1: 3♣ 5♦ 9♥ 3♥ 5♥ 10♥ 4♥ 4♣ 3♦ A♠
+Deal P2: 8♦ 6♦ 4♦ 6♠ 2♦ 5♣ 3♠ 2♥ 4♠ 7♣
+1. P1 T 10♥
+2. P2 T 8♦
+3. P1 B9 A♠ on 8♦
+4. P2 T 7♣
+5. P1 C 9♥ x B9
+6. P2 T 6♦
+`;
+
+test('a game read from notation is written back the same', () => {
+  const read = readGameNotation(NOTATION);
+  assert.equal(read.valid, true, read.message);
+  assert.equal(read.actionLog.entries.length, 6);
+
+  const written = writeGameNotation(read.actionLog);
+  assert.equal(written.valid, true, written.message);
+  assert.equal(written.notation, NOTATION);
+});
+
+test('the seed deals the hands the notation records', () => {
+  const describeHand = (hand) => hand.map(c => `${c.rank}${c.suit}`).join(' ');
+  const dealt = initializeGame(2024).playerHands.map(describeHand);
+  assert.deepEqual(dealt, ['3♣ 5♦ 9♥ 3♥ 5♥ 10♥ 4♥ 4♣ 3♦ A♠', '8♦ 6♦ 4♦ 6♠ 2♦ 5♣ 3♠ 2♥ 4♠ 7♣']);
+});
+
+test('a move the rules do not allow is rejected with its line', () => {
+  const read = readGameNotation(NOTATION.replace('C 9♥ x B9', 'C 8♣ x B9'));
+  assert.equal(read.valid, false);
+  assert.match(read.message, /^Line 8:/);
+});
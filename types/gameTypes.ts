@@ -44,6 +44,123 @@ export interface GameState {
   scoreDetails?: any; // For end game score breakdown
   lastCapturer: number | null;
   winner?: number;
+  seed?: number; // The deal's seed; dealing again from it replays the game card for card
+  fairness?: DealFairness; // Online games only
+  actionLog?: ActionLog; // Sent with the game-over summary of online games
+  clock?: GameClock; // Timed online games only
+  forfeit?: GameForfeit | null; // Set when the game was lost by forfeit
+  match?: Match; // Set when the game is one deal of a match
+  teams?: number[][]; // Seats on each team in a partnership game; scores and winner are then by team
+  variant?: VariantName; // Left out for standard Casino
+  rules?: HouseRules; // Left out when the game plays the default house rules
+  sweeps?: number[]; // Sweeps made by each seat, once anyone has made one
+}
+
+// The rules variants a game can be dealt for (see game-logic/variants.js)
+export type VariantName = 'standard' | 'royal' | 'draw';
+
+// Build and trail restrictions and scoring weights a game is set up with (see game-logic/rules.js)
+export interface HouseRules {
+  oneBuildPerPlayer: boolean;
+  noTrailWithBuild: boolean;
+  noMatchingOpponentBuild: boolean;
+  scoring: {
+    mostCards: number;
+    mostSpades: number;
+    aces: number;
+    bigCasino: number;
+    littleCasino: number;
+    sweep: number;
+  };
+}
+
+// How many players an online room seats, and whether opposite seats play as partners
+export interface Seating {
+  seatCount: number;
+  partnerships?: boolean;
+}
+
+// Running score of a match played over several deals, first to targetScore
+export interface Match {
+  targetScore: number;
+  dealScores: number[][];
+  totals: number[];
+  matchOver: boolean;
+  winner: number | null;
+}
+
+// How an online room is timed. Moves are limited to moveSeconds each ('perMove'), or drawn from
+// a bank of bankSeconds that every finished turn tops up by incrementSeconds ('bank').
+export interface TimeControl {
+  mode: 'none' | 'perMove' | 'bank';
+  moveSeconds?: number;
+  bankSeconds?: number;
+  incrementSeconds?: number;
+  penalty?: TimeoutPenalty;
+}
+
+// What happens to a player who runs out of time: their lowest card is trailed, or they lose the game
+export type TimeoutPenalty = 'autoTrail' | 'forfeit';
+
+// The server's clock for a timed game. turnSeat is null while the clock is stopped between rounds.
+export interface GameClock {
+  mode: 'perMove' | 'bank';
+  penalty: TimeoutPenalty;
+  moveMs: number | null;
+  incrementMs: number;
+  banks: number[] | null;
+  turnSeat: number | null;
+  turnStartedAt: number | null;
+}
+
+export interface GameForfeit {
+  seat: number;
+  reason: string;
+}
+
+// One applied action and the state it produced. seat is null for moves the game makes itself.
+export interface ActionLogEntry {
+  index: number;
+  type: string;
+  seat: number | null;
+  payload: any;
+  stateHash: string;
+  timestamp: number;
+  state: GameState;
+}
+
+// Append-only record of a game, from the deal to the final score
+export interface ActionLog {
+  seed: number | null;
+  initialState: GameState;
+  entries: ActionLogEntry[];
+}
+
+// A single-player game kept in device storage so it can be continued after the app closes
+export interface SavedGame {
+  version: number;
+  savedAt: number;
+  aiDifficulty: AIDifficulty;
+  gameState: GameState;
+  actionLog: ActionLog;
+}
+
+// Commit–reveal proof of an online deal. The commitment is published at game start;
+// the seed and salt are revealed at game over.
+export interface DealFairness {
+  commitment: string;
+  seed?: number;
+  salt?: string;
+  openingHand?: Card[]; // Remembered by the client to check the deal against
+}
+
+// What a single seat receives from the server: its own hand is visible,
+// other hands and the deck are only sent as counts.
+export interface PlayerView extends Omit<GameState, 'deck'> {
+  seat: number;
+  handCounts: number[];
+  deckCount: number;
+  turnMsLeft?: number | null; // Time left in the current turn when the view was sent
 }
 
 // ===== DRAG & DROP TYPES =====
@@ -70,6 +187,7 @@ export interface TargetInfo {
 export interface ActionPayload {
   draggedItem: DraggedItem;
   targetCard?: TableEntity;
+  selectedTableCards?: TableEntity[];
   buildValue?: number;
   biggerCard?: Card;
   smallerCard?: Card;
@@ -91,6 +209,22 @@ export interface ActionOption {
   payload: ActionPayload;
 }
 
+// A suggested move, with the cards to highlight and why it is good
+export interface Hint {
+  move: ActionOption;
+  handCard: Card | null;
+  targets: TableEntity[];
+  explanation: string;
+}
+
+// Sent by the server when it rejects a game-action
+export interface ActionError {
+  type?: string;
+  code: string;
+  message: string;
+  details?: { path: string; message: string }[]; // Payload fields that failed schema validation
+}
+
 // ===== MODAL TYPES =====
 
 export interface ModalInfo {
@@ -159,8 +293,20 @@ export interface GameActionsReturn {
   handleStageOpponentCardAction: (item: { card: Card; player: number }) => void;
   handleConfirmStagingStackAction: (stack: TemporaryStack) => void;
   closeErrorModal: () => void;
+  actionLog: ActionLog;
+  startNextDeal: () => void;
 }
 
+// ===== LOBBY TYPES =====
+
+export type GameMode = 'single' | 'multiplayer' | 'tutorial' | 'replay';
+
+export type AIDifficulty = 'easy' | 'medium' | 'hard';
+
+export type LobbyAction =
+  | { type: 'create'; timeControl?: TimeControl; matchTarget?: number | null; seating?: Seating; variant?: VariantName; rules?: HouseRules }
+  | { type: 'join'; roomCode: string };
+
 // ===== UTILITY TYPES =====
 
 export type PlayerIndex = 0 | 1;
@@ -178,6 +324,15 @@ export type ActionType =
   | 'createBuildFromStack'
   | 'extendToMerge'
   | 'createBuildWithValue'
+  | 'trail'
+  | 'createStagingStack'
+  | 'reinforceOpponentBuild'
+  | 'addToStagingStack'
+  | 'cancelStagingStack'
+  | 'finalizeStagingStack'
+  | 'mergeIntoOwnBuild'
+  | 'stageOpponentCard'
+  | 'finalizeTrail'
   | 'end_game';
 
 // ===== HANDLER FUNCTION TYPES =====
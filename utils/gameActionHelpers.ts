@@ -1,11 +1,12 @@
-import { rankValue, findBaseBuilds } from '../game-logic/index.js';
+import { rankValue, findBaseBuilds, generateLegalMoves, getVariant, canCaptureValue, getRules } from '../game-logic/index.js';
 import { 
   ActionOption, 
   ActionPayload, 
   DraggedItem, 
   Card, 
   TableEntity, 
-  ActionType 
+  ActionType,
+  GameState
 } from '../types/gameTypes';
 
 /**
@@ -25,6 +26,10 @@ export const createActionOption = (
   payload
 });
 
+// Every legal action for a seat, enumerated by the rules engine (empty when it is not their turn)
+export const getLegalMoves = (gameState: GameState, seat: number): ActionOption[] =>
+  generateLegalMoves(gameState, seat);
+
 // Helper function to check if player can create a build
 export const canCreateBuild = (
   playerHand: Card[], 
@@ -44,7 +49,9 @@ export const generatePossibleActions = (
   playerHand: Card[], 
   tableCards: TableEntity[], 
   playerCaptures: Card[][][], 
-  currentPlayer: number
+  currentPlayer: number,
+  variant = getVariant(),
+  rules = getRules()
 ): ActionOption[] => {
   const actions: ActionOption[] = [];
   const { card: draggedCard } = draggedItem;
@@ -60,7 +67,7 @@ export const generatePossibleActions = (
   const opponentIndex = 1 - (currentPlayer - 1);
   const opponentCaptures = playerCaptures[opponentIndex] || [];
 
-  const canPlayerCreateBuild = !tableCards.some(c =>
+  const canPlayerCreateBuild = !rules.oneBuildPerPlayer || !tableCards.some(c =>
     (c as any).type === 'build' && (c as any).owner === (currentPlayer - 1)
   );
 
@@ -89,9 +96,9 @@ export const generatePossibleActions = (
   // --- Possibility 3: Sum Build ---
   if (canPlayerCreateBuild) {
     const sumBuildValue = rankValue(draggedCard.rank) + rankValue(looseCard.rank);
-    if (sumBuildValue <= 10) {
+    if (sumBuildValue <= variant.maxValue) {
       // To create a sum build, you must have a card in hand matching the sum.
-      const canCaptureSumBuild = remainingHand.some(c => rankValue(c.rank) === sumBuildValue);
+      const canCaptureSumBuild = remainingHand.some(c => canCaptureValue(c, sumBuildValue, variant));
       if (canCaptureSumBuild) {
         const biggerCard = rankValue(draggedCard.rank) > rankValue(looseCard.rank) ? draggedCard : looseCard;
         const smallerCard = rankValue(draggedCard.rank) > rankValue(looseCard.rank) ? looseCard : draggedCard;
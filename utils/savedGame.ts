@@ -0,0 +1,70 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { AIDifficulty, ActionLog, GameState, SavedGame } from '../types/gameTypes';
+
+/**
+ * Saved Game Storage
+ * Keeps the single-player game in device storage after every action so it survives the app closing.
+ * Saves carry a schema version; older saves are migrated step by step when loaded.
+ */
+
+const SAVED_GAME_KEY = 'casino/saved-game';
+
+// Bump when GameState or SavedGame changes shape, and add a migration from the previous version
+export const SAVED_GAME_VERSION = 1;
+
+// MIGRATIONS[n] upgrades a version n save to version n + 1
+const MIGRATIONS: Record<number, (save: any) => any> = {};
+
+/**
+ * Brings a stored save up to the current schema version.
+ * @param save - The save as stored.
+ * @returns The save in the current schema, or null if it cannot be read by this version of the app.
+ */
+const migrateSavedGame = (save: any): SavedGame | null => {
+  if (!save || typeof save.version !== 'number' || save.version > SAVED_GAME_VERSION) {
+    return null;
+  }
+
+  let migrated = save;
+  while (migrated.version < SAVED_GAME_VERSION) {
+    const migrate = MIGRATIONS[migrated.version];
+    if (!migrate) return null;
+    migrated = { ...migrate(migrated), version: migrated.version + 1 };
+  }
+  return migrated;
+};
+
+export const saveGame = async (gameState: GameState, actionLog: ActionLog, aiDifficulty: AIDifficulty): Promise<void> => {
+  const save: SavedGame = { version: SAVED_GAME_VERSION, savedAt: Date.now(), aiDifficulty, gameState, actionLog };
+  try {
+    await AsyncStorage.setItem(SAVED_GAME_KEY, JSON.stringify(save));
+  } catch (error) {
+    console.warn('Could not save the game:', error);
+  }
+};
+
+// The saved game, or null if there is none or it cannot be read
+export const loadSavedGame = async (): Promise<SavedGame | null> => {
+  try {
+    const stored = await AsyncStorage.getItem(SAVED_GAME_KEY);
+    if (!stored) return null;
+
+    const save = migrateSavedGame(JSON.parse(stored));
+    if (!save) {
+      console.warn('Discarding a saved game this version cannot read.');
+      await AsyncStorage.removeItem(SAVED_GAME_KEY);
+    }
+    return save;
+  } catch (error) {
+    console.warn('Could not load the saved game:', error);
+    return null;
+  }
+};
+
+export const clearSavedGame = async (): Promise<void> => {
+  try {
+    await AsyncStorage.removeItem(SAVED_GAME_KEY);
+  } catch (error) {
+    console.warn('Could not clear the saved game:', error);
+  }
+};